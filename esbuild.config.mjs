@@ -1,5 +1,6 @@
 import esbuild from "esbuild";
 import process from "process";
+import fs from "fs";
 import { builtinModules } from 'node:module';
 
 const nodeBuiltins = [...builtinModules, ...builtinModules.map(m => `node:${m}`)];
@@ -48,9 +49,51 @@ const context = await esbuild.context({
 	inject: ['./import-meta-polyfill.js'],
 });
 
+// Standalone git remote helper for s3vault:// URLs, shares the plugin's transfer code
+const helperContext = await esbuild.context({
+	banner: {
+		js: "#!/usr/bin/env node\n" + banner,
+	},
+	entryPoints: ["src/git-remote-s3vault.ts"],
+	bundle: true,
+	platform: "node",
+	external: nodeBuiltins,
+	format: "cjs",
+	target: "node18",
+	logLevel: "info",
+	treeShaking: true,
+	outfile: "git-remote-s3vault",
+	minify: prod,
+	define: {
+		'import.meta.url': 'import_meta_url',
+	},
+	inject: ['./import-meta-polyfill.js'],
+});
+
+// Merge driver for markdown notes, registered by the plugin for *.md files
+const mergeDriverContext = await esbuild.context({
+	banner: {
+		js: "#!/usr/bin/env node\n" + banner,
+	},
+	entryPoints: ["src/git-merge-markdown.ts"],
+	bundle: true,
+	platform: "node",
+	external: nodeBuiltins,
+	format: "cjs",
+	target: "node18",
+	logLevel: "info",
+	treeShaking: true,
+	outfile: "git-merge-markdown",
+	minify: prod,
+});
+
 if (prod) {
 	await context.rebuild();
+	await helperContext.rebuild();
+	await mergeDriverContext.rebuild();
+	fs.chmodSync("git-remote-s3vault", 0o755);
+	fs.chmodSync("git-merge-markdown", 0o755);
 	process.exit(0);
 } else {
-	await context.watch();
+	await Promise.all([context.watch(), helperContext.watch(), mergeDriverContext.watch()]);
 }
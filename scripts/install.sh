@@ -26,5 +26,6 @@ mkdir -p "$PLUGIN_DIR"
 cp -f "$REPO_ROOT/main.js" "$PLUGIN_DIR/" 2>/dev/null || echo "Warning: main.js not found (run npm run build first)"
 cp -f "$REPO_ROOT/manifest.json" "$PLUGIN_DIR/"
 cp -f "$REPO_ROOT/styles.css" "$PLUGIN_DIR/" 2>/dev/null || true
+cp -f "$REPO_ROOT/git-merge-markdown" "$PLUGIN_DIR/" 2>/dev/null || true
 
 $SCRIPT_DIR/reload.sh
@@ -0,0 +1,41 @@
+import { describe, it, expect } from "vitest";
+import { pixelDiff, pdfInfo, formatSize } from "../utils/binary-diff";
+
+const image = (pixels: number[][]) => ({ width: pixels.length, height: 1, data: new Uint8ClampedArray(pixels.flat()) });
+
+describe("pixelDiff", () => {
+  it("marks pixels beyond the tolerance in red", () => {
+    const a = image([[0, 0, 0, 255], [100, 100, 100, 255], [255, 255, 255, 0]]);
+    const b = image([[4, 0, 0, 255], [200, 100, 100, 255], [255, 255, 255, 0]]);
+    const diff = pixelDiff(a, b);
+    expect(diff.changed).toBe(1);
+    expect([...diff.data.slice(4, 8)]).toEqual([255, 0, 0, 255]);
+    // Unchanged pixels are faded toward white and keep their transparency
+    expect(diff.data[0]).toBeGreaterThan(150);
+    expect(diff.data[11]).toBe(0);
+  });
+
+  it("rejects images of different sizes", () => {
+    expect(() => pixelDiff(image([[0, 0, 0, 0]]), image([[0, 0, 0, 0], [0, 0, 0, 0]]))).toThrow("differ in size");
+  });
+});
+
+describe("pdfInfo", () => {
+  const pdf = (body: string) => new TextEncoder().encode(body);
+
+  it("reads the version, page objects and title", () => {
+    const info = pdfInfo(pdf("%PDF-1.7\n1 0 obj << /Type /Pages /Kids [2 0 R 3 0 R] /Count 2 >>\n"
+      + "2 0 obj << /Type /Page >>\n3 0 obj << /Type/Page >>\n4 0 obj << /Title (Notes \\(draft\\)) >>"));
+    expect(info).toEqual({ version: "1.7", pages: 2, title: "Notes (draft)" });
+  });
+
+  it("falls back to the page tree's count when page objects are compressed", () => {
+    expect(pdfInfo(pdf("%PDF-1.5\n1 0 obj << /Count 12 /Type /Pages /Kids [5 0 R] >>")).pages).toBe(12);
+  });
+});
+
+describe("formatSize", () => {
+  it("picks a unit", () => {
+    expect([formatSize(512), formatSize(2048), formatSize(3 * 1024 * 1024)]).toEqual(["512 B", "2.0 KB", "3.0 MB"]);
+  });
+});
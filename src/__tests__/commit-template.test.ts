@@ -0,0 +1,18 @@
+import { describe, it, expect } from "vitest";
+import { renderTemplate } from "../utils/commit-template";
+
+const now = new Date(2024, 2, 5, 9, 7);
+
+describe("renderTemplate", () => {
+  it("fills in placeholders and leaves unknown ones", () => {
+    const message = renderTemplate("{{date}} {{time}} {{ device }}: {{count}} {{unknown}}", { files: ["a.md"], device: "laptop", now });
+    expect(message).toBe("2024-03-05 09:07 laptop: 1 {{unknown}}");
+  });
+
+  it("names a few files and counts the rest", () => {
+    const render = (files: string[]) => renderTemplate("Update {{files}}", { files, device: "", now });
+    expect(render(["notes/Daily.md"])).toBe("Update Daily");
+    expect(render(["a.md", "img/b.png"])).toBe("Update a and b.png");
+    expect(render(["a.md", "b.md", "c.md", "d.md", "e.md"])).toBe("Update a, b, c and 2 more");
+  });
+});
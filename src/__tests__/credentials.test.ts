@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createCredentialsProvider, fromCredentialProcess, hasCredentials, CredentialsConfig } from "../utils/credentials";
+import { S3, S3Config } from "../utils/s3";
+import { FakeS3 } from "./fake-s3";
+
+function withCredentials(config: S3Config, credentials: Partial<CredentialsConfig>): S3Config {
+  return { ...config, credentials: { ...config.credentials, ...credentials } };
+}
+
+// Shell command printing `output` (quoted for sh)
+function printing(output: object): string {
+  return `echo '${JSON.stringify(output)}'`;
+}
+
+describe("credentials", () => {
+  const server = new FakeS3("vaults");
+  let config: S3Config;
+
+  beforeAll(async () => {
+    await server.start();
+    config = server.config({ accessKeyId: "AKIDSTATIC", secretAccessKey: "secret" });
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  beforeEach(() => {
+    server.reset();
+  });
+
+  it("checks the settings each mode needs", () => {
+    expect(hasCredentials(config)).toBe(true);
+    expect(hasCredentials({ ...config, secretAccessKey: "" })).toBe(false);
+    expect(hasCredentials(withCredentials(config, { mode: "session" }))).toBe(false);
+    expect(hasCredentials(withCredentials(config, { mode: "profile" }))).toBe(true);
+    expect(hasCredentials(withCredentials(config, { mode: "process", credentialProcess: " " }))).toBe(false);
+    expect(hasCredentials(withCredentials({ ...config, accessKeyId: "" }, { mode: "assume-role", roleArn: "arn:aws:iam::1:role/r" }))).toBe(false);
+    expect(hasCredentials(withCredentials({ ...config, accessKeyId: "" }, { mode: "assume-role", roleArn: "arn:aws:iam::1:role/r", profile: "ci" }))).toBe(true);
+    expect(hasCredentials(withCredentials(config, { mode: "web-identity", roleArn: "arn:aws:iam::1:role/r" }))).toBe(false);
+  });
+
+  it("adds the session token to temporary keys", async () => {
+    const provider = createCredentialsProvider(withCredentials(config, { mode: "session", sessionToken: "token" }));
+    expect(await provider()).toMatchObject({ accessKeyId: "AKIDSTATIC", sessionToken: "token" });
+  });
+
+  it("reads credential_process output", async () => {
+    const expiration = new Date(Date.now() + 3600_000);
+    const provider = fromCredentialProcess(printing({
+      Version: 1, AccessKeyId: "AKIDPROCESS", SecretAccessKey: "s", SessionToken: "t", Expiration: expiration.toISOString(),
+    }));
+    expect(await provider()).toEqual({ accessKeyId: "AKIDPROCESS", secretAccessKey: "s", sessionToken: "t", expiration });
+  });
+
+  it("reports a failing or malformed credential_process", async () => {
+    await expect(fromCredentialProcess("echo denied >&2; exit 3")()).rejects.toThrow("Credential process failed: denied");
+    await expect(fromCredentialProcess("echo nope")()).rejects.toThrow("didn't print JSON");
+    await expect(fromCredentialProcess(printing({ Version: 2 }))()).rejects.toThrow("version 2");
+    await expect(fromCredentialProcess(printing({ Version: 1, AccessKeyId: "a", SecretAccessKey: "s", Expiration: "2000-01-01T00:00:00Z" }))())
+      .rejects.toThrow("expired");
+  });
+
+  describe("profiles", () => {
+    let dir: string;
+    let saved: string | undefined;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), "credentials-"));
+      saved = process.env.AWS_SHARED_CREDENTIALS_FILE;
+      process.env.AWS_SHARED_CREDENTIALS_FILE = join(dir, "credentials");
+    });
+
+    afterEach(async () => {
+      if (saved === undefined) delete process.env.AWS_SHARED_CREDENTIALS_FILE;
+      else process.env.AWS_SHARED_CREDENTIALS_FILE = saved;
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it("reads a named profile and picks up rotated keys", async () => {
+      await writeFile(join(dir, "credentials"), "[vault]\naws_access_key_id = AKIDOLD\naws_secret_access_key = s\n");
+      const provider = createCredentialsProvider(withCredentials(config, { mode: "profile", profile: "vault" }));
+      expect((await provider()).accessKeyId).toBe("AKIDOLD");
+
+      await writeFile(join(dir, "credentials"), "[vault]\naws_access_key_id = AKIDNEW\naws_secret_access_key = s\n");
+      expect((await provider()).accessKeyId).toBe("AKIDNEW");
+    });
+  });
+
+  it("signs requests with the provider passed to S3 and refreshes expiring credentials", async () => {
+    let calls = 0;
+    // Expiring within the SDK's five-minute refresh window, so every request asks again
+    const s3 = new S3(config, async () => ({
+      accessKeyId: `AKIDCALL${++calls}`,
+      secretAccessKey: "s",
+      expiration: new Date(Date.now() + 60_000),
+    }));
+    await s3.put("a.txt", "a");
+    await s3.put("b.txt", "b");
+    expect(calls).toBeGreaterThanOrEqual(2);
+    expect(String(server.requests[1]?.headers.authorization)).toContain(`Credential=AKIDCALL${calls}/`);
+  });
+});
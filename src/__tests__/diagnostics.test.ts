@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { runDiagnostics, CheckResult } from "../utils/diagnostics";
+import { FakeS3 } from "./fake-s3";
+import { byLabel } from "./helpers";
+
+describe("runDiagnostics", () => {
+  const server = new FakeS3("vaults", { region: "us-east-1" });
+  let cwd: string;
+
+  beforeAll(async () => {
+    await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  beforeEach(async () => {
+    server.reset();
+    cwd = await mkdtemp(join(tmpdir(), "diagnostics-"));
+  });
+
+  afterEach(async () => {
+    await rm(cwd, { recursive: true, force: true });
+  });
+
+  it("passes against a working bucket and cleans up its scratch key", async () => {
+    server.setVersioning("Enabled");
+    const updates: CheckResult[][] = [];
+    const results = byLabel(await runDiagnostics(server.config(), "notes", cwd, r => updates.push(r)));
+
+    for (const label of ["Credentials", "Bucket", "Region", "List objects", "Write", "Read", "Conditional writes", "Delete", "Versioning", "git"]) {
+      expect(results[label]?.status, label).toBe("pass");
+    }
+    expect(results["Region"]?.detail).toBe("us-east-1");
+    expect(updates[0]?.[0]).toMatchObject({ label: "Credentials", status: "running" });
+    expect(server.objects.size).toBe(0);
+  });
+
+  it("explains a missing bucket and skips the checks that need it", async () => {
+    const results = byLabel(await runDiagnostics(server.config({ bucket: "typo" }), "", cwd));
+    expect(results["Bucket"]).toMatchObject({ status: "fail", remedy: "Bucket typo doesn't exist. Create it, or fix the bucket name" });
+    expect(results["Write"]).toMatchObject({ status: "skip", detail: "Needs a reachable bucket" });
+  });
+
+  it("points out a region mismatch", async () => {
+    const results = byLabel(await runDiagnostics(server.config({ region: "eu-west-1" }), "", cwd));
+    expect(results["Region"]).toMatchObject({ status: "fail", remedy: "Set Region to us-east-1" });
+  });
+
+  it("warns when the provider ignores conditional writes or versioning is off", async () => {
+    server.setConditionalWrites(false);
+    const results = byLabel(await runDiagnostics(server.config(), "", cwd));
+    expect(results["Conditional writes"]?.status).toBe("warn");
+    expect(results["Versioning"]).toMatchObject({ status: "warn", detail: "Off" });
+    expect(results["Delete"]?.status).toBe("pass");
+  });
+
+  it("stops at incomplete credentials", async () => {
+    const results = byLabel(await runDiagnostics(server.config({ secretAccessKey: "" }), "", cwd));
+    expect(results["Credentials"]).toMatchObject({ status: "fail", remedy: "Fill in the access key ID and secret access key" });
+    expect(results["Bucket"]?.status).toBe("skip");
+    expect(server.requests).toHaveLength(0);
+  });
+});
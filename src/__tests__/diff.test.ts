@@ -0,0 +1,101 @@
+import { describe, it, expect } from "vitest";
+import { parseHunks, wordDiff, pairLines, sideBySide, ignoreWhitespace, tokenize } from "../utils/diff";
+
+const hunk = [
+  "@@ -10,4 +10,4 @@ ## Notes",
+  " The quick brown fox",
+  "-jumps over the lazy dog.",
+  "-Second line",
+  "+jumps over the sleepy dog.",
+  "+Something else entirely different",
+  " End",
+  "\\ No newline at end of file",
+  "",
+];
+
+describe("parseHunks", () => {
+  it("numbers old and new lines from the hunk header", () => {
+    const lines = parseHunks(hunk);
+    expect(lines.map(l => [l.kind, l.oldNo, l.newNo])).toEqual([
+      ["hunk", undefined, undefined],
+      ["context", 10, 10],
+      ["del", 11, undefined],
+      ["del", 12, undefined],
+      ["add", undefined, 11],
+      ["add", undefined, 12],
+      ["context", 13, 13],
+    ]);
+    expect(lines[2]?.text).toBe("jumps over the lazy dog.");
+  });
+});
+
+describe("wordDiff", () => {
+  it("highlights only the changed word", () => {
+    const diff = wordDiff("jumps over the lazy dog.", "jumps over the sleepy dog.");
+    expect(diff.old).toEqual([
+      { text: "jumps over the ", changed: false },
+      { text: "lazy", changed: true },
+      { text: " dog.", changed: false },
+    ]);
+    expect(diff.new.find(s => s.changed)?.text).toBe("sleepy");
+    expect(diff.inline).toEqual([
+      { text: "jumps over the ", kind: "same" },
+      { text: "lazy", kind: "del" },
+      { text: "sleepy", kind: "add" },
+      { text: " dog.", kind: "same" },
+    ]);
+    expect(diff.similarity).toBeGreaterThan(0.7);
+  });
+
+  it("treats whitespace between changed words as part of the change", () => {
+    const diff = wordDiff("one two three", "one four five");
+    expect(diff.old).toEqual([{ text: "one ", changed: false }, { text: "two three", changed: true }]);
+    expect(diff.inline).toEqual([
+      { text: "one ", kind: "same" },
+      { text: "two three", kind: "del" },
+      { text: "four five", kind: "add" },
+    ]);
+  });
+
+  it("splits words, whitespace and punctuation", () => {
+    expect(tokenize("héllo,  wörld_1!")).toEqual(["héllo", ",", "  ", "wörld_1", "!"]);
+  });
+});
+
+describe("pairLines and sideBySide", () => {
+  it("pairs similar lines and leaves rewritten ones unpaired", () => {
+    const lines = parseHunks(hunk);
+    const pairs = pairLines(lines);
+    expect(pairs.get(lines[2]!)?.add).toBe(lines[4]);
+    expect(pairs.has(lines[3]!)).toBe(false);
+
+    const rows = sideBySide(lines, pairs);
+    expect(rows).toHaveLength(5);
+    expect(rows[2]).toMatchObject({ left: lines[2], right: lines[4] });
+    expect(rows[2]?.pair).toBeDefined();
+    expect(rows[3]).toMatchObject({ left: lines[3], right: lines[5], pair: undefined });
+  });
+});
+
+describe("ignoreWhitespace", () => {
+  it("turns whitespace-only changes into context and keeps the rest in order", () => {
+    const lines = parseHunks([
+      "@@ -1,2 +1,2 @@",
+      "-  indented",
+      "-old",
+      "+indented",
+      "+new",
+    ]);
+    expect(ignoreWhitespace(lines).map(l => [l.kind, l.text, l.oldNo, l.newNo])).toEqual([
+      ["hunk", "@@ -1,2 +1,2 @@", undefined, undefined],
+      ["context", "indented", 1, 1],
+      ["del", "old", 2, undefined],
+      ["add", "new", undefined, 2],
+    ]);
+  });
+
+  it("drops hunks with only whitespace changes", () => {
+    const lines = parseHunks(["@@ -1 +1 @@", "-a  b", "+a b", "@@ -9 +9 @@", "-x", "+y"]);
+    expect(ignoreWhitespace(lines).map(l => l.text)).toEqual(["@@ -9 +9 @@", "x", "y"]);
+  });
+});
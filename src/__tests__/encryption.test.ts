@@ -0,0 +1,215 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { randomBytes } from "crypto";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Readable } from "stream";
+import { Git } from "../utils/git";
+import { S3 } from "../utils/s3";
+import { S3FS } from "../utils/s3-fs";
+import { Remote } from "../utils/remote";
+import { VaultCipher, PassphraseChange, deriveKey, newKdfParams, unlock, isWrongPassphrase, readEncryptionHeader } from "../utils/encryption";
+import { FakeS3 } from "./fake-s3";
+
+async function readAll(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks);
+}
+
+describe("VaultCipher", () => {
+  let cipher: VaultCipher;
+
+  beforeAll(async () => {
+    cipher = new VaultCipher(await deriveKey("correct horse", newKdfParams()));
+  });
+
+  it("round-trips buffers of any size", () => {
+    for (const size of [0, 1, 64 * 1024, 64 * 1024 + 1, 200 * 1024]) {
+      const data = randomBytes(size);
+      const sealed = cipher.encrypt(data, "note.md");
+      expect(sealed.length).toBe(cipher.encryptedSize(size));
+      expect(cipher.plainSize(sealed.length)).toBe(size);
+      expect(cipher.decrypt(sealed, "note.md").equals(data)).toBe(true);
+    }
+  });
+
+  it("encrypts streams in the same format", async () => {
+    const data = randomBytes(150 * 1024);
+    const sealed = await readAll(cipher.encryptStream(Readable.from([data.subarray(0, 1000), data.subarray(1000)]), "video.mp4"));
+    expect(sealed.length).toBe(cipher.encryptedSize(data.length));
+    expect(cipher.decrypt(sealed, "video.mp4").equals(data)).toBe(true);
+  });
+
+  it("is deterministic only when asked to", () => {
+    const data = Buffer.from("same content");
+    expect(cipher.encrypt(data, "lfs/ab/cd/abcd").equals(cipher.encrypt(data, "lfs/ab/cd/abcd"))).toBe(false);
+    expect(cipher.encrypt(data, "lfs/ab/cd/abcd", true).equals(cipher.encrypt(data, "lfs/ab/cd/abcd", true))).toBe(true);
+  });
+
+  it("rejects modified, truncated and plaintext objects", () => {
+    const sealed = cipher.encrypt(randomBytes(100 * 1024), "note.md");
+    const modified = Buffer.from(sealed);
+    modified[100] = modified[100]! ^ 1;
+    expect(() => cipher.decrypt(modified, "note.md")).toThrow("failed authentication");
+    // Dropping the last frame leaves a frame that wasn't sealed as final
+    expect(() => cipher.decrypt(sealed.subarray(0, 20 + 64 * 1024 + 16), "note.md")).toThrow("failed authentication");
+    expect(() => cipher.decrypt(Buffer.from("ref: refs/heads/main\n"), "note.md")).toThrow("isn't encrypted");
+  });
+
+  it("rejects objects moved to another key", () => {
+    const sealed = cipher.encrypt(Buffer.from("abc123\n"), ".git/refs/heads/main");
+    expect(() => cipher.decrypt(sealed, ".git/refs/heads/old")).toThrow("failed authentication");
+    const seeded = cipher.encrypt(Buffer.from("abc123\n"), "lfs/ab/cd/abcd", true);
+    expect(() => cipher.decrypt(seeded, "lfs/ab/cd/abce")).toThrow("failed authentication");
+  });
+
+  it("reports objects encrypted with another key as a wrong passphrase", async () => {
+    const other = new VaultCipher(await deriveKey("battery staple", newKdfParams()));
+    try {
+      other.decrypt(cipher.encrypt(Buffer.from("secret"), "note.md"), "note.md");
+      expect.unreachable();
+    } catch (e) {
+      expect(isWrongPassphrase(e)).toBe(true);
+    }
+  });
+});
+
+describe("Remote encryption", () => {
+  const server = new FakeS3("vaults");
+  let s3: S3;
+  let fs: S3FS;
+  let dir: string;
+  let git: Git;
+
+  beforeAll(async () => {
+    await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  beforeEach(async () => {
+    server.reset();
+    s3 = new S3(server.config());
+    fs = new S3FS(s3, "notes");
+    dir = await mkdtemp(join(tmpdir(), "encryption-"));
+    git = new Git(dir);
+    await git.init();
+    await Git.exec(dir, ["symbolic-ref", "HEAD", "refs/heads/main"]);
+    await git.setConfig("user.email", "test@test.com");
+    await git.setConfig("user.name", "Test");
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  async function push(content: string): Promise<string> {
+    await writeFile(join(dir, "note.md"), content);
+    await git.add("note.md");
+    await git.commit("update");
+    const head = await git.rev("HEAD");
+    const remote = new Remote(fs);
+    expect(await remote.pushRef(join(dir, ".git"), "main", head, await remote.readRef("main"))).toBe(true);
+    return head;
+  }
+
+  function storedBodies(): string {
+    return [...server.objects.entries()]
+      .filter(([key]) => !key.endsWith("encryption.json"))
+      .map(([, obj]) => obj.body.toString("latin1")).join("\n");
+  }
+
+  it("creates a key for an empty remote and encrypts everything but the header", async () => {
+    s3.cipher = await unlock(fs, "hunter2");
+    const head = await push("client secret");
+
+    const header = await readEncryptionHeader(fs);
+    expect(header?.key?.kdf.name).toBe("scrypt");
+    expect(storedBodies()).not.toContain(head);
+    expect(storedBodies()).not.toContain("refs/heads/main");
+    expect(storedBodies()).not.toContain("bundles");
+
+    const reader = new S3(server.config());
+    reader.cipher = await unlock(new S3FS(reader, "notes"), "hunter2");
+    expect((await new Remote(new S3FS(reader, "notes")).readRef("main"))?.oid).toBe(head);
+  });
+
+  it("copies objects under their new key and rejects objects swapped on the remote", async () => {
+    s3.cipher = await unlock(fs, "hunter2");
+    await fs.writeFile("a.txt", "first");
+    await fs.writeFile("b.txt", "second");
+    await fs.copyFile("a.txt", "c.txt");
+    expect((await fs.readFile("c.txt")).toString()).toBe("first");
+
+    // Someone with write access to the bucket swaps two objects
+    const a = server.objects.get("notes/a.txt")!;
+    server.objects.set("notes/a.txt", server.objects.get("notes/b.txt")!);
+    server.objects.set("notes/b.txt", a);
+    await expect(fs.readFile("a.txt")).rejects.toThrow("failed authentication");
+  });
+
+  it("rejects a wrong or missing passphrase", async () => {
+    s3.cipher = await unlock(fs, "hunter2");
+    await expect(unlock(fs, "hunter3")).rejects.toSatisfy(isWrongPassphrase);
+    await expect(unlock(fs, "")).rejects.toSatisfy(isWrongPassphrase);
+  });
+
+  it("leaves an existing unencrypted remote alone until its passphrase is changed", async () => {
+    await push("plain");
+    expect(await unlock(fs, "")).toBeNull();
+    await expect(unlock(fs, "hunter2")).rejects.toThrow("isn't encrypted yet");
+  });
+
+  it("re-encrypts the remote when the passphrase changes", async () => {
+    const head = await push("plain");
+
+    const encrypt = await PassphraseChange.prepare(fs, "", "first");
+    s3.cipher = encrypt.cipher;
+    await encrypt.run(fs);
+    expect(storedBodies()).not.toContain(head);
+    expect(storedBodies()).not.toContain("refs/heads/main");
+
+    const change = await PassphraseChange.prepare(fs, "first", "second");
+    s3.cipher = change.cipher;
+    await change.run(fs);
+    await expect(unlock(fs, "first")).rejects.toSatisfy(isWrongPassphrase);
+
+    const reader = new S3(server.config());
+    const readerFs = new S3FS(reader, "notes");
+    reader.cipher = await unlock(readerFs, "second");
+    const other = await mkdtemp(join(tmpdir(), "encryption-"));
+    try {
+      await new Git(other).init();
+      await new Remote(readerFs).fetchRefs(join(other, ".git"), [head]);
+      expect(await new Git(other).missingObjects([head])).toEqual([]);
+    } finally {
+      await rm(other, { recursive: true, force: true });
+    }
+
+    const disable = await PassphraseChange.prepare(fs, "second", "");
+    s3.cipher = disable.cipher;
+    await disable.run(fs);
+    expect(await unlock(fs, "")).toBeNull();
+    expect(storedBodies()).toContain(head);
+  });
+
+  it("finishes an interrupted passphrase change only with the same new passphrase", async () => {
+    s3.cipher = await unlock(fs, "first");
+    await push("secret");
+
+    // Header written, objects not rewritten yet
+    const change = await PassphraseChange.prepare(fs, "first", "second");
+    const header = await readEncryptionHeader(fs);
+    await fs.writeFile(".git/encryption.json", JSON.stringify({ ...header, rotating: { key: { kdf: newKdfParams(), keyId: "0" } } }));
+    await expect(unlock(fs, "first")).rejects.toThrow("didn't finish");
+    await expect(PassphraseChange.prepare(fs, "first", "second")).rejects.toThrow("different passphrase");
+
+    await fs.writeFile(".git/encryption.json", JSON.stringify(header));
+    s3.cipher = change.cipher;
+    await change.run(fs);
+    expect(await unlock(fs, "second")).not.toBeNull();
+  });
+});
@@ -0,0 +1,313 @@
+// In-memory S3-compatible HTTP server (path-style) used as a local stand-in in tests
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { AddressInfo } from "net";
+import { createHash, randomUUID } from "crypto";
+import type { S3Config } from "../utils/s3";
+
+export interface FakeObject {
+  body: Buffer;
+  etag: string;
+  mtime: Date;
+  headers: Record<string, string>;
+}
+
+export interface FakeRequest {
+  method: string;
+  key: string;
+  query: URLSearchParams;
+  headers: IncomingMessage["headers"];
+}
+
+export interface FakeS3Options {
+  // Simulate backends that ignore If-Match / If-None-Match on writes
+  conditionalWrites?: boolean;
+  region?: string;  // reported by HeadBucket
+  versioning?: "Enabled" | "Suspended";
+}
+
+interface PendingUpload {
+  key: string;
+  headers: Record<string, string>;
+  parts: Map<number, { body: Buffer; etag: string }>;
+}
+
+const CUSTOMER_KEY_MD5 = "x-amz-server-side-encryption-customer-key-md5";
+const COPY_SOURCE_CUSTOMER_KEY_MD5 = "x-amz-copy-source-server-side-encryption-customer-key-md5";
+
+const XML_HEADER = `<?xml version="1.0" encoding="UTF-8"?>`;
+
+function etagOf(body: Buffer): string {
+  return `"${createHash("md5").update(body).digest("hex")}"`;
+}
+
+function escapeXml(s: string): string {
+  return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+async function readBody(req: IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks);
+}
+
+export class FakeS3 {
+  readonly objects = new Map<string, FakeObject>();
+  readonly requests: FakeRequest[] = [];
+  private uploads = new Map<string, PendingUpload>();
+  private server: Server;
+  private endpoint = "";
+
+  constructor(readonly bucket = "test-bucket", private options: FakeS3Options = {}) {
+    this.server = createServer((req, res) => {
+      this.handle(req, res).catch((e: unknown) => {
+        this.error(res, 500, "InternalError", e instanceof Error ? e.message : String(e));
+      });
+    });
+  }
+
+  async start(): Promise<string> {
+    await new Promise<void>(resolve => this.server.listen(0, "127.0.0.1", resolve));
+    const { port } = this.server.address() as AddressInfo;
+    this.endpoint = `http://127.0.0.1:${port}`;
+    return this.endpoint;
+  }
+
+  // Client config pointing at this server (call after start)
+  config(overrides: Partial<S3Config> = {}): S3Config {
+    return {
+      provider: "custom",
+      accessKeyId: "key",
+      secretAccessKey: "secret",
+      credentials: { mode: "static", sessionToken: "", profile: "", credentialProcess: "", roleArn: "", externalId: "", webIdentityTokenFile: "" },
+      region: "us-east-1",
+      bucket: this.bucket,
+      endpoint: this.endpoint,
+      forcePathStyle: true,
+      caBundle: "",
+      rejectUnauthorized: true,
+      serverSideEncryption: { mode: "none", kmsKeyId: "", customerKey: "" },
+      ...overrides,
+    };
+  }
+
+  reset() {
+    this.objects.clear();
+    this.requests.length = 0;
+    this.uploads.clear();
+    this.options.conditionalWrites = true;
+    this.options.versioning = undefined;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>(resolve => this.server.close(() => resolve()));
+  }
+
+  setConditionalWrites(enabled: boolean) {
+    this.options.conditionalWrites = enabled;
+  }
+
+  setVersioning(status: FakeS3Options["versioning"]) {
+    this.options.versioning = status;
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse) {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const [, bucket, ...rest] = url.pathname.split("/");
+    const key = rest.map(decodeURIComponent).join("/");
+    const query = url.searchParams;
+    const method = req.method ?? "GET";
+    this.requests.push({ method, key, query, headers: req.headers });
+
+    if (bucket !== this.bucket) return this.error(res, 404, "NoSuchBucket", "The specified bucket does not exist");
+    const body = await readBody(req);
+
+    if (!key) {
+      if (method === "GET" && query.get("list-type") === "2") return this.listObjects(res, query);
+      if (method === "GET" && query.has("versioning")) {
+        const status = this.options.versioning ? `<Status>${this.options.versioning}</Status>` : "";
+        return this.xml(res, `<VersioningConfiguration xmlns="http://s3.amazonaws.com/doc/2006-03-01/">${status}</VersioningConfiguration>`);
+      }
+      if (method === "HEAD") {
+        if (this.options.region) res.setHeader("x-amz-bucket-region", this.options.region);
+        return this.send(res, 200);
+      }
+      if (method === "POST" && query.has("delete")) return this.deleteObjects(res, body);
+      return this.error(res, 400, "NotImplemented", `${method} on bucket`);
+    }
+
+    if (method === "POST" && query.has("uploads")) return this.createUpload(req, res, key);
+    if (method === "POST" && query.has("uploadId")) return this.completeUpload(res, query.get("uploadId") ?? "");
+    if (method === "GET" && query.has("uploadId")) return this.listParts(res, query.get("uploadId") ?? "");
+    if (method === "DELETE" && query.has("uploadId")) {
+      this.uploads.delete(query.get("uploadId") ?? "");
+      return this.send(res, 204);
+    }
+    if (method === "PUT" && query.has("uploadId")) return this.uploadPart(req, res, query, body);
+    if (method === "PUT") return this.putObject(req, res, key, body);
+    if (method === "GET" || method === "HEAD") return this.getObject(req, res, key, method === "HEAD");
+    if (method === "DELETE") {
+      const ifMatch = req.headers["if-match"];
+      if (this.options.conditionalWrites !== false && typeof ifMatch === "string" && this.objects.get(key)?.etag !== ifMatch) {
+        return this.error(res, 412, "PreconditionFailed", "At least one of the pre-conditions you specified did not hold");
+      }
+      this.objects.delete(key);
+      return this.send(res, 204);
+    }
+    return this.error(res, 400, "NotImplemented", `${method} on object`);
+  }
+
+  private putObject(req: IncomingMessage, res: ServerResponse, key: string, body: Buffer) {
+    const copySource = req.headers["x-amz-copy-source"];
+    if (typeof copySource === "string") {
+      const srcKey = decodeURIComponent(copySource).replace(/^\/?[^/]+\//, "");
+      const src = this.objects.get(srcKey);
+      if (!src) return this.error(res, 404, "NoSuchKey", "The specified key does not exist.");
+      if (!this.customerKeyMatches(src, req.headers[COPY_SOURCE_CUSTOMER_KEY_MD5])) return this.customerKeyError(res);
+      const obj = { ...src, mtime: new Date(), headers: this.storedHeaders(req) };
+      this.objects.set(key, obj);
+      return this.xml(res, `<CopyObjectResult><ETag>${escapeXml(obj.etag)}</ETag><LastModified>${obj.mtime.toISOString()}</LastModified></CopyObjectResult>`);
+    }
+
+    if (this.options.conditionalWrites !== false) {
+      const existing = this.objects.get(key);
+      const ifNoneMatch = req.headers["if-none-match"];
+      const ifMatch = req.headers["if-match"];
+      if (ifNoneMatch === "*" && existing) return this.error(res, 412, "PreconditionFailed", "At least one of the pre-conditions you specified did not hold");
+      if (typeof ifMatch === "string" && existing?.etag !== ifMatch) return this.error(res, 412, "PreconditionFailed", "At least one of the pre-conditions you specified did not hold");
+    }
+
+    const obj: FakeObject = { body, etag: etagOf(body), mtime: new Date(), headers: this.storedHeaders(req) };
+    this.objects.set(key, obj);
+    res.setHeader("ETag", obj.etag);
+    this.send(res, 200);
+  }
+
+  private getObject(req: IncomingMessage, res: ServerResponse, key: string, headOnly: boolean) {
+    const obj = this.objects.get(key);
+    if (!obj) return headOnly ? this.send(res, 404) : this.error(res, 404, "NoSuchKey", "The specified key does not exist.");
+    if (!this.customerKeyMatches(obj, req.headers[CUSTOMER_KEY_MD5])) return headOnly ? this.send(res, 400) : this.customerKeyError(res);
+    res.setHeader("ETag", obj.etag);
+    res.setHeader("Last-Modified", obj.mtime.toUTCString());
+    res.setHeader("Content-Length", obj.body.length);
+    for (const [k, v] of Object.entries(obj.headers)) res.setHeader(k, v);
+    res.statusCode = 200;
+    res.end(headOnly ? undefined : obj.body);
+  }
+
+  private listObjects(res: ServerResponse, query: URLSearchParams) {
+    const prefix = query.get("prefix") ?? "";
+    const delimiter = query.get("delimiter") ?? "";
+    const maxKeys = parseInt(query.get("max-keys") ?? "1000", 10);
+    const start = query.get("continuation-token") ?? "";
+
+    // Collapse keys into entries (objects or common prefixes), then page through them
+    const entries: { key: string; isPrefix: boolean }[] = [];
+    for (const k of [...this.objects.keys()].filter(k => k.startsWith(prefix)).sort()) {
+      const rest = k.slice(prefix.length);
+      const cut = delimiter ? rest.indexOf(delimiter) : -1;
+      const entry = cut >= 0 ? { key: prefix + rest.slice(0, cut + delimiter.length), isPrefix: true } : { key: k, isPrefix: false };
+      if (entries[entries.length - 1]?.key !== entry.key) entries.push(entry);
+    }
+    const offset = start ? entries.findIndex(e => e.key > start) : 0;
+    const page = offset < 0 ? [] : entries.slice(offset, offset + maxKeys);
+    const truncated = offset >= 0 && offset + maxKeys < entries.length;
+
+    const contents = page.filter(e => !e.isPrefix).map(({ key }) => {
+      const obj = this.objects.get(key)!;
+      return `<Contents><Key>${escapeXml(key)}</Key><LastModified>${obj.mtime.toISOString()}</LastModified><ETag>${escapeXml(obj.etag)}</ETag><Size>${obj.body.length}</Size><StorageClass>STANDARD</StorageClass></Contents>`;
+    });
+    const common = page.filter(e => e.isPrefix).map(({ key }) => `<CommonPrefixes><Prefix>${escapeXml(key)}</Prefix></CommonPrefixes>`);
+    const next = truncated ? page[page.length - 1]?.key ?? "" : "";
+    this.xml(res, `<ListBucketResult xmlns="http://s3.amazonaws.com/doc/2006-03-01/"><Name>${this.bucket}</Name><Prefix>${escapeXml(prefix)}</Prefix><KeyCount>${page.length}</KeyCount><MaxKeys>${maxKeys}</MaxKeys><IsTruncated>${truncated ? "true" : "false"}</IsTruncated>${next ? `<NextContinuationToken>${escapeXml(next)}</NextContinuationToken>` : ""}${contents.join("")}${common.join("")}</ListBucketResult>`);
+  }
+
+  private deleteObjects(res: ServerResponse, body: Buffer) {
+    const keys = [...body.toString().matchAll(/<Key>([^<]*)<\/Key>/g)].map(m => m[1] ?? "");
+    for (const k of keys) this.objects.delete(k);
+    this.xml(res, `<DeleteResult>${keys.map(k => `<Deleted><Key>${escapeXml(k)}</Key></Deleted>`).join("")}</DeleteResult>`);
+  }
+
+  private createUpload(req: IncomingMessage, res: ServerResponse, key: string) {
+    const uploadId = randomUUID();
+    this.uploads.set(uploadId, { key, headers: this.storedHeaders(req), parts: new Map() });
+    this.xml(res, `<InitiateMultipartUploadResult><Bucket>${this.bucket}</Bucket><Key>${escapeXml(key)}</Key><UploadId>${uploadId}</UploadId></InitiateMultipartUploadResult>`);
+  }
+
+  private uploadPart(req: IncomingMessage, res: ServerResponse, query: URLSearchParams, body: Buffer) {
+    const upload = this.uploads.get(query.get("uploadId") ?? "");
+    if (!upload) return this.error(res, 404, "NoSuchUpload", "The specified upload does not exist.");
+    const partNumber = parseInt(query.get("partNumber") ?? "0", 10);
+
+    const copySource = req.headers["x-amz-copy-source"];
+    if (typeof copySource === "string") {
+      const srcKey = decodeURIComponent(copySource).replace(/^\/?[^/]+\//, "");
+      const src = this.objects.get(srcKey);
+      if (!src) return this.error(res, 404, "NoSuchKey", "The specified key does not exist.");
+      if (!this.customerKeyMatches(src, req.headers[COPY_SOURCE_CUSTOMER_KEY_MD5])) return this.customerKeyError(res);
+      const range = /bytes=(\d+)-(\d+)/.exec(String(req.headers["x-amz-copy-source-range"] ?? ""));
+      const part = range ? src.body.subarray(parseInt(range[1]!, 10), parseInt(range[2]!, 10) + 1) : src.body;
+      const etag = etagOf(part);
+      upload.parts.set(partNumber, { body: part, etag });
+      return this.xml(res, `<CopyPartResult><ETag>${escapeXml(etag)}</ETag><LastModified>${new Date().toISOString()}</LastModified></CopyPartResult>`);
+    }
+
+    const etag = etagOf(body);
+    upload.parts.set(partNumber, { body, etag });
+    res.setHeader("ETag", etag);
+    this.send(res, 200);
+  }
+
+  private listParts(res: ServerResponse, uploadId: string) {
+    const upload = this.uploads.get(uploadId);
+    if (!upload) return this.error(res, 404, "NoSuchUpload", "The specified upload does not exist.");
+    const parts = [...upload.parts.entries()].sort(([a], [b]) => a - b)
+      .map(([n, p]) => `<Part><PartNumber>${n}</PartNumber><ETag>${escapeXml(p.etag)}</ETag><Size>${p.body.length}</Size></Part>`);
+    this.xml(res, `<ListPartsResult><Bucket>${this.bucket}</Bucket><Key>${escapeXml(upload.key)}</Key><UploadId>${uploadId}</UploadId><IsTruncated>false</IsTruncated>${parts.join("")}</ListPartsResult>`);
+  }
+
+  private completeUpload(res: ServerResponse, uploadId: string) {
+    const upload = this.uploads.get(uploadId);
+    if (!upload) return this.error(res, 404, "NoSuchUpload", "The specified upload does not exist.");
+    const parts = [...upload.parts.entries()].sort(([a], [b]) => a - b).map(([, p]) => p.body);
+    const body = Buffer.concat(parts);
+    const obj: FakeObject = { body, etag: etagOf(body), mtime: new Date(), headers: upload.headers };
+    this.objects.set(upload.key, obj);
+    this.uploads.delete(uploadId);
+    this.xml(res, `<CompleteMultipartUploadResult><Bucket>${this.bucket}</Bucket><Key>${escapeXml(upload.key)}</Key><ETag>${escapeXml(obj.etag)}</ETag></CompleteMultipartUploadResult>`);
+  }
+
+  // Headers echoed back on GET/HEAD (e.g. server-side encryption). An SSE-C key is only kept as its MD5
+  private storedHeaders(req: IncomingMessage): Record<string, string> {
+    const stored: Record<string, string> = {};
+    for (const [k, v] of Object.entries(req.headers)) {
+      if (k.startsWith("x-amz-server-side-encryption") && k !== "x-amz-server-side-encryption-customer-key" && typeof v === "string") stored[k] = v;
+    }
+    return stored;
+  }
+
+  // SSE-C objects can only be read with the key they were written with, and other objects without one
+  private customerKeyMatches(obj: FakeObject, keyMd5: string | string[] | undefined): boolean {
+    return obj.headers[CUSTOMER_KEY_MD5] === keyMd5;
+  }
+
+  private customerKeyError(res: ServerResponse) {
+    this.error(res, 400, "InvalidRequest", "The calculated MD5 hash of the key did not match the hash that was provided.");
+  }
+
+  private xml(res: ServerResponse, body: string) {
+    res.statusCode = 200;
+    res.setHeader("Content-Type", "application/xml");
+    res.end(`${XML_HEADER}${body}`);
+  }
+
+  private error(res: ServerResponse, status: number, code: string, message: string) {
+    res.statusCode = status;
+    res.setHeader("Content-Type", "application/xml");
+    res.end(`${XML_HEADER}<Error><Code>${code}</Code><Message>${escapeXml(message)}</Message></Error>`);
+  }
+
+  private send(res: ServerResponse, status: number) {
+    res.statusCode = status;
+    res.end();
+  }
+}
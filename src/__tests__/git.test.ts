@@ -100,6 +100,77 @@ describe("Git", () => {
       expect(log[0]?.message).toBe("Second");
       expect(log[1]?.message).toBe("First");
     });
+
+    it("follows a file's history through renames", async () => {
+      await writeFile(join(tempDir, "draft.md"), "line one\nline two\nline three\n");
+      await git.add("draft.md");
+      await git.commit("Draft");
+      await writeFile(join(tempDir, "other.md"), "other");
+      await git.add("other.md");
+      await git.commit("Unrelated");
+      await Git.exec(tempDir, ["mv", "draft.md", "note ü.md"]);
+      await git.commit("Rename");
+      await writeFile(join(tempDir, "note ü.md"), "line one\nline two\nline three\nline four\n");
+      await git.add("note ü.md");
+      await git.commit("Edit");
+
+      const history = await git.fileHistory("note ü.md");
+      expect(history.map(r => [r.commit.message, r.path, r.status])).toEqual([
+        ["Edit", "note ü.md", "modified"],
+        ["Rename", "note ü.md", "renamed"],
+        ["Draft", "draft.md", "added"],
+      ]);
+      const first = history[2]!;
+      expect((await git.readFileAt(first.commit.oid, first.path)).toString()).toBe("line one\nline two\nline three\n");
+      const diff = await git.diffFileAt(first.commit.oid, first.path, "note ü.md");
+      expect(diff).toContain("+line four");
+    });
+
+    it("lists deleted files with the commit that deleted them", async () => {
+      await mkdir(join(tempDir, "notes"));
+      for (const name of ["notes/a.md", "notes/b.md", "keep.md"]) await writeFile(join(tempDir, name), name);
+      await git.addAll();
+      await git.commit("Add");
+      await Git.exec(tempDir, ["rm", "-q", "notes/a.md", "notes/b.md"]);
+      await git.commit("Remove notes");
+      await mkdir(join(tempDir, "notes"));
+      await writeFile(join(tempDir, "notes/b.md"), "back");
+      await git.add("notes/b.md");
+      await git.commit("Bring b back");
+
+      const deleted = await git.deletedFiles();
+      expect(deleted.map(f => [f.path, f.commit.message])).toEqual([["notes/a.md", "Remove notes"]]);
+      expect((await git.readFileAt(`${deleted[0]!.commit.oid}^`, "notes/a.md")).toString()).toBe("notes/a.md");
+    });
+
+    it("lists files whose deletion came in through a merge", async () => {
+      for (const name of ["a.md", "b.md", "c.md"]) await writeFile(join(tempDir, name), name);
+      await git.addAll();
+      await git.commit("Add");
+      await Git.exec(tempDir, ["checkout", "-q", "-b", "remote"]);
+      await Git.exec(tempDir, ["rm", "-q", "a.md"]);
+      await git.commit("Remove a");
+      await Git.exec(tempDir, ["checkout", "-q", "-"]);
+      await writeFile(join(tempDir, "b.md"), "local edit");
+      await git.add("b.md");
+      await git.commit("Edit b");
+      // One deletion from the remote side, one made while merging
+      await Git.exec(tempDir, ["merge", "-q", "--no-commit", "remote"]);
+      await Git.exec(tempDir, ["rm", "-q", "c.md"]);
+      await git.commit("merge remote");
+
+      const deleted = await git.deletedFiles();
+      expect(deleted.map(f => [f.path, f.commit.message])).toEqual([["a.md", "merge remote"], ["c.md", "merge remote"]]);
+      expect((await git.readFileAt(`${deleted[0]!.commit.oid}^`, "a.md")).toString()).toBe("a.md");
+    });
+
+    it("reads binary files at a revision byte for byte", async () => {
+      const bytes = Buffer.from([0x89, 0x50, 0x00, 0xff, 0x0a, 0x0d]);
+      await writeFile(join(tempDir, "image.png"), bytes);
+      await git.add("image.png");
+      await git.commit("Image");
+      expect(await git.readFileAt("HEAD", "image.png")).toEqual(bytes);
+    });
   });
 
   describe("diff", () => {
@@ -131,11 +202,98 @@ describe("Git", () => {
       await git.commit("Initial");
     });
 
+    it("gets current branch before the first commit", async () => {
+      const fresh = await mkdtemp(join(tmpdir(), "git-test-"));
+      const freshGit = new Git(fresh);
+      await freshGit.init();
+      expect(["main", "master"]).toContain(await freshGit.currentBranch());
+      await rm(fresh, { recursive: true, force: true });
+    });
+
     it("gets current branch", async () => {
       const branch = await git.currentBranch();
       expect(["main", "master"]).toContain(branch);
     });
 
+    it("reports missing objects", async () => {
+      const head = await git.rev("HEAD");
+      const missing = await git.missingObjects([head, "0".repeat(40)]);
+      expect(missing).toEqual(["0".repeat(40)]);
+    });
+
+    it("counts commits ahead and behind and the files they changed", async () => {
+      const base = await git.rev("HEAD");
+      await git.createBranch("other");
+      await writeFile(join(tempDir, "other.txt"), "other");
+      await git.add("other.txt");
+      await git.commit("Other");
+      const other = await git.rev("HEAD");
+
+      await git.checkout(base);
+      for (const name of ["a.txt", "b.txt"]) {
+        await writeFile(join(tempDir, name), name);
+        await git.add(name);
+        await git.commit(name);
+      }
+      const head = await git.rev("HEAD");
+
+      expect(await git.aheadBehind(head, other)).toEqual({ ahead: 2, behind: 1 });
+      expect(await git.changedFiles(other, head)).toEqual(["a.txt", "b.txt"]);
+      expect(await git.changedFiles(head, other)).toEqual(["other.txt"]);
+      expect(await git.changedFiles(null, other)).toEqual(["init.txt", "other.txt"]);
+    });
+
+    it("previews incoming commits, their diff and the files a merge would conflict on", async () => {
+      const base = await git.rev("HEAD");
+      await git.createBranch("other");
+      await writeFile(join(tempDir, "init.txt"), "theirs");
+      await writeFile(join(tempDir, "new.txt"), "new");
+      await git.addAll();
+      await git.commit("Theirs");
+      const other = await git.rev("HEAD");
+
+      await git.checkout(base);
+      await writeFile(join(tempDir, "mine.txt"), "mine");
+      await git.add("mine.txt");
+      await git.commit("Mine");
+
+      expect((await git.log(10, `HEAD..${other}`)).map(c => c.message)).toEqual(["Theirs"]);
+      expect(await git.mergeBase("HEAD", other)).toBe(base);
+      const diff = await git.diffSince("HEAD", other);
+      expect(diff).toContain("+theirs");
+      expect(diff).not.toContain("mine.txt");
+      expect(await git.mergeConflicts("HEAD", other)).toEqual([]);
+
+      await writeFile(join(tempDir, "init.txt"), "ours");
+      await git.add("init.txt");
+      await git.commit("Ours");
+      expect(await git.mergeConflicts("HEAD", other)).toEqual(["init.txt"]);
+      // Nothing was merged
+      expect((await git.status()).modified).toEqual([]);
+      expect(await git.log(10, `HEAD..${other}`)).toHaveLength(1);
+    });
+
+    it("bundles only commits after the excluded ones", async () => {
+      const base = await git.rev("HEAD");
+      await writeFile(join(tempDir, "next.txt"), "next");
+      await git.add("next.txt");
+      await git.commit("Next");
+      const head = await git.rev("HEAD");
+      expect(await git.countCommits([head], [base])).toBe(1);
+
+      const file = join(tempDir, "..", `${Date.now()}.bundle`);
+      await git.createBundle(file, ["HEAD"], [base]);
+      const other = await mkdtemp(join(tmpdir(), "git-test-"));
+      try {
+        const otherGit = new Git(other);
+        await otherGit.init();
+        await expect(otherGit.unbundle(file)).rejects.toThrow("prerequisite");
+      } finally {
+        await rm(other, { recursive: true, force: true });
+        await rm(file, { force: true });
+      }
+    });
+
     it("creates and switches to new branch", async () => {
       await git.createBranch("feature");
       const branch = await git.currentBranch();
@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm, utimes, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Git } from "../utils/git";
+import { S3 } from "../utils/s3";
+import { S3FS } from "../utils/s3-fs";
+import { Remote } from "../utils/remote";
+import { RemoteLock } from "../utils/lock";
+import { checkHealth, WithRemoteLock } from "../utils/health";
+import { FakeS3 } from "./fake-s3";
+import { makeRepo, commitFile, byLabel } from "./helpers";
+
+describe("checkHealth", () => {
+  const server = new FakeS3("vaults");
+  let fs: S3FS;
+  let remote: Remote;
+  let dir: string;
+  let git: Git;
+
+  const withRemoteLock: WithRemoteLock = async (run) => {
+    const lock = new RemoteLock(fs, { deviceId: "a", deviceName: "A" });
+    await lock.acquire();
+    try {
+      await run(lock);
+    } finally {
+      await lock.release();
+    }
+  };
+
+  const check = async () => byLabel(await checkHealth(remote, dir, withRemoteLock));
+
+  beforeAll(async () => {
+    await server.start();
+    fs = new S3FS(new S3(server.config()), "team/notes");
+    remote = new Remote(fs);
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  beforeEach(async () => {
+    server.reset();
+    dir = await mkdtemp(join(tmpdir(), "health-"));
+    git = await makeRepo(dir);
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  async function push(): Promise<string> {
+    const head = await git.rev("HEAD");
+    await remote.pushRef(join(dir, ".git"), "main", head, await remote.readRef("main"));
+    return head;
+  }
+
+  it("passes for a pushed repository", async () => {
+    await commitFile(git, dir, "note.md", "hello");
+    await push();
+    const results = await check();
+    for (const label of ["Local repository", "Index lock", "Unfinished merge", "Remote HEAD", "Remote refs"]) {
+      expect(results[label]?.status, label).toBe("pass");
+    }
+  });
+
+  it("re-uploads bundles that went missing from the bucket", async () => {
+    await commitFile(git, dir, "note.md", "v1");
+    await push();
+    const { manifest } = await remote.readManifest();
+    server.objects.delete(`team/notes/.git/bundles/${manifest.bundles[0]!.name}`);
+    const head = await commitFile(git, dir, "note.md", "v2");
+    await push();
+
+    const broken = (await check())["Remote refs"];
+    expect(broken).toMatchObject({ status: "fail", detail: "1 bundle missing from the bucket; no objects for main" });
+    await broken!.repair!.run();
+    expect((await check())["Remote refs"]?.status).toBe("pass");
+
+    const clone = await mkdtemp(join(tmpdir(), "health-clone-"));
+    try {
+      await makeRepo(clone);
+      await remote.fetchRefs(join(clone, ".git"), [head]);
+    } finally {
+      await rm(clone, { recursive: true, force: true });
+    }
+  });
+
+  it("can't re-upload a branch this device doesn't have", async () => {
+    await commitFile(git, dir, "note.md", "hello");
+    await push();
+    await fs.writeFile(".git/refs/heads/other", `${"a".repeat(40)}\n`);
+    const results = await check();
+    expect(results["Remote refs"]).toMatchObject({ status: "fail", detail: "no objects for other" });
+    expect(results["Remote refs"]?.repair).toBeUndefined();
+  });
+
+  it("points a dangling remote HEAD at an existing branch", async () => {
+    await commitFile(git, dir, "note.md", "hello");
+    await push();
+    await fs.writeFile(".git/HEAD", "ref: refs/heads/gone\n");
+
+    const head = (await check())["Remote HEAD"];
+    expect(head).toMatchObject({ status: "fail", detail: "Points at gone, which doesn't exist" });
+    await head!.repair!.run();
+    expect(await remote.readHead()).toBe("main");
+  });
+
+  it("restores lost local objects by fetching every bundle again", async () => {
+    await commitFile(git, dir, "note.md", "hello");
+    await push();
+    const blob = await git.rev("HEAD:note.md");
+    await rm(join(dir, ".git", "objects", blob.slice(0, 2), blob.slice(2)));
+
+    const local = (await check())["Local repository"];
+    expect(local?.status).toBe("fail");
+    expect(local?.detail).toContain(blob);
+    await local!.repair!.run();
+    expect((await check())["Local repository"]?.status).toBe("pass");
+  });
+
+  it("clears a stale index.lock and aborts a leftover merge", async () => {
+    const base = await commitFile(git, dir, "note.md", "base");
+    await Git.exec(dir, ["checkout", "-q", "-b", "theirs"]);
+    await commitFile(git, dir, "note.md", "theirs");
+    await Git.exec(dir, ["checkout", "-q", "main"]);
+    await commitFile(git, dir, "note.md", "ours");
+    await expect(Git.exec(dir, ["merge", "theirs"])).rejects.toThrow();
+    const lockFile = join(dir, ".git", "index.lock");
+    await writeFile(lockFile, "");
+    const old = new Date(Date.now() - 10 * 60 * 1000);
+    await utimes(lockFile, old, old);
+
+    let results = await check();
+    expect(results["Index lock"]?.status).toBe("fail");
+    expect(results["Unfinished merge"]?.status).toBe("fail");
+    await results["Index lock"]!.repair!.run();
+    await results["Unfinished merge"]!.repair!.run();
+
+    results = await check();
+    expect(results["Index lock"]?.status).toBe("pass");
+    expect(results["Unfinished merge"]?.status).toBe("pass");
+    expect(await git.rev("HEAD")).not.toBe(base);
+    expect((await git.status()).modified).toEqual([]);
+  });
+});
@@ -0,0 +1,27 @@
+// Fixtures shared by the tests: throwaway git repos and check results keyed by label
+import { writeFile } from "fs/promises";
+import { join } from "path";
+import { Git } from "../utils/git";
+import type { CheckResult } from "../utils/diagnostics";
+
+// Empty repo on `main` with a committer identity
+export async function makeRepo(dir: string): Promise<Git> {
+  const git = new Git(dir);
+  await git.init();
+  await Git.exec(dir, ["symbolic-ref", "HEAD", "refs/heads/main"]);
+  await git.setConfig("user.email", "test@test.com");
+  await git.setConfig("user.name", "Test");
+  return git;
+}
+
+// Write and commit one file; returns the new HEAD
+export async function commitFile(git: Git, dir: string, file: string, content: string): Promise<string> {
+  await writeFile(join(dir, file), content);
+  await git.add(file);
+  await git.commit(`update ${file}`);
+  return git.rev("HEAD");
+}
+
+export function byLabel(results: CheckResult[]): Record<string, CheckResult> {
+  return Object.fromEntries(results.map(r => [r.label, r]));
+}
@@ -0,0 +1,60 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readdir, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { PushJournal } from "../utils/journal";
+
+describe("PushJournal", () => {
+  let gitDir: string;
+
+  beforeEach(async () => {
+    gitDir = await mkdtemp(join(tmpdir(), "journal-test-"));
+  });
+
+  afterEach(async () => {
+    await rm(gitDir, { recursive: true, force: true });
+  });
+
+  it("survives reopening", async () => {
+    const journal = await PushJournal.open(gitDir);
+    await journal.plan(["a", "b"]);
+    await journal.startUpload("a", "upload-1");
+    await journal.planRef("main", "abc", null, null);
+
+    const reopened = await PushJournal.open(gitDir);
+    expect(reopened.ref).toEqual({ branch: "main", oid: "abc" });
+    expect(reopened.uploadId("a")).toBe("upload-1");
+    expect(reopened.isCompleted("a")).toBe(false);
+  });
+
+  it("records concurrent completions", async () => {
+    const journal = await PushJournal.open(gitDir);
+    const keys = Array.from({ length: 20 }, (_, i) => `key-${i}`);
+    await journal.plan(keys);
+    await Promise.all(keys.map(key => journal.complete(key)));
+
+    const reopened = await PushJournal.open(gitDir);
+    expect(keys.every(key => reopened.isCompleted(key))).toBe(true);
+  });
+
+  it("drops the ref update and its local bundle", async () => {
+    const journal = await PushJournal.open(gitDir);
+    const bundle = { name: "x.bundle", tips: { main: "abc" }, size: 1, createdAt: 0 };
+    await journal.startUpload("bundles/x.bundle", "upload-1");
+    await writeFile(journal.bundlePath(bundle.name), "bundle");
+    await journal.planRef("main", "abc", bundle, "bundles/x.bundle");
+    await journal.dropRef("bundles/x.bundle");
+
+    expect(journal.ref).toBeNull();
+    expect(journal.uploadId("bundles/x.bundle")).toBeUndefined();
+    expect(await readdir(journal.dir)).toEqual(["push-journal.json"]);
+  });
+
+  it("removes everything when cleared", async () => {
+    const journal = await PushJournal.open(gitDir);
+    await journal.plan(["a"]);
+    await journal.clear();
+    expect(await readdir(gitDir)).toEqual([]);
+    expect((await PushJournal.open(gitDir)).ref).toBeNull();
+  });
+});
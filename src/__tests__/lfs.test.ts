@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { getGitattributes, isLfsAvailable } from "../utils/lfs";
+import { getGitattributes, isLfsAvailable, parseLfsPointer } from "../utils/lfs";
 
 describe("getGitattributes", () => {
   it("returns LFS attributes when lfsAvailable is true", () => {
@@ -16,6 +16,11 @@ describe("getGitattributes", () => {
     expect(attrs).toContain("*.pdf binary");
     expect(attrs).not.toContain("filter=lfs");
   });
+
+  it("routes markdown notes to the markdown merge driver either way", () => {
+    expect(getGitattributes(true)).toContain("*.md merge=markdown\n");
+    expect(getGitattributes(false)).toContain("*.md merge=markdown\n");
+  });
 });
 
 describe("isLfsAvailable", () => {
@@ -24,3 +29,17 @@ describe("isLfsAvailable", () => {
     expect(typeof result).toBe("boolean");
   });
 });
+
+describe("parseLfsPointer", () => {
+  const oid = "4d7a214614ab2935c943f9e0ff69d22eadbb8f32b1258daaa5e2ca24d17e2393";
+
+  it("reads the OID and size of a pointer file", () => {
+    const pointer = `version https://git-lfs.github.com/spec/v1\noid sha256:${oid}\nsize 12345\n`;
+    expect(parseLfsPointer(Buffer.from(pointer))).toEqual({ oid, size: 12345 });
+  });
+
+  it("ignores other content", () => {
+    expect(parseLfsPointer(Buffer.from("# A note\n"))).toBeNull();
+    expect(parseLfsPointer(Buffer.from([0x89, 0x50, 0x4e, 0x47]))).toBeNull();
+  });
+});
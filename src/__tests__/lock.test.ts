@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from "vitest";
+import { S3 } from "../utils/s3";
+import { S3FS } from "../utils/s3-fs";
+import { RemoteLock, LOCK_PATH } from "../utils/lock";
+import { FakeS3 } from "./fake-s3";
+
+describe("RemoteLock", () => {
+  const server = new FakeS3("locks");
+  let fs: S3FS;
+  const laptop = { deviceId: "laptop", deviceName: "Laptop" };
+  const desktop = { deviceId: "desktop", deviceName: "Desktop" };
+  const lockKey = `vault/${LOCK_PATH}`;
+
+  beforeAll(async () => {
+    await server.start();
+    const s3 = new S3(server.config());
+    fs = new S3FS(s3, "vault");
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  beforeEach(() => {
+    server.reset();
+  });
+
+  it("writes lock next to the repo and removes it on release", async () => {
+    const lock = new RemoteLock(fs, laptop);
+    await lock.acquire();
+    const info = JSON.parse(server.objects.get(lockKey)!.body.toString());
+    expect(info).toMatchObject({ deviceId: "laptop", deviceName: "Laptop" });
+
+    await lock.release();
+    expect(server.objects.has(lockKey)).toBe(false);
+  });
+
+  it("creates the lock with If-None-Match", async () => {
+    const lock = new RemoteLock(fs, laptop);
+    await lock.acquire();
+    const put = server.requests.filter(r => r.method === "PUT" && r.key === lockKey).pop();
+    expect(put?.headers["if-none-match"]).toBe("*");
+    await lock.release();
+  });
+
+  it("rejects a second device while the lease is valid", async () => {
+    const first = new RemoteLock(fs, laptop);
+    await first.acquire();
+    await expect(new RemoteLock(fs, desktop).acquire()).rejects.toThrow("locked by Laptop");
+    await first.release();
+  });
+
+  it("takes over an expired lock", async () => {
+    const stale = { ...laptop, token: "old", acquiredAt: 0, heartbeatAt: 0, expiresAt: Date.now() - 1000 };
+    await fs.writeFile(LOCK_PATH, JSON.stringify(stale));
+
+    const lock = new RemoteLock(fs, desktop);
+    await lock.acquire();
+    expect((await lock.read())?.deviceId).toBe("desktop");
+    await lock.release();
+  });
+
+  it("fails when the lock changes between read and write", async () => {
+    const stale = { ...laptop, token: "old", acquiredAt: 0, heartbeatAt: 0, expiresAt: Date.now() - 1000 };
+    await fs.writeFile(LOCK_PATH, JSON.stringify(stale));
+
+    // Another device replaces the stale lock right after we read it
+    const readFileWithEtag = fs.readFileWithEtag.bind(fs);
+    const spy = vi.spyOn(fs, "readFileWithEtag").mockImplementationOnce(async (path) => {
+      const result = await readFileWithEtag(path);
+      await fs.writeFile(LOCK_PATH, JSON.stringify({ ...stale, token: "other", expiresAt: Date.now() + 60000 }));
+      return result;
+    });
+
+    await expect(new RemoteLock(fs, desktop).acquire()).rejects.toThrow("taken by another device");
+    spy.mockRestore();
+  });
+
+  it("detects a lost race on backends without conditional writes", async () => {
+    server.setConditionalWrites(false);
+    const writeFileConditional = fs.writeFileConditional.bind(fs);
+    const spy = vi.spyOn(fs, "writeFileConditional").mockImplementationOnce(async (path, data, condition) => {
+      const etag = await writeFileConditional(path, data, condition);
+      await fs.writeFile(LOCK_PATH, JSON.stringify({ ...laptop, token: "winner", acquiredAt: 0, heartbeatAt: 0, expiresAt: Date.now() + 60000 }));
+      return etag;
+    });
+
+    await expect(new RemoteLock(fs, desktop).acquire()).rejects.toThrow("taken by another device");
+    spy.mockRestore();
+  });
+
+  it("renews the lease with a heartbeat", async () => {
+    const lock = new RemoteLock(fs, laptop, 300);
+    await lock.acquire();
+    const before = (await lock.read())!.expiresAt;
+    await new Promise(resolve => setTimeout(resolve, 250));
+    expect((await lock.read())!.expiresAt).toBeGreaterThan(before);
+    expect(() => lock.assertHeld()).not.toThrow();
+    await lock.release();
+  });
+
+  it("reports the lock as lost after it is broken", async () => {
+    const lock = new RemoteLock(fs, laptop, 300);
+    await lock.acquire();
+    await new RemoteLock(fs, desktop).break();
+    await new Promise(resolve => setTimeout(resolve, 150));
+    expect(() => lock.assertHeld()).toThrow("lost");
+    await lock.release();
+  });
+
+  it("does not delete a lock owned by someone else on release", async () => {
+    const lock = new RemoteLock(fs, laptop);
+    await lock.acquire();
+    await fs.writeFile(LOCK_PATH, JSON.stringify({ ...desktop, token: "other", acquiredAt: 0, heartbeatAt: 0, expiresAt: Date.now() + 60000 }));
+    await lock.release();
+    expect(server.objects.has(lockKey)).toBe(true);
+  });
+
+  it("does not delete a lock taken over between the check and the delete on release", async () => {
+    const lock = new RemoteLock(fs, laptop);
+    await lock.acquire();
+
+    // Our lease expires and another device takes the lock right after release reads it
+    const readFileWithEtag = fs.readFileWithEtag.bind(fs);
+    const spy = vi.spyOn(fs, "readFileWithEtag").mockImplementationOnce(async (path) => {
+      const result = await readFileWithEtag(path);
+      await fs.writeFile(LOCK_PATH, JSON.stringify({ ...desktop, token: "other", acquiredAt: 0, heartbeatAt: 0, expiresAt: Date.now() + 60000 }));
+      return result;
+    });
+    await lock.release();
+    spy.mockRestore();
+    expect((await lock.read())?.deviceId).toBe("desktop");
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import { splitBlocks, diffBlocks, groupRuns } from "../utils/markdown-diff";
+
+const note = [
+  "---",
+  "tags:",
+  "  - a",
+  "  - b",
+  "status: draft",
+  "---",
+  "# Title",
+  "Intro line one",
+  "line two",
+  "",
+  "- item one",
+  "  - nested",
+  "- item two",
+  "",
+  "| a | b |",
+  "| - | - |",
+  "| 1 | 2 |",
+  "| 3 | 4 |",
+  "",
+  "```js",
+  "# not a heading",
+  "```",
+  "> quoted",
+  "> more",
+].join("\n");
+
+describe("splitBlocks", () => {
+  it("splits properties, headings, list items, table rows and other blocks", () => {
+    expect(splitBlocks(note).map(b => [b.kind, b.key ?? b.text])).toEqual([
+      ["property", "tags"],
+      ["property", "status"],
+      ["heading", "# Title"],
+      ["paragraph", "Intro line one\nline two"],
+      ["list-item", "- item one\n  - nested"],
+      ["list-item", "- item two"],
+      ["table-head", "| a | b |\n| - | - |"],
+      ["table-row", "| 1 | 2 |"],
+      ["table-row", "| 3 | 4 |"],
+      ["code", "```js\n# not a heading\n```"],
+      ["quote", "> quoted\n> more"],
+    ]);
+    expect(splitBlocks(note)[0]?.text).toBe("tags:\n  - a\n  - b");
+  });
+
+  it("ends a paragraph at a heading or list", () => {
+    expect(splitBlocks("text\n## Sub\nmore\n1. first").map(b => b.kind)).toEqual(["paragraph", "heading", "paragraph", "list-item"]);
+  });
+});
+
+describe("diffBlocks and groupRuns", () => {
+  it("marks changed blocks and groups tables, lists and properties", () => {
+    const changed = note
+      .replace("status: draft", "status: done")
+      .replace("- item two", "- item two\n- item three")
+      .replace("| 3 | 4 |", "| 3 | 5 |");
+    const changes = diffBlocks(note, changed);
+    expect(changes.filter(c => c.kind !== "same").map(c => [c.kind, c.block.text])).toEqual([
+      ["del", "status: draft"],
+      ["add", "status: done"],
+      ["add", "- item three"],
+      ["del", "| 3 | 4 |"],
+      ["add", "| 3 | 5 |"],
+    ]);
+
+    const runs = groupRuns(changes);
+    expect(runs.map(r => [r.kind, r.changes.length])).toEqual([
+      ["properties", 3],
+      ["blocks", 2],
+      ["list", 3],
+      ["table", 4],
+      ["blocks", 2],
+    ]);
+  });
+
+  it("treats a missing version as empty", () => {
+    expect(groupRuns(diffBlocks("", "# New\n\ntext"))).toEqual([
+      { kind: "blocks", changes: [{ kind: "add", block: { kind: "heading", text: "# New" } }] },
+      { kind: "blocks", changes: [{ kind: "add", block: { kind: "paragraph", text: "text" } }] },
+    ]);
+  });
+});
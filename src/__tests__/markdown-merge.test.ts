@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import { mergeMarkdown } from "../utils/markdown-merge";
+import { mergedText } from "../utils/merge";
+
+const merge = (base: string, ours: string, theirs: string) => {
+  const chunks = mergeMarkdown(base, ours, theirs);
+  return { text: mergedText(chunks, []), conflicts: chunks.filter(c => c.kind === "conflict").length };
+};
+
+describe("mergeMarkdown frontmatter", () => {
+  const base = "---\ntags: [daily]\naliases:\n  - Today\nupdated: 2024-03-01 09:00\n---\nBody\n";
+
+  it("unions lists and keeps the newest date", () => {
+    const ours = "---\ntags: [daily, work]\naliases:\n  - Today\nupdated: 2024-03-01 10:30\n---\nBody\n";
+    const theirs = "---\ntags: [daily, health]\naliases:\n  - Today\n  - Now\nupdated: 2024-03-01 12:00\n---\nBody\n";
+    expect(merge(base, ours, theirs)).toEqual({
+      text: "---\ntags: [daily, work, health]\naliases:\n  - Today\n  - Now\nupdated: 2024-03-01 12:00\n---\nBody\n",
+      conflicts: 0,
+    });
+  });
+
+  it("drops list items removed on one side", () => {
+    const ours = "---\ntags: [work]\naliases:\n  - Today\nupdated: 2024-03-01 09:00\n---\nBody\n";
+    const theirs = "---\ntags: [daily, health]\naliases:\n  - Today\nupdated: 2024-03-01 09:00\n---\nBody\n";
+    expect(merge(base, ours, theirs).text).toContain("tags: [work, health]\n");
+  });
+
+  it("keeps keys added on either side and conflicts on other values changed on both", () => {
+    const ours = "---\ntags: [daily]\naliases:\n  - Today\nupdated: 2024-03-01 09:00\nstatus: done\nmood: good\n---\nBody\n";
+    const theirs = "---\ntags: [daily]\naliases:\n  - Today\nupdated: 2024-03-01 09:00\nstatus: open\n---\nBody\n";
+    const chunks = mergeMarkdown(base, ours, theirs);
+    expect(chunks.filter(c => c.kind === "conflict")).toEqual([
+      { kind: "conflict", base: [], ours: ["status: done"], theirs: ["status: open"] },
+    ]);
+    expect(mergedText(chunks, ["ours"])).toContain("status: done\nmood: good\n---");
+  });
+});
+
+describe("mergeMarkdown sections", () => {
+  const base = "# 2024-03-01\n\n## Morning\nCoffee\n\n## Tasks\n- [ ] Write\n";
+
+  it("merges sections appended or edited on different sides", () => {
+    const ours = "# 2024-03-01\n\n## Morning\nCoffee\nWalk\n\n## Tasks\n- [ ] Write\n\n## Evening\nRead\n";
+    const theirs = "# 2024-03-01\n\n## Morning\nCoffee\n\n## Tasks\n- [x] Write\n\n## Notes\nCall back\n";
+    expect(merge(base, ours, theirs)).toEqual({
+      text: "# 2024-03-01\n\n## Morning\nCoffee\nWalk\n\n## Tasks\n- [x] Write\n\n## Evening\nRead\n\n## Notes\nCall back\n",
+      conflicts: 0,
+    });
+  });
+
+  it("conflicts only within a section changed on both sides", () => {
+    const ours = "# 2024-03-01\n\n## Morning\nTea\n\n## Tasks\n- [ ] Write\n- [ ] Run\n";
+    const theirs = "# 2024-03-01\n\n## Morning\nJuice\n\n## Tasks\n- [ ] Write\n";
+    const chunks = mergeMarkdown(base, ours, theirs);
+    expect(chunks.filter(c => c.kind === "conflict")).toEqual([
+      { kind: "conflict", base: ["Coffee"], ours: ["Tea"], theirs: ["Juice"] },
+    ]);
+    expect(mergedText(chunks, ["theirs"])).toBe("# 2024-03-01\n\n## Morning\nJuice\n\n## Tasks\n- [ ] Write\n- [ ] Run\n");
+  });
+
+  it("shares the heading of a section added on both sides", () => {
+    const chunks = mergeMarkdown("Intro\n", "Intro\n\n## Log\nlocal\n", "Intro\n\n## Log\nremote\n");
+    expect(mergedText(chunks, ["both"])).toBe("Intro\n\n## Log\nlocal\nremote\n");
+  });
+
+  it("falls back to a line merge when the frontmatter isn't plain keys", () => {
+    const base = "---\n# comment\ntags: [a]\n---\ntext\n";
+    expect(merge(base, base.replace("[a]", "[a, b]"), base.replace("[a]", "[a, c]")).conflicts).toBe(1);
+  });
+
+  it("keeps CRLF line endings in the lines it adds", () => {
+    const crlf = (text: string) => text.replace(/\n/g, "\r\n");
+    const result = merge(crlf(base), crlf(base + "\n## Evening\nRead\n"), crlf(base.replace("Coffee", "Tea")));
+    expect(result).toEqual({ text: crlf("# 2024-03-01\n\n## Morning\nTea\n\n## Tasks\n- [ ] Write\n\n## Evening\nRead\n"), conflicts: 0 });
+  });
+
+  it("takes the local line endings when the remote note's differ", () => {
+    const crlf = (text: string) => text.replace(/\n/g, "\r\n");
+    const result = merge(base, base + "\n## Evening\nRead\n", crlf(base.replace("Coffee", "Tea")));
+    expect(result).toEqual({ text: "# 2024-03-01\n\n## Morning\nTea\n\n## Tasks\n- [ ] Write\n\n## Evening\nRead\n", conflicts: 0 });
+  });
+
+  it("ends conflict markers with CRLF in CRLF notes", () => {
+    const crlf = (text: string) => text.replace(/\n/g, "\r\n");
+    const result = merge(crlf(base), crlf(base.replace("Coffee", "Tea")), crlf(base.replace("Coffee", "Juice")));
+    expect(result).toEqual({
+      text: crlf("# 2024-03-01\n\n## Morning\n<<<<<<< local\nTea\n=======\nJuice\n>>>>>>> remote\n\n## Tasks\n- [ ] Write\n"),
+      conflicts: 1,
+    });
+  });
+
+  it("ends conflict markers with CRLF when the conflict ends the note", () => {
+    const crlf = (text: string) => text.replace(/\n/g, "\r\n");
+    const note = "# Log\n\n## Today\nstart";
+    const result = merge(crlf(note), crlf(note.replace("start", "local")), crlf(note.replace("start", "remote")));
+    expect(result.text).toBe(crlf("# Log\n\n## Today\n<<<<<<< local\nlocal\n=======\nremote\n") + ">>>>>>> remote");
+  });
+});
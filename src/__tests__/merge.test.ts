@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { mergeChunks, mergedText, hasConflictMarkers } from "../utils/merge";
+
+const base = "title\none\ntwo\nthree\nfour\nend\n";
+
+describe("mergeChunks", () => {
+  it("merges changes on different lines without conflicts", () => {
+    const chunks = mergeChunks(base, "title\nONE\ntwo\nthree\nfour\nend\n", "title\none\ntwo\nthree\nFOUR\nend\nextra\n");
+    expect(chunks.map(c => c.kind)).toEqual(["same", "ours", "same", "theirs", "same", "theirs", "same"]);
+    expect(mergedText(chunks, [])).toBe("title\nONE\ntwo\nthree\nFOUR\nend\nextra\n");
+  });
+
+  it("reports lines changed differently on both sides as a conflict", () => {
+    const chunks = mergeChunks(base, "title\none\n2 (local)\nthree\nfour\nend\n", "title\none\n2 (remote)\nthree\nfour\nend\n");
+    expect(chunks).toEqual([
+      { kind: "same", lines: ["title", "one"] },
+      { kind: "conflict", base: ["two"], ours: ["2 (local)"], theirs: ["2 (remote)"] },
+      { kind: "same", lines: ["three", "four", "end", ""] },
+    ]);
+  });
+
+  it("takes the same change made on both sides once", () => {
+    const both = "title\none\ntwo\nthree\nfour\nend\nsame addition\n";
+    expect(mergeChunks(base, both, both).map(c => c.kind)).toEqual(["same"]);
+  });
+});
+
+describe("mergedText", () => {
+  const chunks = mergeChunks("a\nb\nc\nd\ne", "a\nB1\nc\nd\nE1", "a\nB2\nc\nd\nE2");
+
+  it("resolves each conflict independently", () => {
+    expect(mergedText(chunks, ["ours", "theirs"])).toBe("a\nB1\nc\nd\nE2");
+    expect(mergedText(chunks, ["both", "base"])).toBe("a\nB1\nB2\nc\nd\ne");
+  });
+
+  it("keeps markers for conflicts without a choice", () => {
+    const text = mergedText(chunks, ["ours"]);
+    expect(text).toBe("a\nB1\nc\nd\n<<<<<<< local\nE1\n=======\nE2\n>>>>>>> remote");
+    expect(hasConflictMarkers(text)).toBe(true);
+    expect(hasConflictMarkers(mergedText(chunks, ["ours", "ours"]))).toBe(false);
+  });
+});
+
+describe("mergeChunks on large files", () => {
+  const lines = Array.from({ length: 20_000 }, (_, i) => `line ${i}`);
+  const edit = (at: number[], text: string) => lines.map((l, i) => at.includes(i) ? text : l).join("\n");
+
+  it("merges edits far apart without comparing every line", () => {
+    const chunks = mergeChunks(lines.join("\n"), edit([10], "local"), edit([19_990], "remote"));
+    expect(chunks.map(c => c.kind)).toEqual(["same", "ours", "same", "theirs", "same"]);
+  });
+
+  it("replaces a middle too large to compare as a whole", () => {
+    const chunks = mergeChunks(lines.join("\n"), edit([10, 19_990], "local"), edit([5_000], "remote"));
+    expect(chunks.filter(c => c.kind === "conflict")).toHaveLength(1);
+    expect(mergedText(chunks, ["ours"])).toBe(edit([10, 19_990], "local"));
+  });
+});
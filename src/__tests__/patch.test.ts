@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm, writeFile, readFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Git } from "../utils/git";
+import { parsePatch, selectHunks } from "../utils/patch";
+
+const lines = (n: number, change: (i: number) => string | null = i => `line ${i}`) =>
+  Array.from({ length: n }, (_, i) => change(i + 1)).filter(l => l !== null).join("\n") + "\n";
+
+describe("parsePatch and selectHunks", () => {
+  const diff = [
+    "diff --git a/a.md b/a.md",
+    "index 1111111..2222222 100644",
+    "--- a/a.md",
+    "+++ b/a.md",
+    "@@ -1,3 +1,4 @@",
+    " one",
+    "+inserted",
+    " two",
+    " three",
+    "@@ -20,3 +21,2 @@ ## Section",
+    " twenty",
+    "-removed",
+    " end",
+    "diff --git a/b.md b/b.md",
+    "deleted file mode 100644",
+    "--- a/b.md",
+    "+++ /dev/null",
+    "@@ -1 +0,0 @@",
+    "-gone",
+    "",
+  ].join("\n");
+
+  it("splits files into header and hunks", () => {
+    const files = parsePatch(diff);
+    expect(files.map(f => [f.path, f.header.length, f.hunks.length])).toEqual([["a.md", 4, 2], ["b.md", 4, 1]]);
+    expect(files[1]?.hunks[0]).toEqual(["@@ -1 +0,0 @@", "-gone"]);
+  });
+
+  it("shifts later hunks by what the selected ones before them change", () => {
+    const [file] = parsePatch(diff);
+    expect(selectHunks(file!, [false, true]).split("\n")).toContain("@@ -20,3 +20,2 @@ ## Section");
+    expect(selectHunks(file!, [true, true]).split("\n")).toContain("@@ -20,3 +21,2 @@ ## Section");
+    expect(selectHunks(file!, [true, false])).not.toContain("removed");
+  });
+});
+
+describe("staging selected hunks", () => {
+  let tempDir: string;
+  let git: Git;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "patch-test-"));
+    git = new Git(tempDir);
+    await git.init();
+    await git.setConfig("user.email", "test@test.com");
+    await git.setConfig("user.name", "Test");
+    await writeFile(join(tempDir, "note.md"), lines(30));
+    await git.addAll();
+    await git.commit("Initial");
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("commits only the selected hunk and leaves the rest in the working tree", async () => {
+    const edited = lines(30, i => i === 2 ? "changed 2" : i === 25 ? null : `line ${i}`);
+    await writeFile(join(tempDir, "note.md"), edited);
+    const [file] = parsePatch(await git.diffHead());
+    expect(file?.hunks).toHaveLength(2);
+
+    await git.applyCached(selectHunks(file!, [false, true]));
+    await git.commit("Remove line 25");
+
+    expect((await git.readFileAt("HEAD", "note.md")).toString()).toBe(lines(30, i => i === 25 ? null : `line ${i}`));
+    expect(await readFile(join(tempDir, "note.md"), "utf8")).toBe(edited);
+    expect((await git.status()).modified).toEqual(["note.md"]);
+  });
+
+  it("unstages everything without touching the working tree", async () => {
+    await writeFile(join(tempDir, "note.md"), "rewritten\n");
+    await git.addAll();
+    await git.unstageAll();
+    expect((await git.status()).staged).toEqual([]);
+    expect(await readFile(join(tempDir, "note.md"), "utf8")).toBe("rewritten\n");
+  });
+});
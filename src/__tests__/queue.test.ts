@@ -0,0 +1,63 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { OperationQueue, QueuedOperation } from "../utils/queue";
+
+describe("OperationQueue", () => {
+  let saved: QueuedOperation[];
+  let queue: OperationQueue;
+
+  beforeEach(() => {
+    saved = [];
+    queue = new OperationQueue([], async (operations) => { saved = operations; });
+  });
+
+  it("persists failed operations", async () => {
+    await queue.fail("push", "offline");
+    expect(saved).toHaveLength(1);
+    expect(saved[0]).toMatchObject({ kind: "push", attempts: 1, lastError: "offline" });
+  });
+
+  it("bumps attempts when the same kind fails again", async () => {
+    const first = await queue.fail("push", "offline");
+    await queue.fail("push", "timeout");
+    await queue.fail("pull", "offline");
+    expect(queue.size).toBe(2);
+    expect(saved[0]).toMatchObject({ id: first.id, attempts: 2, lastError: "timeout", createdAt: first.createdAt });
+  });
+
+  it("restores operations loaded from plugin data", () => {
+    const op: QueuedOperation = { id: "a", kind: "sync", createdAt: 1, attempts: 3, lastAttemptAt: 2, lastError: "x" };
+    expect(new OperationQueue([op], async () => {}).list()).toEqual([op]);
+  });
+
+  it("removes operations", async () => {
+    const op = await queue.fail("push", "offline");
+    await queue.remove(op.id);
+    expect(queue.size).toBe(0);
+    expect(saved).toEqual([]);
+  });
+
+  it("drains oldest first and removes operations that succeed", async () => {
+    await queue.fail("push", "offline");
+    await queue.fail("pull", "offline");
+    const ran: string[] = [];
+    expect(await queue.drain(async (op) => { ran.push(op.kind); return null; })).toBe(true);
+    expect(ran).toEqual(["push", "pull"]);
+    expect(saved).toEqual([]);
+  });
+
+  it("stops draining at the first failure", async () => {
+    await queue.fail("push", "offline");
+    await queue.fail("pull", "offline");
+    const ran: string[] = [];
+    expect(await queue.drain(async (op) => { ran.push(op.kind); return "still offline"; })).toBe(false);
+    expect(ran).toEqual(["push"]);
+    expect(saved.map(op => [op.kind, op.attempts, op.lastError])).toEqual([["push", 2, "still offline"], ["pull", 1, "offline"]]);
+  });
+
+  it("drains only the requested operations", async () => {
+    await queue.fail("push", "offline");
+    const pull = await queue.fail("pull", "offline");
+    expect(await queue.drain(async () => null, [pull.id])).toBe(true);
+    expect(saved.map(op => op.kind)).toEqual(["push"]);
+  });
+});
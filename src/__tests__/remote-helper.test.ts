@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Git } from "../utils/git";
+import { S3 } from "../utils/s3";
+import { S3FS } from "../utils/s3-fs";
+import { Remote } from "../utils/remote";
+import { RemoteHelper, parseRemoteUrl, resolveHelperConfig } from "../utils/remote-helper";
+import { FakeS3 } from "./fake-s3";
+import { makeRepo, commitFile } from "./helpers";
+
+describe("parseRemoteUrl", () => {
+  it("splits bucket and remote path", () => {
+    expect(parseRemoteUrl("s3vault://vaults/team/notes/")).toEqual({ bucket: "vaults", remotePath: "team/notes" });
+    expect(parseRemoteUrl("s3vault://vaults")).toEqual({ bucket: "vaults", remotePath: "" });
+  });
+
+  it("rejects other schemes", () => {
+    expect(() => parseRemoteUrl("s3://vaults/notes")).toThrow("Invalid remote URL");
+  });
+});
+
+describe("resolveHelperConfig", () => {
+  const url = { bucket: "vaults", remotePath: "notes" };
+
+  it("prefers environment variables over git config", async () => {
+    const config = await resolveHelperConfig(url, { AWS_ACCESS_KEY_ID: "env-key", AWS_SECRET_ACCESS_KEY: "secret" },
+      async key => key === "s3vault.accessKeyId" ? "config-key" : null);
+    expect(config).toMatchObject({ accessKeyId: "env-key", bucket: "vaults", provider: "aws", region: "us-east-1" });
+  });
+
+  it("fills provider defaults from git config", async () => {
+    const values: Record<string, string> = {
+      "s3vault.accessKeyId": "key",
+      "s3vault.secretAccessKey": "secret",
+      "s3vault.provider": "minio",
+    };
+    const config = await resolveHelperConfig(url, {}, async key => values[key] ?? null);
+    expect(config).toMatchObject({ endpoint: "http://localhost:9000", forcePathStyle: true });
+  });
+
+  it("reads server-side encryption settings", async () => {
+    const env = { AWS_ACCESS_KEY_ID: "key", AWS_SECRET_ACCESS_KEY: "secret", S3VAULT_SSE: "sse-kms", S3VAULT_SSE_KMS_KEY_ID: "alias/vaults" };
+    const config = await resolveHelperConfig(url, env, async () => null);
+    expect(config.serverSideEncryption).toEqual({ mode: "sse-kms", kmsKeyId: "alias/vaults", customerKey: "" });
+    await expect(resolveHelperConfig(url, { ...env, S3VAULT_SSE: "aes" }, async () => null)).rejects.toThrow("Unknown server-side encryption");
+  });
+
+  it("picks the credentials mode from the settings given", async () => {
+    const resolve = (env: Record<string, string>) => resolveHelperConfig(url, env, async () => null);
+    expect((await resolve({ AWS_PROFILE: "vault" })).credentials).toMatchObject({ mode: "profile", profile: "vault" });
+    expect((await resolve({ AWS_ACCESS_KEY_ID: "k", AWS_SECRET_ACCESS_KEY: "s", AWS_SESSION_TOKEN: "t" })).credentials.mode).toBe("session");
+    expect((await resolve({ AWS_ROLE_ARN: "arn:aws:iam::1:role/r", AWS_PROFILE: "ci", S3VAULT_EXTERNAL_ID: "x" })).credentials)
+      .toMatchObject({ mode: "assume-role", externalId: "x" });
+    expect((await resolve({ S3VAULT_CREDENTIALS: "process", S3VAULT_CREDENTIAL_PROCESS: "vault-creds" })).credentials.mode).toBe("process");
+  });
+
+  it("requires credentials", async () => {
+    await expect(resolveHelperConfig(url, {}, async () => null)).rejects.toThrow("Missing credentials");
+  });
+});
+
+describe("RemoteHelper", () => {
+  const server = new FakeS3("vaults");
+  let fs: S3FS;
+  let remote: Remote;
+  let dirA: string;
+  let dirB: string;
+  let gitA: Git;
+  let gitB: Git;
+
+  beforeAll(async () => {
+    await server.start();
+    fs = new S3FS(new S3(server.config()), "team/notes");
+    remote = new Remote(fs);
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  beforeEach(async () => {
+    server.reset();
+    dirA = await mkdtemp(join(tmpdir(), "helper-a-"));
+    dirB = await mkdtemp(join(tmpdir(), "helper-b-"));
+    gitA = await makeRepo(dirA);
+    gitB = await makeRepo(dirB);
+  });
+
+  afterEach(async () => {
+    await rm(dirA, { recursive: true, force: true });
+    await rm(dirB, { recursive: true, force: true });
+  });
+
+  // Feed protocol lines to a helper for `dir` and collect everything it writes
+  async function session(dir: string, lines: string[]): Promise<string> {
+    let out = "";
+    await new RemoteHelper(fs, join(dir, ".git")).run((async function* () { yield* lines; })(), s => (out += s));
+    return out;
+  }
+
+  it("advertises its capabilities", async () => {
+    expect(await session(dirA, ["capabilities", ""])).toBe("fetch\npush\noption\n\n");
+  });
+
+  it("pushes a branch the plugin can read", async () => {
+    const head = await commitFile(gitA, dirA, "note.md", "hello");
+    const out = await session(dirA, ["push refs/heads/main:refs/heads/main", "", ""]);
+    expect(out).toBe("ok refs/heads/main\n\n");
+
+    const ref = await remote.readRef("main");
+    expect(ref?.oid).toBe(head);
+    expect(await remote.readHead()).toBe("main");
+    await remote.fetchRefs(join(dirB, ".git"), [head]);
+    expect(await gitB.missingObjects([head])).toEqual([]);
+  });
+
+  it("lists and fetches what the plugin pushed", async () => {
+    const head = await commitFile(gitA, dirA, "note.md", "hello");
+    await remote.pushRef(join(dirA, ".git"), "main", head, null);
+
+    expect(await session(dirB, ["list", ""])).toBe(`${head} refs/heads/main\n@refs/heads/main HEAD\n\n`);
+    expect(await session(dirB, [`fetch ${head} refs/heads/main`, "", ""])).toBe("\n");
+    expect(await gitB.missingObjects([head])).toEqual([]);
+  });
+
+  it("rejects a non-fast-forward push unless forced", async () => {
+    await commitFile(gitA, dirA, "note.md", "remote");
+    await session(dirA, ["push refs/heads/main:refs/heads/main", ""]);
+    await session(dirB, [`fetch ${await gitA.rev("HEAD")} refs/heads/main`, ""]);
+    const local = await commitFile(gitB, dirB, "note.md", "diverged");
+
+    expect(await session(dirB, ["push refs/heads/main:refs/heads/main", ""])).toBe("error refs/heads/main non-fast-forward\n\n");
+    expect(await session(dirB, ["push +refs/heads/main:refs/heads/main", ""])).toBe("ok refs/heads/main\n\n");
+    expect((await remote.readRef("main"))?.oid).toBe(local);
+  });
+
+  it("asks to fetch first when the remote has unknown commits", async () => {
+    await commitFile(gitA, dirA, "note.md", "a");
+    await session(dirA, ["push refs/heads/main:refs/heads/main", ""]);
+    await commitFile(gitB, dirB, "note.md", "b");
+
+    expect(await session(dirB, ["push refs/heads/main:refs/heads/main", ""])).toBe("error refs/heads/main fetch first\n\n");
+  });
+
+  it("releases the remote lock after pushing", async () => {
+    await commitFile(gitA, dirA, "note.md", "hello");
+    await session(dirA, ["push refs/heads/main:refs/heads/main", ""]);
+    expect(server.objects.has("team/notes/.sync/lock.json")).toBe(false);
+    expect(server.requests.some(r => r.method === "PUT" && r.key === "team/notes/.sync/lock.json")).toBe(true);
+  });
+});
@@ -0,0 +1,217 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readdir, readFile, rm, writeFile } from "fs/promises";
+import { randomBytes } from "crypto";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Git } from "../utils/git";
+import { S3 } from "../utils/s3";
+import { S3FS } from "../utils/s3-fs";
+import { Remote } from "../utils/remote";
+import { RemoteLock } from "../utils/lock";
+import { FakeS3 } from "./fake-s3";
+import { makeRepo, commitFile } from "./helpers";
+
+describe("Remote", () => {
+  const server = new FakeS3("vaults");
+  let remote: Remote;
+  let dirA: string;
+  let dirB: string;
+  let gitA: Git;
+  let gitB: Git;
+
+  beforeAll(async () => {
+    await server.start();
+    remote = new Remote(new S3FS(new S3(server.config()), "team/notes"));
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  beforeEach(async () => {
+    server.reset();
+    dirA = await mkdtemp(join(tmpdir(), "remote-a-"));
+    dirB = await mkdtemp(join(tmpdir(), "remote-b-"));
+    gitA = await makeRepo(dirA);
+    gitB = await makeRepo(dirB);
+  });
+
+  afterEach(async () => {
+    await rm(dirA, { recursive: true, force: true });
+    await rm(dirB, { recursive: true, force: true });
+  });
+
+  async function pushA(): Promise<string> {
+    const head = await gitA.rev("HEAD");
+    const expected = await remote.readRef("main");
+    expect(await remote.pushRef(join(dirA, ".git"), "main", head, expected)).toBe(true);
+    return head;
+  }
+
+  it("uploads a bundle and manifest before updating the ref", async () => {
+    const head = await commitFile(gitA, dirA, "note.md", "hello");
+    await pushA();
+
+    const puts = server.requests.filter(r => r.method === "PUT").map(r => r.key);
+    expect(puts.slice(0, 2)).toEqual([
+      expect.stringMatching(/^team\/notes\/\.git\/bundles\/[0-9a-f]{64}\.bundle$/),
+      "team/notes/.git/bundles/manifest.json",
+    ]);
+    expect(puts[2]).toBe("team/notes/.git/refs/heads/main");
+    expect((await remote.readRef("main"))?.oid).toBe(head);
+    expect(await remote.readHead()).toBe("main");
+  });
+
+  it("never uploads local-only repository files", async () => {
+    await commitFile(gitA, dirA, "note.md", "hello");
+    await pushA();
+
+    const keys = [...server.objects.keys()];
+    for (const local of ["index", "config", "ORIG_HEAD", "FETCH_HEAD", "logs/", "hooks/", "objects/"]) {
+      expect(keys.some(k => k.startsWith(`team/notes/.git/${local}`))).toBe(false);
+    }
+  });
+
+  it("fetches remote objects into another repo", async () => {
+    const head = await commitFile(gitA, dirA, "note.md", "hello");
+    await pushA();
+
+    await remote.fetchRefs(join(dirB, ".git"), [head]);
+    await gitB.resetHard(head);
+    expect(await gitB.log(1)).toMatchObject([{ oid: head }]);
+  });
+
+  it("uploads one thin bundle per push", async () => {
+    await commitFile(gitA, dirA, "a.md", randomBytes(4096).toString("hex"));
+    await pushA();
+    await commitFile(gitA, dirA, "b.md", "b");
+    await pushA();
+
+    const { manifest } = await remote.readManifest();
+    expect(manifest.bundles).toHaveLength(2);
+    expect(manifest.bundles[1]!.size).toBeLessThan(manifest.bundles[0]!.size);
+  });
+
+  it("only downloads bundles newer than the local history", async () => {
+    await commitFile(gitA, dirA, "a.md", "a");
+    await pushA();
+    await remote.fetchRefs(join(dirB, ".git"), [await gitA.rev("HEAD")]);
+
+    const head = await commitFile(gitA, dirA, "b.md", "b");
+    await pushA();
+    server.requests.length = 0;
+    await remote.fetchRefs(join(dirB, ".git"), [head]);
+
+    const gets = server.requests.filter(r => r.method === "GET" && r.key.endsWith(".bundle"));
+    expect(gets).toHaveLength(1);
+    expect(gets[0]!.key).toContain((await remote.readManifest()).manifest.bundles[1]!.name);
+    expect(await gitB.missingObjects([head])).toEqual([]);
+  });
+
+  it("skips the bundle when the remote already has every commit", async () => {
+    const head = await commitFile(gitA, dirA, "note.md", "hello");
+    await pushA();
+    expect(await remote.pushRef(join(dirA, ".git"), "copy", head, null)).toBe(true);
+
+    expect((await remote.readManifest()).manifest.bundles).toHaveLength(1);
+    expect((await remote.readRef("copy"))?.oid).toBe(head);
+  });
+
+  it("resumes an interrupted push from the journal without re-uploading the bundle", async () => {
+    const head = await commitFile(gitA, dirA, "note.md", "hello");
+    // A lock that was never taken fails the check right after the bundle upload
+    const lock = new RemoteLock(new S3FS(new S3(server.config()), "team/notes"), { deviceId: "a", deviceName: "A" });
+    await expect(remote.pushRef(join(dirA, ".git"), "main", head, null, lock)).rejects.toThrow("lock not held");
+    const journal = JSON.parse(await readFile(join(dirA, ".git", "remote-vault-sync", "push-journal.json"), "utf8"));
+    expect(journal).toMatchObject({ ref: { branch: "main", oid: head }, completed: [expect.stringMatching(/\.bundle$/)] });
+
+    server.requests.length = 0;
+    await pushA();
+    expect(server.requests.filter(r => r.method === "PUT" && r.key.endsWith(".bundle"))).toHaveLength(0);
+    expect((await remote.readManifest()).manifest.bundles.map(b => b.tips)).toEqual([{ main: head }]);
+    expect((await remote.readRef("main"))?.oid).toBe(head);
+    await expect(readdir(join(dirA, ".git", "remote-vault-sync"))).rejects.toThrow();
+  });
+
+  it("discards the bundle of an interrupted push of an older commit", async () => {
+    const first = await commitFile(gitA, dirA, "note.md", "one");
+    const lock = new RemoteLock(new S3FS(new S3(server.config()), "team/notes"), { deviceId: "a", deviceName: "A" });
+    await expect(remote.pushRef(join(dirA, ".git"), "main", first, null, lock)).rejects.toThrow("lock not held");
+    const stale = [...server.objects.keys()].find(k => k.endsWith(".bundle"));
+
+    const head = await commitFile(gitA, dirA, "note.md", "two");
+    await pushA();
+    expect(server.objects.has(stale!)).toBe(false);
+    expect((await remote.readManifest()).manifest.bundles.map(b => b.tips)).toEqual([{ main: head }]);
+    await remote.fetchRefs(join(dirB, ".git"), [head]);
+    expect(await gitB.missingObjects([first, head])).toEqual([]);
+  });
+
+  it("rejects a ref update when the remote moved", async () => {
+    await commitFile(gitA, dirA, "note.md", "one");
+    await pushA();
+    const stale = await remote.readRef("main");
+
+    const second = await commitFile(gitA, dirA, "note.md", "two");
+    await pushA();
+
+    const third = await commitFile(gitA, dirA, "note.md", "three");
+    expect(await remote.updateRef("main", third, stale)).toBe(false);
+    expect((await remote.readRef("main"))?.oid).toBe(second);
+  });
+
+  it("rejects creating a ref that already exists", async () => {
+    const head = await commitFile(gitA, dirA, "note.md", "one");
+    await pushA();
+    expect(await remote.updateRef("main", head, null)).toBe(false);
+  });
+
+  it("reads refs from legacy packed-refs", async () => {
+    const fs = new S3FS(new S3(server.config()), "team/notes");
+    await fs.writeFile(".git/packed-refs", "# pack-refs with: peeled\nabc123 refs/heads/main\n");
+    expect(await remote.readRef("main")).toEqual({ oid: "abc123", etag: null });
+  });
+
+  it("fetches loose objects and packs from remotes without bundles", async () => {
+    await commitFile(gitA, dirA, "a.md", "a");
+    await Git.exec(dirA, ["gc", "--quiet"]);
+    const head = await commitFile(gitA, dirA, "b.md", "b");
+
+    // Layout written by earlier versions: a copy of .git/objects
+    const fs = new S3FS(new S3(server.config()), "team/notes");
+    for (const dir of await readdir(join(dirA, ".git", "objects"))) {
+      if (dir === "info") continue;
+      for (const file of await readdir(join(dirA, ".git", "objects", dir))) {
+        await fs.writeFile(`.git/objects/${dir}/${file}`, await readFile(join(dirA, ".git", "objects", dir, file)));
+      }
+    }
+
+    await remote.fetchRefs(join(dirB, ".git"), [head]);
+    expect(await gitB.missingObjects([head])).toEqual([]);
+  });
+
+  it("consolidates bundles into one after many pushes", async () => {
+    const lock = new RemoteLock(new S3FS(new S3(server.config()), "team/notes"), { deviceId: "a", deviceName: "A" });
+    await lock.acquire();
+    try {
+      for (let i = 0; i < 3; i++) {
+        const head = await commitFile(gitA, dirA, "note.md", `v${i}`);
+        await remote.pushRef(join(dirA, ".git"), "main", head, await remote.readRef("main"));
+      }
+      const before = (await remote.readManifest()).manifest.bundles.map(b => b.name);
+      await remote.consolidate(join(dirA, ".git"), lock);
+
+      const { manifest } = await remote.readManifest();
+      expect(manifest.bundles).toHaveLength(1);
+      expect(manifest.retired.map(r => r.name)).toEqual(before);
+      // Retired bundles stay readable for clients holding the old manifest
+      expect(before.every(name => server.objects.has(`team/notes/.git/bundles/${name}`))).toBe(true);
+
+      await remote.fetchRefs(join(dirB, ".git"), [await gitA.rev("HEAD")]);
+      expect(server.requests.filter(r => r.method === "GET" && r.key.endsWith(".bundle")).pop()?.key)
+        .toContain(manifest.bundles[0]!.name);
+    } finally {
+      await lock.release();
+    }
+  });
+});
@@ -2,6 +2,7 @@ import { describe, it, expect, beforeEach, vi } from "vitest";
 import { S3FS } from "../utils/s3-fs";
 
 const mockS3 = {
+  bucket: "bucket",
   get: vi.fn(),
   put: vi.fn(),
   delete: vi.fn(),
@@ -41,20 +42,27 @@ describe("S3FS", () => {
       mockS3.put.mockResolvedValueOnce(undefined);
       const content = Buffer.from("test");
       await s3fs.writeFile("file.txt", content);
-      expect(mockS3.put).toHaveBeenCalledWith("prefix/file.txt", content, undefined, undefined);
+      expect(mockS3.put).toHaveBeenCalledWith("prefix/file.txt", content, undefined, undefined, undefined);
     });
 
     it("writes string", async () => {
       mockS3.put.mockResolvedValueOnce(undefined);
       await s3fs.writeFile("file.txt", "string");
-      expect(mockS3.put).toHaveBeenCalledWith("prefix/file.txt", "string", undefined, undefined);
+      expect(mockS3.put).toHaveBeenCalledWith("prefix/file.txt", "string", undefined, undefined, undefined);
     });
 
     it("passes onProgress and size to s3.put", async () => {
       mockS3.put.mockResolvedValueOnce(undefined);
       const onProgress = vi.fn();
       await s3fs.writeFile("file.txt", "data", onProgress, 100);
-      expect(mockS3.put).toHaveBeenCalledWith("prefix/file.txt", "data", onProgress, 100);
+      expect(mockS3.put).toHaveBeenCalledWith("prefix/file.txt", "data", onProgress, 100, undefined);
+    });
+
+    it("passes multipart resume state to s3.put", async () => {
+      mockS3.put.mockResolvedValueOnce(undefined);
+      const resume = { uploadId: "upload-1" };
+      await s3fs.writeFile("file.txt", "data", undefined, 4, resume);
+      expect(mockS3.put).toHaveBeenCalledWith("prefix/file.txt", "data", undefined, 4, resume);
     });
   });
 
@@ -127,6 +135,48 @@ describe("S3FS", () => {
     });
   });
 
+  describe("url", () => {
+    it("builds s3:// URI including the prefix", () => {
+      expect(s3fs.url(".git")).toBe("s3://bucket/prefix/.git");
+    });
+
+    it("normalizes nested prefixes with stray slashes", () => {
+      s3fs = new S3FS(mockS3 as any, "/team/alice/vault/");
+      expect(s3fs.url(".git")).toBe("s3://bucket/team/alice/vault/.git");
+    });
+  });
+
+  describe("findRepos", () => {
+    it("finds vault directories containing .git at any level", async () => {
+      s3fs = new S3FS(mockS3 as any);
+      const listings: Record<string, string[]> = {
+        "": [".git/", "team/"],
+        "team/": ["team/alice/", "team/bob/"],
+        "team/alice/": ["team/alice/vault-a/"],
+        "team/bob/": ["team/bob/.git/"],
+        "team/alice/vault-a/": ["team/alice/vault-a/.git/"],
+      };
+      mockS3.list.mockImplementation(async (prefix: string) => ({
+        objects: [],
+        prefixes: (listings[prefix] ?? []).map(p => ({ Prefix: p })),
+      }));
+
+      const repos = await s3fs.findRepos();
+      expect(repos).toEqual(["", "team/bob", "team/alice/vault-a"]);
+    });
+
+    it("stops at maxDepth", async () => {
+      s3fs = new S3FS(mockS3 as any);
+      mockS3.list.mockImplementation(async (prefix: string) => ({
+        objects: [],
+        prefixes: [{ Prefix: `${prefix}deeper/` }],
+      }));
+
+      expect(await s3fs.findRepos(2)).toEqual([]);
+      expect(mockS3.list).toHaveBeenCalledTimes(3);
+    });
+  });
+
   describe("without prefix", () => {
     it("uses path directly as key", async () => {
       s3fs = new S3FS(mockS3 as any);
@@ -0,0 +1,189 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import { randomBytes } from "crypto";
+import { Readable } from "stream";
+import { UploadPartCommand } from "@aws-sdk/client-s3";
+import { S3, S3Config, S3_PROVIDER_PRESETS, isPreconditionFailed } from "../utils/s3";
+import { FakeS3 } from "./fake-s3";
+
+describe("S3 against an S3-compatible endpoint", () => {
+  const server = new FakeS3("vault-bucket");
+  let config: S3Config;
+  let s3: S3;
+
+  beforeAll(async () => {
+    const endpoint = await server.start();
+    config = {
+      provider: "minio",
+      accessKeyId: "minioadmin",
+      secretAccessKey: "minioadmin",
+      credentials: { mode: "static", sessionToken: "", profile: "", credentialProcess: "", roleArn: "", externalId: "", webIdentityTokenFile: "" },
+      region: "us-east-1",
+      bucket: "vault-bucket",
+      endpoint,
+      forcePathStyle: true,
+      caBundle: "",
+      rejectUnauthorized: true,
+      serverSideEncryption: { mode: "none", kmsKeyId: "", customerKey: "" },
+    };
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  beforeEach(() => {
+    server.objects.clear();
+    server.requests.length = 0;
+    s3 = new S3(config);
+  });
+
+  it("routes requests to the custom endpoint with path-style addressing", async () => {
+    await s3.put(".git/HEAD", "ref: refs/heads/main\n");
+    expect(server.requests[0]).toMatchObject({ method: "PUT", key: ".git/HEAD" });
+    expect(server.objects.get(".git/HEAD")?.body.toString()).toBe("ref: refs/heads/main\n");
+  });
+
+  it("reads back objects and metadata", async () => {
+    await s3.put("notes/a.md", Buffer.from("hello"));
+    expect((await s3.get("notes/a.md")).toString()).toBe("hello");
+    expect(await s3.head("notes/a.md")).toMatchObject({ size: 5 });
+    expect(await s3.exists("notes/missing.md")).toBe(false);
+  });
+
+  it("lists objects and common prefixes", async () => {
+    await s3.put(".git/HEAD", "ref: refs/heads/main\n");
+    await s3.put(".git/refs/heads/main", "abc\n");
+    await s3.put(".git/config", "");
+
+    const { objects, prefixes } = await s3.list(".git/", "/");
+    expect(objects.map(o => o.Key).sort()).toEqual([".git/HEAD", ".git/config"]);
+    expect(prefixes.map(p => p.Prefix)).toEqual([".git/refs/"]);
+  });
+
+  it("copies and deletes objects", async () => {
+    await s3.put("a.txt", "a");
+    await s3.copy("a.txt", "b.txt");
+    expect((await s3.get("b.txt")).toString()).toBe("a");
+
+    await s3.delete(["a.txt", "b.txt"]);
+    expect(server.objects.size).toBe(0);
+  });
+
+  it("resumes an interrupted multipart upload from its UploadId", async () => {
+    const body = randomBytes(33 * 1024 * 1024);
+    let uploadId: string | undefined;
+    const resume = { onStart: (id: string) => { uploadId = id; } };
+
+    // Stream that dies after the first 32 MB part, like a process quitting mid-upload
+    async function* interrupted() {
+      yield body.subarray(0, 32 * 1024 * 1024);
+      throw new Error("interrupted");
+    }
+    await expect(s3.put("video.mp4", Readable.from(interrupted()), undefined, body.length, resume)).rejects.toThrow("interrupted");
+    expect(uploadId).toBeDefined();
+    expect(server.objects.has("video.mp4")).toBe(false);
+
+    server.requests.length = 0;
+    await s3.put("video.mp4", Readable.from([body]), undefined, body.length, { ...resume, uploadId });
+    const parts = server.requests.filter(r => r.method === "PUT" && r.query.has("partNumber"));
+    expect(parts.map(r => r.query.get("partNumber"))).toEqual(["2"]);
+    expect(server.objects.get("video.mp4")?.body.equals(body)).toBe(true);
+  });
+
+  it("fails an upload whose part fails while the stream is still being read", async () => {
+    const client = (s3 as unknown as { client: { send: (command: object) => Promise<unknown> } }).client;
+    const send = client.send.bind(client);
+    client.send = (command) => command instanceof UploadPartCommand ? Promise.reject(new Error("part failed")) : send(command);
+
+    const body = randomBytes(33 * 1024 * 1024);
+    async function* slow() {
+      yield body.subarray(0, 32 * 1024 * 1024);
+      await new Promise(resolve => setTimeout(resolve, 50));
+      yield body.subarray(32 * 1024 * 1024);
+    }
+    await expect(s3.put("video.mp4", Readable.from(slow()), undefined, body.length, {})).rejects.toThrow("part failed");
+  });
+
+  it("starts a new multipart upload when the old one is gone", async () => {
+    const body = randomBytes(33 * 1024 * 1024);
+    let started = "";
+    await s3.put("video.mp4", body, undefined, body.length, { uploadId: "expired", onStart: id => { started = id; } });
+    expect(started).not.toBe("");
+    expect(server.objects.get("video.mp4")?.body.equals(body)).toBe(true);
+  });
+
+  it("requests SSE-S3 on writes and copies", async () => {
+    s3 = new S3({ ...config, serverSideEncryption: { mode: "sse-s3", kmsKeyId: "", customerKey: "" } });
+    await s3.put("a.txt", "a");
+    await s3.put("b.txt", Readable.from([Buffer.from("b")]), undefined, 1);
+    await s3.putConditional("c.txt", "c", { ifNoneMatch: "*" });
+    await s3.copy("a.txt", "d.txt");
+    const writes = server.requests.filter(r => r.method === "PUT");
+    expect(writes.map(r => r.headers["x-amz-server-side-encryption"])).toEqual(["AES256", "AES256", "AES256", "AES256"]);
+  });
+
+  it("requests SSE-KMS with the configured key", async () => {
+    s3 = new S3({ ...config, serverSideEncryption: { mode: "sse-kms", kmsKeyId: "alias/vaults", customerKey: "" } });
+    await s3.put("a.txt", "a");
+    expect(server.requests[0]?.headers).toMatchObject({
+      "x-amz-server-side-encryption": "aws:kms",
+      "x-amz-server-side-encryption-aws-kms-key-id": "alias/vaults",
+    });
+  });
+
+  it("reads and copies SSE-C objects only with the customer key", async () => {
+    const customerKey = randomBytes(32).toString("base64");
+    s3 = new S3({ ...config, serverSideEncryption: { mode: "sse-c", kmsKeyId: "", customerKey } });
+    await s3.put("a.txt", "secret");
+    await s3.copy("a.txt", "b.txt");
+    expect((await s3.get("b.txt")).toString()).toBe("secret");
+    expect(await s3.head("b.txt")).toMatchObject({ size: 6 });
+
+    await expect(new S3(config).get("a.txt")).rejects.toThrow("MD5");
+    const otherKey = randomBytes(32).toString("base64");
+    await expect(new S3({ ...config, serverSideEncryption: { mode: "sse-c", kmsKeyId: "", customerKey: otherKey } }).get("a.txt")).rejects.toThrow("MD5");
+  });
+
+  it("sends the SSE-C key with every part of a multipart upload", async () => {
+    const customerKey = randomBytes(32).toString("base64");
+    s3 = new S3({ ...config, serverSideEncryption: { mode: "sse-c", kmsKeyId: "", customerKey } });
+    const body = randomBytes(33 * 1024 * 1024);
+    await s3.put("video.mp4", body, undefined, body.length, {});
+    expect(server.requests.every(r => r.headers["x-amz-server-side-encryption-customer-algorithm"] === "AES256")).toBe(true);
+    expect((await s3.get("video.mp4")).equals(body)).toBe(true);
+  });
+
+  it("rejects a malformed SSE-C key when a request is made", async () => {
+    s3 = new S3({ ...config, serverSideEncryption: { mode: "sse-c", kmsKeyId: "", customerKey: "not a key" } });
+    await expect(s3.put("a.txt", "a")).rejects.toThrow("base64-encoded 256-bit key");
+    expect(server.requests).toHaveLength(0);
+  });
+});
+
+describe("S3_PROVIDER_PRESETS", () => {
+  it("uses path-style addressing for self-hosted providers", () => {
+    expect(S3_PROVIDER_PRESETS.minio.forcePathStyle).toBe(true);
+    expect(S3_PROVIDER_PRESETS.garage.forcePathStyle).toBe(true);
+  });
+
+  it("keeps the default AWS endpoint for Amazon S3", () => {
+    expect(S3_PROVIDER_PRESETS.aws.endpoint).toBe("");
+  });
+
+  it("uses the auto region for Cloudflare R2", () => {
+    expect(S3_PROVIDER_PRESETS.r2.region).toBe("auto");
+  });
+});
+
+describe("isPreconditionFailed", () => {
+  const error = (name: string, httpStatusCode: number) => Object.assign(new Error(name), { name, $metadata: { httpStatusCode } });
+
+  it("treats a 412 and a conditional write conflict as a lost race", () => {
+    expect(isPreconditionFailed(error("PreconditionFailed", 412))).toBe(true);
+    expect(isPreconditionFailed(error("ConditionalRequestConflict", 409))).toBe(true);
+  });
+
+  it("leaves other 409 conflicts as errors", () => {
+    expect(isPreconditionFailed(error("OperationAborted", 409))).toBe(false);
+  });
+});
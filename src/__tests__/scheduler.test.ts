@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { SyncScheduler, SchedulerOptions, backoffDelay } from "../utils/scheduler";
+
+describe("backoffDelay", () => {
+  it("doubles per failure up to the cap", () => {
+    expect(backoffDelay(1)).toBe(30_000);
+    expect(backoffDelay(2)).toBe(60_000);
+    expect(backoffDelay(3)).toBe(120_000);
+    expect(backoffDelay(20)).toBe(30 * 60_000);
+  });
+});
+
+describe("SyncScheduler", () => {
+  let sync: ReturnType<typeof vi.fn<[], Promise<boolean>>>;
+  let busy: boolean;
+  let online: boolean;
+
+  function create(overrides: Partial<SchedulerOptions> = {}, paused = false): SyncScheduler {
+    return new SyncScheduler({
+      intervalMs: 60_000,
+      idleMs: 5_000,
+      sync,
+      isBusy: () => busy,
+      isOnline: () => online,
+      ...overrides,
+    }, paused);
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    sync = vi.fn<[], Promise<boolean>>().mockResolvedValue(true);
+    busy = false;
+    online = true;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("syncs on the interval", async () => {
+    const scheduler = create();
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(59_000);
+    expect(sync).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(sync).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(sync).toHaveBeenCalledTimes(2);
+    scheduler.stop();
+  });
+
+  it("syncs once edits stop for the idle period", async () => {
+    const scheduler = create();
+    scheduler.start();
+    scheduler.notifyEdit();
+    await vi.advanceTimersByTimeAsync(3_000);
+    scheduler.notifyEdit();
+    await vi.advanceTimersByTimeAsync(3_000);
+    expect(sync).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(2_000);
+    expect(sync).toHaveBeenCalledTimes(1);
+    scheduler.stop();
+  });
+
+  it("backs off after failures and resets on success", async () => {
+    sync.mockResolvedValueOnce(false).mockRejectedValueOnce(new Error("offline"));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const scheduler = create({ intervalMs: 0 });
+    scheduler.start();
+
+    await scheduler.trigger();
+    expect(scheduler.state.failures).toBe(1);
+    await vi.advanceTimersByTimeAsync(30_000);
+    expect(sync).toHaveBeenCalledTimes(2);
+    expect(scheduler.state.failures).toBe(2);
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(sync).toHaveBeenCalledTimes(3);
+    expect(scheduler.state).toMatchObject({ failures: 0, nextRunAt: null });
+    scheduler.stop();
+  });
+
+  it("counts offline attempts as failures without calling sync", async () => {
+    online = false;
+    const scheduler = create();
+    scheduler.start();
+    await scheduler.trigger();
+    expect(sync).not.toHaveBeenCalled();
+    expect(scheduler.state.failures).toBe(1);
+
+    online = true;
+    scheduler.notifyOnline();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(sync).toHaveBeenCalledTimes(1);
+    scheduler.stop();
+  });
+
+  it("waits while a manual sync holds the repo", async () => {
+    busy = true;
+    const scheduler = create({ intervalMs: 0 });
+    scheduler.start();
+    await scheduler.trigger();
+    expect(sync).not.toHaveBeenCalled();
+
+    busy = false;
+    await vi.advanceTimersByTimeAsync(30_000);
+    expect(sync).toHaveBeenCalledTimes(1);
+    scheduler.stop();
+  });
+
+  it("does nothing while paused", async () => {
+    const scheduler = create({}, true);
+    scheduler.start();
+    scheduler.notifyEdit();
+    await scheduler.trigger();
+    await vi.advanceTimersByTimeAsync(120_000);
+    expect(sync).not.toHaveBeenCalled();
+
+    scheduler.resume();
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(sync).toHaveBeenCalledTimes(1);
+    scheduler.stop();
+  });
+
+  it("never runs two syncs at once", async () => {
+    let finish: (ok: boolean) => void = () => {};
+    sync.mockImplementationOnce(() => new Promise(resolve => (finish = resolve)));
+    const scheduler = create();
+    scheduler.start();
+
+    const first = scheduler.trigger();
+    await scheduler.trigger();
+    expect(sync).toHaveBeenCalledTimes(1);
+    finish(true);
+    await first;
+    scheduler.stop();
+  });
+});
@@ -3,6 +3,16 @@ import VaultSync from './main';
 
 export function createCommands(plugin: VaultSync): Command[] {
 	return [
+		{
+			id: 'sync',
+			name: 'Sync with remote',
+			callback: () => plugin.sync(),
+		},
+		{
+			id: 'commit',
+			name: 'Commit changes',
+			callback: () => plugin.showCommitModal(),
+		},
 		{
 			id: 'push',
 			name: 'Push to remote',
@@ -13,16 +23,56 @@ export function createCommands(plugin: VaultSync): Command[] {
 			name: 'Pull from remote',
 			callback: () => plugin.pull(),
 		},
+		{
+			id: 'preview-incoming',
+			name: 'Preview incoming changes',
+			callback: () => plugin.previewIncoming(),
+		},
 		{
 			id: 'restore',
 			name: 'Restore changes',
 			callback: () => plugin.restore(),
 		},
+		{
+			id: 'pending-operations',
+			name: 'Show pending sync operations',
+			callback: () => plugin.showQueueModal(),
+		},
+		{
+			id: 'toggle-auto-sync',
+			name: 'Pause/resume auto-sync',
+			callback: () => plugin.toggleAutoSyncPaused(),
+		},
+		{
+			id: 'change-encryption-passphrase',
+			name: 'Change encryption passphrase',
+			callback: () => plugin.changeEncryptionPassphrase(),
+		},
+		{
+			id: 'check-health',
+			name: 'Check repository health',
+			callback: () => plugin.showHealthModal(),
+		},
+		{
+			id: 'break-lock',
+			name: 'Break remote lock',
+			callback: () => plugin.breakRemoteLock(),
+		},
 		{
 			id: 'log',
 			name: 'Show log',
 			callback: () => plugin.showLogModal(),
 		},
+		{
+			id: 'file-history',
+			name: 'File history',
+			callback: () => plugin.showFileHistory(),
+		},
+		{
+			id: 'deleted-files',
+			name: 'Browse deleted files',
+			callback: () => plugin.showDeletedFiles(),
+		},
 		{
 			id: 'diff',
 			name: 'View changes/diff',
@@ -0,0 +1,22 @@
+// Entry point of the git-merge-markdown merge driver: git runs it as
+// `git-merge-markdown <base> <ours> <theirs> <path>` for files with `merge=markdown` and expects
+// the result in <ours>, exiting non-zero when conflicts are left in it
+import { readFileSync, writeFileSync } from "fs";
+import { mergeMarkdown } from "./utils/markdown-merge";
+import { mergedText } from "./utils/merge";
+
+function main(): number {
+  const [base, ours, theirs] = process.argv.slice(2);
+  if (!base || !ours || !theirs) throw new Error("usage: git-merge-markdown <base> <ours> <theirs> [<path>]");
+
+  const chunks = mergeMarkdown(readFileSync(base, "utf8"), readFileSync(ours, "utf8"), readFileSync(theirs, "utf8"));
+  writeFileSync(ours, mergedText(chunks, []));
+  return chunks.some(c => c.kind === "conflict") ? 1 : 0;
+}
+
+try {
+  process.exit(main());
+} catch (e) {
+  process.stderr.write(`fatal: ${e instanceof Error ? e.message : String(e)}\n`);
+  process.exit(2);
+}
@@ -0,0 +1,34 @@
+// Entry point for the git-remote-s3vault executable: git runs it as
+// `git-remote-s3vault <remote> <url>` with GIT_DIR set and speaks the helper protocol on stdio
+import { createInterface } from "readline";
+import { resolve } from "path";
+import { gitEnv } from "./utils/env";
+import { Git } from "./utils/git";
+import { S3 } from "./utils/s3";
+import { S3FS } from "./utils/s3-fs";
+import { unlock } from "./utils/encryption";
+import { RemoteHelper, parseRemoteUrl, resolveHelperConfig, resolvePassphrase } from "./utils/remote-helper";
+
+async function main(): Promise<void> {
+  const [remote, url = remote] = process.argv.slice(2);
+  if (!url) throw new Error("usage: git-remote-s3vault <remote> <url>");
+  // git passes a GIT_DIR relative to its cwd; child git commands run inside it, so make it absolute
+  const gitDir = resolve(process.env.GIT_DIR ?? ".git");
+  gitEnv.GIT_DIR = gitDir;
+
+  const target = parseRemoteUrl(url);
+  const getConfig = (key: string) => new Git(gitDir).getConfig(key);
+  const config = await resolveHelperConfig(target, process.env, getConfig);
+  const s3 = new S3(config);
+  const fs = new S3FS(s3, target.remotePath);
+  s3.cipher = await unlock(fs, await resolvePassphrase(process.env, getConfig));
+  const helper = new RemoteHelper(fs, gitDir,
+    message => process.stderr.write(`git-remote-s3vault: ${message}\n`));
+
+  await helper.run(createInterface({ input: process.stdin }), out => process.stdout.write(out));
+}
+
+main().then(() => process.exit(0), (e: Error) => {
+  process.stderr.write(`fatal: ${e.message}\n`);
+  process.exit(1);
+});
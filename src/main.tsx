@@ -1,22 +1,49 @@
-import {debounce, Modal, Notice, Plugin} from 'obsidian';
+import {debounce, Modal, normalizePath, Notice, Plugin, TFile, TFolder} from 'obsidian';
 import {createElement} from 'react';
 import {createRoot, Root} from 'react-dom/client';
-import * as fs from "fs/promises";
 import * as path from "path";
 import * as os from "os";
+import * as fs from "fs/promises";
 import {DEFAULT_SETTINGS, VaultSyncSettings, VaultSyncSettingTab} from "./settings";
 import {StatusBar, StatusBarProps} from "./ui/StatusBar";
 import {RibbonButtons} from "./ui/RibbonButtons";
 import {LogModal} from "./ui/LogModal";
-import {DiffModal} from "./ui/DiffModal";
-import {MergeModal, Resolution} from "./ui/MergeModal";
-import {Git, GitStatus} from "./utils/git";
+import {FileHistoryModal} from "./ui/FileHistoryModal";
+import {DeletedFilesModal} from "./ui/DeletedFilesModal";
+import {DiffModal, HunkSelection} from "./ui/DiffModal";
+import {CommitModal} from "./ui/CommitModal";
+import {ConflictFile, MergeModal, Resolution} from "./ui/MergeModal";
+import {IncomingModal} from "./ui/IncomingModal";
+import {Git, GitStatus, FileRevision, DeletedFile} from "./utils/git";
 import {S3} from "./utils/s3";
-import {TransferMonitor, TransferStatus} from "s3-sync-client";
+import {RemoteLock} from "./utils/lock";
+import {Remote, RemoteRef} from "./utils/remote";
 import {S3FS} from "./utils/s3-fs";
-import {getGitattributes, isLfsAvailable, configureLfs, checkoutLfs, pruneLfs, getLfsOids} from "./utils/lfs";
+import {SyncScheduler, SchedulerState, backoffDelay} from "./utils/scheduler";
+import {OperationQueue, OperationKind} from "./utils/queue";
+import {unlock, isWrongPassphrase, PassphraseChange} from "./utils/encryption";
+import {hasCredentials} from "./utils/credentials";
+import {runDiagnostics, CheckResult, Repair} from "./utils/diagnostics";
+import {checkHealth} from "./utils/health";
+import {parsePatch, selectHunks} from "./utils/patch";
+import {mergedText} from "./utils/merge";
+import {mergeMarkdown} from "./utils/markdown-merge";
+import {QueueModal} from "./ui/QueueModal";
+import {HealthModal} from "./ui/HealthModal";
+import {getGitattributes, isLfsAvailable, configureLfs, checkoutLfs, pruneLfs, getLfsOids, parseLfsPointer, lfsObjectPath} from "./utils/lfs";
 import {createCommands} from "./commands";
 
+// Background syncs stay quiet unless something needs the user's attention
+interface SyncOptions {
+	quiet?: boolean;
+	leaveUncommitted?: boolean;  // push commits as they are instead of committing local changes first
+}
+
+interface AheadBehind {
+	ahead: number;
+	behind: number;
+}
+
 export default class VaultSync extends Plugin {
 	settings: VaultSyncSettings;
 	private statusBarRoot: Root | null = null;
@@ -24,18 +51,32 @@ export default class VaultSync extends Plugin {
 	private git: Git | null = null;
 	private s3: S3 | null = null;
 	private s3fs: S3FS | null = null;
-	private pendingMerge: { preHead: string; modal: Modal } | null = null;
+	private remote: Remote | null = null;
+	// Merge dialog waiting for resolutions; holds the remote lock taken for the push it continues, if any
+	private pendingMerge: { preHead: string; remoteRef: RemoteRef | null; modal: Modal; lock: RemoteLock | null } | null = null;
 	private locked = false;
 	private lfsAvailable = false;
 	private explorerObserver: MutationObserver | null = null;
 	private ribbonButtons: RibbonButtons | null = null;
+	private scheduler: SyncScheduler | null = null;
+	private schedulerState: SchedulerState | null = null;
+	private queue: OperationQueue;
+	private queueTimer: ReturnType<typeof setTimeout> | null = null;
+	private unlocked = false;  // passphrase checked against the remote's encryption header
+	private repoState: { branch: string; remoteHead: string | null; pendingFiles: number; ahead?: number; behind?: number } | null = null;
 
 	async onload() {
 		await this.loadSettings();
+		this.queue = new OperationQueue(this.settings.queue, async (operations) => {
+			this.settings.queue = operations;
+			await this.saveSettings();
+			this.renderStatusBar();
+		});
 		this.addSettingTab(new VaultSyncSettingTab(this.app, this));
 		this.mountStatusBar();
 		this.ribbonButtons = new RibbonButtons(
 			this,
+			() => { void this.sync(); },
 			() => { void this.push(); },
 			() => { void this.pull(); },
 			() => { void this.restore(); }
@@ -45,17 +86,143 @@ export default class VaultSync extends Plugin {
 			this.createS3Client();
 			await this.ensureGitIdentity();
 		}
+		this.setupScheduler();
 		this.app.workspace.onLayoutReady(() => {
 			this.ribbonButtons?.reorder();
 			this.setupExplorerObserver();
 			void this.refreshStatus();
+			this.scheduler?.start();
+			if (this.settings.autoSync.onStartup) void this.scheduler?.trigger();
+			// Operations queued before the last restart
+			if (this.queue.size) this.scheduleQueueRetry(0);
 		});
 
 		// Watch for file changes to update status
-		this.registerEvent(this.app.vault.on('create', () => void this.refreshStatus()));
-		this.registerEvent(this.app.vault.on('modify', () => void this.refreshStatus()));
-		this.registerEvent(this.app.vault.on('delete', () => void this.refreshStatus()));
-		this.registerEvent(this.app.vault.on('rename', () => void this.refreshStatus()));
+		const onVaultChange = () => {
+			void this.refreshStatus();
+			this.scheduler?.notifyEdit();
+		};
+		this.registerEvent(this.app.vault.on('create', onVaultChange));
+		this.registerEvent(this.app.vault.on('modify', onVaultChange));
+		this.registerEvent(this.app.vault.on('delete', onVaultChange));
+		this.registerEvent(this.app.vault.on('rename', onVaultChange));
+
+		this.registerEvent(this.app.workspace.on('file-menu', (menu, file) => {
+			if (!(file instanceof TFile)) return;
+			menu.addItem(item => item
+				.setTitle("File history")
+				.setIcon("history")
+				.onClick(() => { void this.showFileHistory(file); }));
+		}));
+
+		// Let the last sync finish before the app closes
+		this.registerEvent(this.app.workspace.on('quit', (tasks) => {
+			if (this.scheduler && this.settings.autoSync.onQuit && !this.settings.autoSync.paused) {
+				tasks.add(() => this.autoSync());
+			}
+		}));
+		this.registerDomEvent(window, 'online', () => {
+			this.scheduleQueueRetry(0);
+			this.scheduler?.notifyOnline();
+		});
+	}
+
+	// Create the auto-sync scheduler from settings, or drop it when auto-sync is off
+	private setupScheduler() {
+		const { autoSync } = this.settings;
+		if (!autoSync.enabled) {
+			this.scheduler?.stop();
+			this.scheduler = null;
+			this.schedulerState = null;
+			this.renderStatusBar();
+			return;
+		}
+
+		const intervals = { intervalMs: autoSync.intervalMinutes * 60 * 1000, idleMs: autoSync.idleSeconds * 1000 };
+		if (this.scheduler) {
+			this.scheduler.configure(intervals);
+			return;
+		}
+		this.scheduler = new SyncScheduler({
+			...intervals,
+			sync: () => this.autoSync(),
+			isBusy: () => this.locked || this.pendingMerge !== null,
+			isOnline: () => navigator.onLine,
+			onChange: (state) => {
+				this.schedulerState = state;
+				this.renderStatusBar();
+			},
+		}, autoSync.paused);
+		this.schedulerState = this.scheduler.state;
+		if (this.app.workspace.layoutReady) this.scheduler.start();
+	}
+
+	async toggleAutoSyncPaused() {
+		if (!this.scheduler) return;
+		this.settings.autoSync.paused = !this.settings.autoSync.paused;
+		if (this.settings.autoSync.paused) this.scheduler.pause();
+		else this.scheduler.resume();
+		await this.saveSettings();
+	}
+
+	// One background round of sync()
+	private async autoSync(): Promise<boolean> {
+		// Not connected yet: nothing to sync, which isn't a failure worth backing off for
+		if (!(await this.ensureRepo())) return true;
+		return this.sync({ quiet: true });
+	}
+
+	// Background work may run before the first status refresh has created the Git wrapper
+	private async ensureRepo(): Promise<boolean> {
+		if (!this.remote || !(await this.app.vault.adapter.exists(".git"))) return false;
+		this.git ??= new Git(this.getVaultPath());
+		return true;
+	}
+
+	// Retry queued operations (all, or just `ids`) oldest first
+	async retryQueue(ids?: string[]) {
+		if (this.queueTimer) clearTimeout(this.queueTimer);
+		this.queueTimer = null;
+		if (!this.queue.size) return;
+		if (this.locked || this.pendingMerge || !(await this.ensureRepo())) {
+			this.scheduleQueueRetry();
+			return;
+		}
+
+		const count = this.queue.size;
+		const done = await this.queue.drain(async (op) => {
+			if (await this[op.kind]({ quiet: true })) return null;
+			return this.settings.history.lastError?.message ?? `${op.kind} failed`;
+		}, ids);
+		if (done && !ids) new Notice(`Completed ${count} pending sync operation(s)`);
+		if (!done) this.scheduleQueueRetry();
+	}
+
+	// Retry after `delay`, by default backing off on the most-attempted operation
+	private scheduleQueueRetry(delay?: number) {
+		if (this.queueTimer) clearTimeout(this.queueTimer);
+		this.queueTimer = null;
+		if (!this.queue.size) return;
+		const attempts = Math.max(...this.queue.list().map(op => op.attempts));
+		this.queueTimer = setTimeout(() => void this.retryQueue(), delay ?? backoffDelay(attempts));
+	}
+
+	async showQueueModal() {
+		const modal = new Modal(this.app);
+		modal.titleEl.setText("Pending sync operations");
+
+		// Make modal a flex column so React content can scroll
+		modal.modalEl.addClasses(["remote-vault-sync", "flex", "flex-col", "max-h-[80vh]"]);
+		modal.contentEl.addClasses(["overflow-auto", "flex-1"]);
+
+		const root = createRoot(modal.contentEl);
+		root.render(createElement(QueueModal, {
+			getOperations: () => this.queue.list(),
+			onRetry: (ids?: string[]) => this.retryQueue(ids),
+			onCancel: (id: string) => this.queue.remove(id),
+		}));
+		modal.onClose = () => root.unmount();
+		modal.open();
 	}
 
 	private async _refreshStatus() {
@@ -76,6 +243,7 @@ export default class VaultSync extends Plugin {
 			const status = await this.git.status();
 			const isClean = !status.staged.length && !status.modified.length &&
 			                !status.untracked.length && !status.deleted.length;
+			await this.refreshRepoState(status);
 			this.updateStatus({ status: isClean ? "clean" : "changes" });
 			this.ribbonButtons?.setRestoreDisabled(isClean);
 			this.updateFileDecorations(status);
@@ -86,6 +254,20 @@ export default class VaultSync extends Plugin {
 
 	private refreshStatus = debounce(() => void this._refreshStatus(), 1000);
 
+	// Branch, pending files and ahead/behind against the last known remote head (refs/remotes/s3/<branch>)
+	private async refreshRepoState(status: GitStatus) {
+		if (!this.git) return;
+		const branch = await this.git.currentBranch();
+		const remoteHead = await this.git.rev(`refs/remotes/s3/${branch}`).catch(() => null);
+		const counts = remoteHead ? await this.git.aheadBehind("HEAD", remoteHead).catch(() => null) : null;
+		this.repoState = {
+			branch,
+			remoteHead,
+			pendingFiles: new Set([...status.staged, ...status.modified, ...status.untracked, ...status.deleted]).size,
+			...counts,
+		};
+	}
+
 	// Watch file explorer for folder expand/collapse to re-apply badges
 	private setupExplorerObserver() {
 		const container = document.querySelector(".nav-files-container");
@@ -96,6 +278,9 @@ export default class VaultSync extends Plugin {
 	}
 
 	onunload() {
+		this.scheduler?.stop();
+		if (this.queueTimer) clearTimeout(this.queueTimer);
+		void this.releaseRemoteLock(this.pendingMerge?.lock ?? null);
 		this.explorerObserver?.disconnect();
 		this.ribbonButtons?.destroy();
 		this.statusBarRoot?.unmount();
@@ -109,7 +294,23 @@ export default class VaultSync extends Plugin {
 	}
 
 	private renderStatusBar() {
-		this.statusBarRoot?.render(createElement(StatusBar, this.statusBarState));
+		const { history, s3, remotePath } = this.settings;
+		const repo = this.repoState;
+		this.statusBarRoot?.render(createElement(StatusBar, {
+			...this.statusBarState,
+			ahead: repo?.ahead,
+			behind: repo?.behind,
+			details: this.isConfigured() ? {
+				remote: this.s3fs?.url("") ?? `s3://${s3.bucket}/${remotePath}`,
+				branch: repo?.branch ?? null,
+				remoteHead: repo?.remoteHead ?? null,
+				pendingFiles: repo?.pendingFiles ?? 0,
+				queuedOperations: this.queue?.size ?? 0,
+				...history,
+			} : undefined,
+			autoSync: this.schedulerState ?? undefined,
+			onToggleAutoSync: () => { void this.toggleAutoSyncPaused(); },
+		}));
 	}
 
 	updateStatus(state: StatusBarProps) {
@@ -155,7 +356,7 @@ export default class VaultSync extends Plugin {
 
 	private isConfigured(): boolean {
 		const { s3 } = this.settings;
-		return Boolean(s3.accessKeyId && s3.secretAccessKey && s3.region && s3.bucket);
+		return Boolean(hasCredentials(s3) && s3.region && s3.bucket);
 	}
 
 	private getVaultPath(): string {
@@ -167,16 +368,51 @@ export default class VaultSync extends Plugin {
 	}
 
 	async loadSettings() {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData() as Partial<VaultSyncSettings>);
+		const data = await this.loadData() as Partial<VaultSyncSettings> | null;
+		this.settings = Object.assign({}, DEFAULT_SETTINGS, data);
+		// Merge nested config so settings saved by older versions pick up new fields
+		this.settings.s3 = Object.assign({}, DEFAULT_SETTINGS.s3, data?.s3);
+		this.settings.s3.credentials = Object.assign({}, DEFAULT_SETTINGS.s3.credentials, data?.s3?.credentials);
+		this.settings.s3.serverSideEncryption = Object.assign({}, DEFAULT_SETTINGS.s3.serverSideEncryption, data?.s3?.serverSideEncryption);
+		this.settings.autoSync = Object.assign({}, DEFAULT_SETTINGS.autoSync, data?.autoSync);
+		this.settings.history = Object.assign({}, DEFAULT_SETTINGS.history, data?.history);
+		// Stable per-install ID identifying this device as remote lock owner
+		if (!this.settings.deviceId) {
+			this.settings.deviceId = crypto.randomUUID();
+			await this.saveSettings();
+		}
 	}
 
 	async saveSettings() {
 		await this.saveData(this.settings);
 	}
 
+	// Apply edited auto-sync settings; other saves (sync records, the queue) leave the timers alone
+	applyAutoSyncSettings() {
+		if (this.statusBarRoot) this.setupScheduler();
+	}
+
 	private createS3Client() {
 		this.s3 = new S3(this.settings.s3);
-		this.s3fs = new S3FS(this.s3);
+		this.s3fs = new S3FS(this.s3, this.settings.remotePath);
+		this.remote = new Remote(this.s3fs);
+		this.unlocked = false;
+	}
+
+	// Check the passphrase against the remote's key and encrypt from here on; throws on a wrong or missing one
+	private async unlockRemote() {
+		if (!this.s3 || !this.s3fs || this.unlocked) return;
+		// Don't keep encrypting with the old key if the passphrase no longer opens the remote
+		this.s3.cipher = null;
+		this.s3.cipher = await unlock(this.s3fs, this.settings.encryptionPassphrase);
+		this.unlocked = true;
+	}
+
+	// Check the passphrase in settings again before the next remote operation; one that is running
+	// (or a merge waiting to be pushed) keeps its key until then
+	relockRemote() {
+		this.unlocked = false;
+		if (this.s3 && !this.locked && !this.pendingMerge) this.s3.cipher = null;
 	}
 
 	private async configureGit() {
@@ -188,6 +424,20 @@ export default class VaultSync extends Plugin {
 		} else {
 			console.debug("[remote-vault-sync] git-lfs not installed, using binary fallback");
 		}
+		await this.configureMergeDriver();
+	}
+
+	// Point the markdown merge driver at the script shipped next to main.js, which runs on the node
+	// found on PATH; when it's missing or fails, notes that conflict are merged again in pullAndMerge
+	private async configureMergeDriver() {
+		if (!this.git) return;
+		const driver = path.join(this.getVaultPath(), this.manifest.dir ?? "", "git-merge-markdown");
+		if (!(await fs.access(driver).then(() => true, () => false))) {
+			await this.git.unsetConfig("merge.markdown.driver");
+			return;
+		}
+		await this.git.setConfig("merge.markdown.name", "Markdown notes (frontmatter and sections)");
+		await this.git.setConfig("merge.markdown.driver", `"${driver}" %O %A %B %P`);
 	}
 
 	// Set default user identity if not configured
@@ -219,24 +469,26 @@ export default class VaultSync extends Plugin {
 
 		this.createS3Client();
 		try {
+			await this.unlockRemote();
 			this.git = new Git(this.getVaultPath());
 			const hasLocalGit = await this.app.vault.adapter.exists(".git");
-			const hasRemoteGit = await this.s3fs!.exists(".git/HEAD");
+			const remoteBranch = await this.remote!.readHead();
 
-			if (!hasLocalGit && hasRemoteGit) {
+			if (!hasLocalGit && remoteBranch) {
+				// Clone: empty repo on the remote's branch, fetch objects, check out the remote ref
 				this.updateStatus({ status: "syncing", step: "Pulling .git... 0%" });
-				const monitor = new TransferMonitor();
-				monitor.on("progress", (progress: TransferStatus) => {
-					const pct = progress.size.total > 0 ? Math.round(progress.size.current / progress.size.total * 100) : 0;
-					this.updateStatus({ status: "syncing", step: `Pulling .git... ${pct}%` });
-				});
-				await this.s3!.syncClient.sync(`s3://${this.s3!.bucket}/.git`, path.join(this.getVaultPath(), ".git"), { monitor });
+				const remoteRef = await this.remote!.readRef(remoteBranch);
+				if (!remoteRef) throw new Error(`Remote branch ${remoteBranch} not found`);
+				await this.git.init();
+				await Git.exec(this.getVaultPath(), ["symbolic-ref", "HEAD", `refs/heads/${remoteBranch}`]);
 				await this.configureGit();
-				await this.git.checkout(".");
+				await this.fetchObjects(remoteBranch, remoteRef);
+				await this.git.resetHard(remoteRef.oid);
 				if (this.lfsAvailable) {
 					await this.fetchNeededLfsObjects(); // download only needed LFS
 					await checkoutLfs(this.getVaultPath());
 				}
+				await this.recordSync("pull");
 				new Notice("Pulled from remote");
 			} else if (!hasLocalGit) {
 				this.updateStatus({ status: "syncing", step: "Initializing..." });
@@ -254,34 +506,43 @@ export default class VaultSync extends Plugin {
 			this.refreshStatus();
 		} catch (e) {
 			console.error("[remote-vault-sync] Connect failed:", e);
+			void this.recordError(e);
 			new Notice(`Connect failed: ${e instanceof Error ? e.message : String(e)}`);
 			this.updateStatus({ status: "error" });
 		}
 	}
 
-	async push() {
-		if (this.locked) return;
-		if (!this.s3fs || !this.git) {
-			new Notice("Not connected");
-			return;
-		}
-
-		const status = await this.git.status();
-		const hasChanges = status.staged.length || status.modified.length ||
-		                   status.untracked.length || status.deleted.length;
-		const localHead = await this.git.rev("HEAD").catch(() => null);
-		const remoteHead = await this.getRemoteHead();
-
-		// Nothing to do if clean and in sync
-		if (!hasChanges && localHead === remoteHead) {
-			new Notice("Already up to date");
-			return;
+	// Returns false if the push failed
+	async push(options: SyncOptions = {}): Promise<boolean> {
+		if (this.locked) return false;
+		if (!this.remote || !this.git) {
+			if (!options.quiet) new Notice("Not connected");
+			return false;
 		}
 
 		this.locked = true;
 		this.ribbonButtons?.setLocked(true);
 		const vaultPath = this.getVaultPath();
+		let lock: RemoteLock | null = null;
 		try {
+			await this.unlockRemote();
+			const status = await this.git.status();
+			const hasChanges = !options.leaveUncommitted && (status.staged.length || status.modified.length ||
+			                   status.untracked.length || status.deleted.length);
+			const branch = await this.git.currentBranch();
+			const localHead = await this.git.rev("HEAD").catch(() => null);
+			const remoteRef = await this.remote.readRef(branch);
+
+			// Nothing to do if clean and in sync
+			if (!hasChanges && localHead === remoteRef?.oid) {
+				if (!options.quiet) new Notice("Already up to date");
+				return true;
+			}
+
+			lock = await this.acquireRemoteLock();
+			// Re-read under the lock; the final ref update only succeeds if it still matches
+			const expected = await this.remote.readRef(branch);
+
 			// Only commit if there are changes
 			if (hasChanges) {
 				this.updateStatus({ status: "syncing", step: "Committing..." });
@@ -291,91 +552,250 @@ export default class VaultSync extends Plugin {
 
 			// Re-check HEAD after potential commit
 			const newLocalHead = await this.git.rev("HEAD");
-			if (remoteHead && remoteHead !== newLocalHead) {
+			if (expected && expected.oid !== newLocalHead) {
 				// Check if remote is ancestor of local (fast-forward)
 				try {
-					await Git.exec(vaultPath, ["merge-base", "--is-ancestor", remoteHead, newLocalHead]);
+					await Git.exec(vaultPath, ["merge-base", "--is-ancestor", expected.oid, newLocalHead]);
 					// Remote is ancestor, safe to push
 				} catch {
 					// Diverged - need to merge first
-					await this.pullAndMerge();
-					if (this.pendingMerge) return; // Conflict modal open, push continues after resolution
+					await this.pullAndMerge(branch, expected, lock);
+					if (this.pendingMerge) {
+						// Conflict modal open and holding the lock, push continues after resolution
+						lock = null;
+						return true;
+					}
 				}
 			}
 
-			// Prune unreferenced LFS objects before push
-			if (this.lfsAvailable) await pruneLfs(vaultPath);
+			await this.uploadAndUpdateRef(lock, branch, expected);
+			if (!options.quiet) new Notice("Pushed to remote");
+			this.refreshStatus();
+			return true;
+		} catch (e) {
+			return this.syncFailed("push", e, options);
+		} finally {
+			await this.releaseRemoteLock(lock);
+			this.ribbonButtons?.setLocked(false);
+			this.locked = false;
+		}
+	}
 
-			this.updateStatus({ status: "syncing", step: "Pushing .git... 0%" });
-			const monitor = new TransferMonitor();
-			monitor.on("progress", (progress: TransferStatus) => {
-				const pct = progress.size.total > 0 ? Math.round(progress.size.current / progress.size.total * 100) : 0;
-				this.updateStatus({ status: "syncing", step: `Pushing .git... ${pct}%` });
-			});
-			await this.s3!.syncClient.sync(path.join(vaultPath, ".git"), `s3://${this.s3!.bucket}/.git`, { monitor });
-			new Notice("Pushed to remote");
+	// Commit, fetch, fast-forward or merge, then push; reports what moved in each direction.
+	// Returns false if the sync failed
+	async sync(options: SyncOptions = {}): Promise<boolean> {
+		if (this.locked) return false;
+		if (!this.remote || !this.git) {
+			if (!options.quiet) new Notice("Not connected");
+			return false;
+		}
+
+		this.locked = true;
+		this.ribbonButtons?.setLocked(true);
+		let lock: RemoteLock | null = null;
+		try {
+			await this.unlockRemote();
+			const branch = await this.git.currentBranch();
+			const status = await this.git.status();
+			if (status.staged.length || status.modified.length || status.untracked.length || status.deleted.length) {
+				this.updateStatus({ status: "syncing", step: "Committing..." });
+				await this.git.addAll();
+				await this.git.commit(this.generateCommitMessage(status));
+			}
+
+			const localHead = await this.git.rev("HEAD").catch(() => null);
+			if (!localHead) {
+				if (!options.quiet) new Notice("Nothing to sync");
+				return true;
+			}
+
+			this.updateStatus({ status: "syncing", step: "Checking remote..." });
+			const remoteRef = await this.remote.readRef(branch);
+			if (remoteRef && remoteRef.oid !== localHead) await this.fetchObjects(branch, remoteRef);
+			const before: AheadBehind = remoteRef
+				? await this.git.aheadBehind(localHead, remoteRef.oid)
+				: { ahead: await this.git.countCommits([localHead]), behind: 0 };
+			if (!before.ahead && !before.behind) {
+				if (!options.quiet) new Notice("Already up to date");
+				this.refreshStatus();
+				return true;
+			}
+
+			const pushed = before.ahead ? await this.git.changedFiles(remoteRef?.oid ?? null, localHead) : [];
+			const pulled = remoteRef && before.behind ? await this.git.changedFiles(localHead, remoteRef.oid) : [];
+			// Hold the lock through the merge as well as the push when there is anything to push
+			if (before.ahead) lock = await this.acquireRemoteLock();
+			if (remoteRef && before.behind) {
+				await this.pullAndMerge(branch, remoteRef, lock);
+				if (this.pendingMerge) {
+					// Conflict modal open and holding the lock, push continues after resolution
+					lock = null;
+					return true;
+				}
+			}
+			// Only succeeds if the remote is still at the commit we just merged
+			if (lock) await this.uploadAndUpdateRef(lock, branch, remoteRef);
+
+			const after = await this.git.aheadBehind("HEAD", `refs/remotes/s3/${branch}`);
+			if (!options.quiet) new Notice(this.describeSync(before, after, pushed, pulled));
 			this.refreshStatus();
+			return true;
 		} catch (e) {
-			console.error("[remote-vault-sync] Push failed:", e);
-			new Notice(`Push failed: ${e instanceof Error ? e.message : String(e)}`);
-			this.updateStatus({ status: "error" });
+			return this.syncFailed("sync", e, options);
 		} finally {
+			await this.releaseRemoteLock(lock);
 			this.ribbonButtons?.setLocked(false);
 			this.locked = false;
 		}
 	}
 
-	async pull() {
-		if (this.locked) return;
-		if (!this.git || !this.s3fs) {
+	// e.g. "Pushed 2 commits (3 files), pulled 1 commit (1 file). Before: 2 ahead, 1 behind. Now: up to date"
+	private describeSync(before: AheadBehind, after: AheadBehind, pushed: string[], pulled: string[]): string {
+		const count = (n: number, noun: string) => `${n} ${noun}${n === 1 ? "" : "s"}`;
+		const moved: string[] = [];
+		if (before.ahead) moved.push(`pushed ${count(before.ahead, "commit")} (${count(pushed.length, "file")})`);
+		if (before.behind) moved.push(`pulled ${count(before.behind, "commit")} (${count(pulled.length, "file")})`);
+		const now = after.ahead || after.behind ? `${after.ahead} ahead, ${after.behind} behind` : "up to date";
+		const summary = moved.join(", ");
+		return `${summary.charAt(0).toUpperCase()}${summary.slice(1)}. Before: ${before.ahead} ahead, ${before.behind} behind. Now: ${now}`;
+	}
+
+	// Returns false if the pull failed
+	async pull(options: SyncOptions = {}): Promise<boolean> {
+		if (this.locked) return false;
+		if (!this.git || !this.remote) {
+			if (!options.quiet) new Notice("Not connected");
+			return false;
+		}
+
+		this.locked = true;
+		this.ribbonButtons?.setLocked(true);
+		try {
+			await this.unlockRemote();
+			// Check if already in sync
+			const branch = await this.git.currentBranch();
+			const localHead = await this.git.rev("HEAD");
+			const remoteRef = await this.remote.readRef(branch);
+			if (!remoteRef || localHead === remoteRef.oid) {
+				if (!options.quiet) new Notice("Already up to date");
+				return true;
+			}
+
+			await this.pullAndMerge(branch, remoteRef);
+			if (this.pendingMerge) return true; // Conflict modal open, the merge is pushed after resolution
+			if (!options.quiet) new Notice("Pulled from remote");
+			this.refreshStatus();
+			return true;
+		} catch (e) {
+			return this.syncFailed("pull", e, options);
+		} finally {
+			this.ribbonButtons?.setLocked(false);
+			this.locked = false;
+		}
+	}
+
+	// Fetch the remote branch into refs/remotes/s3/<branch> without merging, then show what a merge would bring in
+	async previewIncoming() {
+		if (!this.git || !this.remote) {
 			new Notice("Not connected");
 			return;
 		}
-
-		// Check if already in sync
-		const localHead = await this.git.rev("HEAD");
-		const remoteHead = await this.getRemoteHead();
-		if (localHead === remoteHead) {
-			new Notice("Already up to date");
+		if (this.locked || this.pendingMerge) {
+			new Notice("Wait for the current sync or merge to finish");
 			return;
 		}
 
 		this.locked = true;
 		this.ribbonButtons?.setLocked(true);
 		try {
-			const vaultPath = this.getVaultPath();
-			const tempDir = path.join(os.tmpdir(), "remote-vault-sync-remote");
-
-			// Download S3 .git to temp directory (skip lfs/objects)
-			this.updateStatus({ status: "syncing", step: "Pulling .git... 0%" });
-			await fs.rm(tempDir, { recursive: true, force: true });
-			await fs.mkdir(tempDir, { recursive: true });
-			const monitor = new TransferMonitor();
-			monitor.on("progress", (progress: TransferStatus) => {
-				const pct = progress.size.total > 0 ? Math.round(progress.size.current / progress.size.total * 100) : 0;
-				this.updateStatus({ status: "syncing", step: `Pulling .git... ${pct}%` });
-			});
-			await this.s3!.syncClient.sync(`s3://${this.s3!.bucket}/.git`, path.join(tempDir, ".git"), { monitor });
-
-			// Fetch and merge
-			this.updateStatus({ status: "syncing", step: "Merging..." });
+			await this.unlockRemote();
 			const branch = await this.git.currentBranch();
-			await Git.exec(vaultPath, ["fetch", tempDir, branch]);
-			await fs.rm(tempDir, { recursive: true, force: true });
+			const remoteRef = await this.remote.readRef(branch);
+			if (!remoteRef || remoteRef.oid === await this.git.rev("HEAD")) {
+				new Notice("No incoming changes");
+				return;
+			}
 
-			await Git.exec(vaultPath, ["merge", "FETCH_HEAD", "-m", "merge remote"]);
-			if (this.lfsAvailable) {
-				await this.fetchNeededLfsObjects();
-				await checkoutLfs(vaultPath);
+			await this.fetchObjects(branch, remoteRef);
+			this.updateStatus({ status: "syncing", step: "Comparing..." });
+			const commits = await this.git.log(500, `HEAD..${remoteRef.oid}`);
+			if (!commits.length) {
+				new Notice("No incoming changes");
+				return;
+			}
+			const diff = await this.git.diffSince("HEAD", remoteRef.oid);
+			const base = await this.git.mergeBase("HEAD", remoteRef.oid);
+			let conflicts = await this.git.mergeConflicts("HEAD", remoteRef.oid).catch((e: unknown) => {
+				console.error("[remote-vault-sync] Conflict check failed:", e);
+				return null;
+			});
+			// Leave out notes the merge resolves by itself
+			if (conflicts) {
+				const files = await Promise.all(conflicts.map(file => this.readConflict(file, [base, "HEAD", remoteRef.oid])));
+				conflicts = files.filter(file => this.mergeNote(file) === null).map(file => file.path);
 			}
+			// git refuses to merge over uncommitted changes to files the merge touches
+			const status = await this.git.status();
+			const incoming = new Set(await this.git.changedFiles("HEAD", remoteRef.oid));
+			const local = new Set([...status.staged, ...status.modified, ...status.deleted, ...status.untracked]);
+			const blocked = [...local].filter(file => incoming.has(file));
+
+			const modal = new Modal(this.app);
+			modal.titleEl.setText("Incoming changes");
+
+			// Make modal a flex column so React content can scroll
+			modal.modalEl.addClasses(["remote-vault-sync", "flex", "flex-col", "max-h-[80vh]", "w-[900px]"]);
+			modal.contentEl.addClasses(["flex", "flex-col", "flex-1", "min-h-0"]);
+
+			const root = createRoot(modal.contentEl);
+			root.render(createElement(IncomingModal, {
+				app: this.app,
+				branch,
+				commits,
+				diff,
+				conflicts,
+				blocked,
+				loadVersions: async (filename: string) => ({
+					old: await this.readVersion(base, filename),
+					new: await this.readVersion(remoteRef.oid, filename),
+				}),
+				onSelectCommit: (oid: string) => { void this.showCommitDiffModal(oid); },
+				onMerge: async () => {
+					await this.mergeIncoming(branch, remoteRef);
+					modal.close();
+				},
+				onCancel: () => modal.close(),
+			}));
+			modal.onClose = () => root.unmount();
+			modal.open();
+		} catch (e) {
+			console.error("[remote-vault-sync] Preview incoming failed:", e);
+			new Notice(`Failed to preview incoming changes: ${e instanceof Error ? e.message : String(e)}`);
+			this.updateStatus({ status: "error" });
+		} finally {
+			this.ribbonButtons?.setLocked(false);
+			this.locked = false;
+			this.refreshStatus();
+		}
+	}
 
-			new Notice("Pulled from remote");
+	// Merge exactly the previewed remote commit, even if the remote has moved on since;
+	// conflicts open the merge modal as they do during a sync
+	private async mergeIncoming(branch: string, remoteRef: RemoteRef) {
+		if (this.locked || this.pendingMerge) throw new Error("Wait for the current sync or merge to finish");
+		this.locked = true;
+		this.ribbonButtons?.setLocked(true);
+		try {
+			await this.pullAndMerge(branch, remoteRef);
+			if (!this.pendingMerge) new Notice("Merged incoming changes");
 		} catch (e) {
-			console.error("[remote-vault-sync] Pull failed:", e);
-			new Notice(`Pull failed: ${e instanceof Error ? e.message : String(e)}`);
+			console.error("[remote-vault-sync] Merge failed:", e);
+			void this.recordError(e);
+			throw e;
 		} finally {
 			this.ribbonButtons?.setLocked(false);
 			this.locked = false;
+			this.refreshStatus();
 		}
 	}
 
@@ -386,24 +806,7 @@ export default class VaultSync extends Plugin {
 			return;
 		}
 
-		// Show confirmation modal
-		const confirmed = await new Promise<boolean>((resolve) => {
-			const modal = new Modal(this.app);
-			modal.titleEl.setText("Discard changes?");
-			modal.contentEl.createEl("p", { text: "This will discard all local changes. Continue?" });
-			const btnContainer = modal.contentEl.createDiv({ cls: "modal-button-container" });
-			btnContainer.createEl("button", { text: "Cancel" }).addEventListener("click", () => {
-				modal.close();
-				resolve(false);
-			});
-			const yesBtn = btnContainer.createEl("button", { text: "Yes", cls: "mod-warning" });
-			yesBtn.addEventListener("click", () => {
-				modal.close();
-				resolve(true);
-			});
-			modal.open();
-		});
-
+		const confirmed = await this.confirm("Discard changes?", "This will discard all local changes. Continue?");
 		if (!confirmed) return;
 
 		this.locked = true;
@@ -423,22 +826,122 @@ export default class VaultSync extends Plugin {
 		}
 	}
 
-	async commit(message: string) {
-		if (!this.git) {
+	// Forcefully remove the remote lock, e.g. after a device crashed mid-push
+	async breakRemoteLock() {
+		if (!this.s3fs) {
 			new Notice("Not connected");
 			return;
 		}
 
+		try {
+			await this.unlockRemote();
+			const lock = new RemoteLock(this.s3fs, this.getLockOwner());
+			const holder = await lock.read();
+			if (!holder) {
+				new Notice("Remote is not locked");
+				return;
+			}
+
+			const expires = new Date(holder.expiresAt).toLocaleString();
+			const confirmed = await this.confirm("Break remote lock?",
+				`The remote is locked by ${holder.deviceName} (expires ${expires}). Breaking it while that device is pushing can corrupt the remote. Continue?`);
+			if (!confirmed) return;
+
+			await lock.break();
+			new Notice("Remote lock removed");
+		} catch (e) {
+			console.error("[remote-vault-sync] Break lock failed:", e);
+			new Notice(`Break lock failed: ${e instanceof Error ? e.message : String(e)}`);
+		}
+	}
+
+	// Commit every change, or only the files and hunks picked from `diff`; returns false if the commit failed
+	async commit(message: string, picked?: { diff: string; selection: HunkSelection }): Promise<boolean> {
+		if (!this.git) {
+			new Notice("Not connected");
+			return false;
+		}
+		if (this.locked || this.pendingMerge) {
+			new Notice("Wait for the current sync or merge to finish");
+			return false;
+		}
+
+		this.locked = true;
+		this.ribbonButtons?.setLocked(true);
 		try {
 			this.updateStatus({ status: "syncing", step: "Committing..." });
-			await this.git.addAll();
+			if (picked) await this.stageSelection(picked.diff, picked.selection);
+			else await this.git.addAll();
 			await this.git.commit(message);
 			new Notice("Committed");
 			this.refreshStatus();
+			return true;
 		} catch (e) {
 			console.error("[remote-vault-sync] Commit failed:", e);
 			new Notice(`Commit failed: ${e instanceof Error ? e.message : String(e)}`);
 			this.updateStatus({ status: "error" });
+			return false;
+		} finally {
+			this.ribbonButtons?.setLocked(false);
+			this.locked = false;
+		}
+	}
+
+	// Make the index hold exactly the picked changes: whole files with `git add`, some of a file's hunks
+	// with a partial patch. The rest stays in the working tree
+	private async stageSelection(diff: string, selection: HunkSelection) {
+		await this.git!.unstageAll();
+		const patches = new Map(parsePatch(diff).map(file => [file.path, file]));
+		for (const [file, hunks] of Object.entries(selection)) {
+			if (!hunks.some(Boolean)) continue;
+			const patch = patches.get(file);
+			if (patch?.hunks.length && !hunks.every(Boolean)) await this.git!.applyCached(selectHunks(patch, hunks));
+			else await this.git!.add(file);
+		}
+	}
+
+	// Commit panel: pick files and hunks, write the message, commit and optionally push
+	async showCommitModal() {
+		if (!this.git) {
+			new Notice("Not connected");
+			return;
+		}
+
+		try {
+			// No HEAD yet: every file is new and can only be picked whole
+			const diff = await this.git.rev("HEAD").then(() => this.git!.diffHead(), () => "");
+			const status = await this.git.status();
+			const modal = new Modal(this.app);
+			modal.titleEl.setText("Commit");
+
+			// Make modal a flex column so React content can scroll
+			modal.modalEl.addClasses(["remote-vault-sync", "flex", "flex-col", "max-h-[80vh]", "w-[900px]"]);
+			modal.contentEl.addClasses(["flex", "flex-col", "flex-1", "min-h-0"]);
+
+			const root = createRoot(modal.contentEl);
+			root.render(createElement(CommitModal, {
+				app: this.app,
+				diff,
+				// Files staged before the first commit have no diff against HEAD
+				status: { ...status, untracked: [...new Set([...status.untracked, ...status.staged])] },
+				templates: this.settings.commitTemplates.filter(t => t.trim()),
+				device: os.hostname(),
+				loadVersions: async (filename: string) => ({
+					old: await this.readVersion("HEAD", filename),
+					new: await this.app.vault.adapter.readBinary(filename).then(b => new Uint8Array(b), () => null),
+				}),
+				onCommit: async (message: string, selection: HunkSelection, push: boolean) => {
+					if (!(await this.commit(message, { diff, selection }))) return;
+					modal.close();
+					// Push only what was just committed; changes left out stay local
+					if (push) await this.push({ leaveUncommitted: true });
+				},
+			}));
+			modal.onClose = () => root.unmount();
+			modal.open();
+		} catch (e) {
+			console.error("[remote-vault-sync] Commit panel failed:", e);
+			new Notice(`Failed to open commit panel: ${e instanceof Error ? e.message : String(e)}`);
 		}
 	}
 
@@ -483,8 +986,13 @@ export default class VaultSync extends Plugin {
 			modal.modalEl.addClasses(["remote-vault-sync", "flex", "flex-col", "max-h-[80vh]"]);
 			modal.contentEl.addClasses(["overflow-auto", "flex-1"]);
 
+			// The staged version (untracked files have none) against the file on disk
+			const loadVersions = async (filename: string) => ({
+				old: await this.readVersion("", filename),
+				new: await this.app.vault.adapter.readBinary(filename).then(b => new Uint8Array(b), () => null),
+			});
 			const root = createRoot(modal.contentEl);
-			root.render(createElement(DiffModal, {app: this.app, diff, status}));
+			root.render(createElement(DiffModal, {app: this.app, diff, status, loadVersions}));
 			modal.onClose = () => root.unmount();
 			modal.open();
 		} catch (e) {
@@ -493,6 +1001,157 @@ export default class VaultSync extends Plugin {
 		}
 	}
 
+	// Commits that touched a file (the active one by default), with preview, diff and restore per version
+	async showFileHistory(file: TFile | null = this.app.workspace.getActiveFile()) {
+		if (!this.git) {
+			new Notice("Not connected");
+			return;
+		}
+		if (!file) {
+			new Notice("Open a file to see its history");
+			return;
+		}
+
+		try {
+			const revisions = await this.git.fileHistory(file.path);
+			const modal = new Modal(this.app);
+			modal.titleEl.setText(`History of ${file.path}`);
+
+			modal.modalEl.addClasses(["remote-vault-sync", "flex", "flex-col", "max-h-[80vh]", "w-[900px]"]);
+			modal.contentEl.addClasses(["flex", "flex-1", "min-h-0"]);
+
+			const root = createRoot(modal.contentEl);
+			root.render(createElement(FileHistoryModal, {
+				app: this.app,
+				path: file.path,
+				revisions,
+				loadVersion: (revision: FileRevision) => this.readFileAt(revision.commit.oid, revision.path),
+				loadDiff: (revision: FileRevision) => this.git!.diffFileAt(revision.commit.oid, revision.path, file.path),
+				onRestore: (revision: FileRevision) => this.restoreFileVersion(file, revision),
+			}));
+			modal.onClose = () => root.unmount();
+			modal.open();
+		} catch (e) {
+			console.error("[remote-vault-sync] File history failed:", e);
+			new Notice(`Failed to get file history: ${e instanceof Error ? e.message : String(e)}`);
+		}
+	}
+
+	// Contents of a file at a revision; LFS pointers are resolved to their object, downloading it if needed
+	private async readFileAt(rev: string, filePath: string): Promise<Uint8Array> {
+		return this.resolveLfsPointer(await this.git!.readFileAt(rev, filePath));
+	}
+
+	// The object an LFS pointer stands for, downloaded if needed; other content as-is
+	private async resolveLfsPointer(content: Buffer): Promise<Uint8Array> {
+		const pointer = this.lfsAvailable ? parseLfsPointer(content) : null;
+		if (!pointer) return content;
+
+		const gitDir = path.join(this.getVaultPath(), ".git");
+		const objectPath = lfsObjectPath(gitDir, pointer.oid);
+		if (!(await fs.access(objectPath).then(() => true, () => false))) {
+			if (!this.remote) throw new Error(`LFS object ${pointer.oid.slice(0, 12)} isn't on this device`);
+			await this.unlockRemote();
+			await this.remote.fetchLfsObjects(gitDir, [pointer.oid]);
+		}
+		return fs.readFile(objectPath).catch(() => {
+			throw new Error(`LFS object ${pointer.oid.slice(0, 12)} is missing locally and on the remote`);
+		});
+	}
+
+	// A file at a revision ("" for the staged version), or null if it doesn't exist there
+	private async readVersion(rev: string, filePath: string): Promise<Uint8Array | null> {
+		const content = await this.git!.readFileAt(rev, filePath).catch(() => null);
+		return content && this.resolveLfsPointer(content);
+	}
+
+	// Write an old version over the file's current content; the next commit records the restore
+	private async restoreFileVersion(file: TFile, revision: FileRevision) {
+		const date = new Date(revision.commit.author.timestamp * 1000).toLocaleString();
+		const confirmed = await this.confirm("Restore this version?",
+			`${file.path} will be replaced with its version from ${revision.commit.oid.slice(0, 7)} (${date}). Continue?`);
+		if (!confirmed) return;
+
+		try {
+			const content = await this.readFileAt(revision.commit.oid, revision.path);
+			await this.app.vault.modifyBinary(file, new Uint8Array(content).buffer);
+			new Notice(`Restored ${file.name} from ${revision.commit.oid.slice(0, 7)}`);
+			this.refreshStatus();
+		} catch (e) {
+			console.error("[remote-vault-sync] Restore version failed:", e);
+			new Notice(`Restore failed: ${e instanceof Error ? e.message : String(e)}`);
+		}
+	}
+
+	// Browse files deleted in past commits and restore them from their last contents
+	async showDeletedFiles() {
+		if (!this.git) {
+			new Notice("Not connected");
+			return;
+		}
+
+		try {
+			const files = await this.git.deletedFiles();
+			const folders = this.app.vault.getAllLoadedFiles()
+				.filter((f): f is TFolder => f instanceof TFolder && !f.isRoot())
+				.map(f => f.path)
+				.sort();
+			const modal = new Modal(this.app);
+			modal.titleEl.setText("Deleted files");
+
+			modal.modalEl.addClasses(["remote-vault-sync", "flex", "flex-col", "max-h-[80vh]", "w-[900px]"]);
+			modal.contentEl.addClasses(["flex", "flex-col", "flex-1", "min-h-0"]);
+
+			const root = createRoot(modal.contentEl);
+			root.render(createElement(DeletedFilesModal, {
+				files,
+				folders,
+				loadContent: (file: DeletedFile) => this.readFileAt(`${file.commit.oid}^`, file.path),
+				onRestore: (selection: DeletedFile[], folder: string) => this.restoreDeletedFiles(selection, folder),
+			}));
+			modal.onClose = () => root.unmount();
+			modal.open();
+		} catch (e) {
+			console.error("[remote-vault-sync] Deleted files failed:", e);
+			new Notice(`Failed to find deleted files: ${e instanceof Error ? e.message : String(e)}`);
+		}
+	}
+
+	// Write deleted files back from the commit before their deletion, at their original path or into
+	// `folder`. Never overwrites: an existing path gets a numbered name. Returns the files restored
+	private async restoreDeletedFiles(files: DeletedFile[], folder: string): Promise<DeletedFile[]> {
+		const restored: DeletedFile[] = [];
+		let lastTarget = "";
+		try {
+			for (const file of files) {
+				const content = await this.readFileAt(`${file.commit.oid}^`, file.path);
+				const target = await this.availablePath(normalizePath(folder ? `${folder}/${path.posix.basename(file.path)}` : file.path));
+				const dir = path.posix.dirname(target);
+				if (dir !== "." && !(await this.app.vault.adapter.exists(dir))) await this.app.vault.adapter.mkdir(dir);
+				await this.app.vault.adapter.writeBinary(target, new Uint8Array(content).buffer);
+				restored.push(file);
+				lastTarget = target;
+			}
+			new Notice(restored.length === 1 ? `Restored ${lastTarget}` : `Restored ${restored.length} files`);
+		} catch (e) {
+			console.error("[remote-vault-sync] Restore deleted files failed:", e);
+			new Notice(`Restore failed after ${restored.length} file(s): ${e instanceof Error ? e.message : String(e)}`);
+		} finally {
+			this.refreshStatus();
+		}
+		return restored;
+	}
+
+	// `filePath`, or "name 1.ext", "name 2.ext"... if it's taken
+	private async availablePath(filePath: string): Promise<string> {
+		const {dir, name, ext} = path.posix.parse(filePath);
+		let candidate = filePath;
+		for (let n = 1; await this.app.vault.adapter.exists(candidate); n++) {
+			candidate = path.posix.join(dir, `${name} ${n}${ext}`);
+		}
+		return candidate;
+	}
+
 	// Show diff from a specific commit to HEAD
 	async showCommitDiffModal(commit: string) {
 		if (!this.git) {
@@ -509,8 +1168,13 @@ export default class VaultSync extends Plugin {
 			modal.contentEl.addClasses(["overflow-auto", "flex-1"]);
 
 			const emptyStatus = {staged: [], modified: [], untracked: [], deleted: []};
+			// The file in the commit's first parent (none for a root commit) against the commit
+			const loadVersions = async (filename: string) => ({
+				old: await this.readVersion(`${commit}^`, filename),
+				new: await this.readVersion(commit, filename),
+			});
 			const root = createRoot(modal.contentEl);
-			root.render(createElement(DiffModal, {app: this.app, diff, status: emptyStatus}));
+			root.render(createElement(DiffModal, {app: this.app, diff, status: emptyStatus, loadVersions}));
 			modal.onClose = () => root.unmount();
 			modal.open();
 		} catch (e) {
@@ -519,6 +1183,224 @@ export default class VaultSync extends Plugin {
 		}
 	}
 
+	// Re-encrypt the remote under a new passphrase; an empty one turns encryption off
+	async changeEncryptionPassphrase() {
+		if (!this.s3 || !this.s3fs) {
+			new Notice("Not connected");
+			return;
+		}
+		if (this.locked) return;
+
+		const passphrase = await this.promptPassphrase();
+		if (passphrase === null) return;
+		const confirmed = await this.confirm("Change encryption passphrase?", passphrase
+			? "Every file on the remote will be downloaded and uploaded again, encrypted with the new passphrase. Other devices need the new passphrase to keep syncing. Continue?"
+			: "Every file on the remote will be downloaded and uploaded again without encryption. Continue?");
+		if (!confirmed) return;
+
+		this.locked = true;
+		this.ribbonButtons?.setLocked(true);
+		let lock: RemoteLock | null = null;
+		try {
+			this.updateStatus({ status: "syncing", step: "Checking passphrase..." });
+			const change = await PassphraseChange.prepare(this.s3fs, this.settings.encryptionPassphrase, passphrase);
+			this.s3.cipher = change.cipher;
+			this.unlocked = true;
+			lock = await this.acquireRemoteLock();
+			this.updateStatus({ status: "syncing", step: "Re-encrypting... 0%" });
+			await change.run(this.s3fs, this.progress("Re-encrypting"));
+
+			this.settings.encryptionPassphrase = passphrase;
+			await this.saveSettings();
+			new Notice(passphrase ? "Remote encrypted with the new passphrase" : "Remote encryption turned off");
+		} catch (e) {
+			console.error("[remote-vault-sync] Passphrase change failed:", e);
+			void this.recordError(e);
+			new Notice(`Changing the passphrase failed: ${e instanceof Error ? e.message : String(e)}`);
+			this.updateStatus({ status: "error" });
+			// Re-check against the remote's header on the next operation
+			this.unlocked = false;
+		} finally {
+			await this.releaseRemoteLock(lock);
+			this.ribbonButtons?.setLocked(false);
+			this.locked = false;
+			this.refreshStatus();
+		}
+	}
+
+	// Run the connection checklist against the current settings, reporting each check as it finishes
+	async testConnection(onUpdate: (results: CheckResult[]) => void): Promise<CheckResult[]> {
+		return runDiagnostics(this.settings.s3, this.settings.remotePath, this.getVaultPath(), onUpdate);
+	}
+
+	// Check the local repository and the remote for damage, offering a repair for each problem
+	async showHealthModal() {
+		if (!this.git || !this.remote) {
+			new Notice("Not connected");
+			return;
+		}
+		if (this.locked || this.pendingMerge) {
+			new Notice("Wait for the current sync or merge to finish");
+			return;
+		}
+
+		const modal = new Modal(this.app);
+		modal.titleEl.setText("Repository health");
+
+		// Make modal a flex column so React content can scroll
+		modal.modalEl.addClasses(["remote-vault-sync", "flex", "flex-col", "max-h-[80vh]"]);
+		modal.contentEl.addClasses(["overflow-auto", "flex-1"]);
+
+		const root = createRoot(modal.contentEl);
+		root.render(createElement(HealthModal, {
+			check: (onUpdate: (results: CheckResult[]) => void) => this.checkHealth(onUpdate),
+			onRepair: (repair: Repair) => this.runRepair(repair),
+		}));
+		modal.onClose = () => root.unmount();
+		modal.open();
+	}
+
+	private async checkHealth(onUpdate: (results: CheckResult[]) => void): Promise<CheckResult[]> {
+		await this.unlockRemote();
+		return checkHealth(this.remote!, this.getVaultPath(), async (run) => {
+			const lock = await this.acquireRemoteLock();
+			try {
+				await run(lock);
+			} finally {
+				await this.releaseRemoteLock(lock);
+			}
+		}, onUpdate);
+	}
+
+	// Repairs run with syncing paused so they don't race a push or pull
+	private async runRepair(repair: Repair) {
+		if (this.locked || this.pendingMerge) throw new Error("Wait for the current sync or merge to finish");
+		this.locked = true;
+		this.ribbonButtons?.setLocked(true);
+		try {
+			this.updateStatus({ status: "syncing", step: `${repair.label}...` });
+			await repair.run();
+			new Notice(`${repair.label}: done`);
+		} catch (e) {
+			console.error("[remote-vault-sync] Repair failed:", e);
+			void this.recordError(e);
+			throw e;
+		} finally {
+			this.ribbonButtons?.setLocked(false);
+			this.locked = false;
+			this.refreshStatus();
+		}
+	}
+
+	// List vault locations (remote paths) that already hold a repo in the configured bucket
+	async listRemoteVaults(): Promise<string[]> {
+		const root = new S3FS(new S3(this.settings.s3));
+		return root.findRepos();
+	}
+
+	// Report a failed push/pull/sync; ones the user started are queued to retry later
+	private async syncFailed(kind: OperationKind, e: unknown, options: SyncOptions): Promise<false> {
+		const label = kind.charAt(0).toUpperCase() + kind.slice(1);
+		const message = e instanceof Error ? e.message : String(e);
+		console.error(`[remote-vault-sync] ${label} failed:`, e);
+		this.updateStatus({ status: "error" });
+		await this.recordError(e);
+		if (options.quiet) return false;
+		if (isWrongPassphrase(e)) {
+			// Retrying can't help until the passphrase in settings is fixed
+			new Notice(`${label} failed: ${message}`);
+		} else {
+			await this.queue.fail(kind, message);
+			this.scheduleQueueRetry();
+			new Notice(`${label} failed: ${message}\nQueued to retry`);
+		}
+		return false;
+	}
+
+	// Remember when a push/pull last succeeded (clears the last error)
+	private async recordSync(direction: "push" | "pull") {
+		const history = this.settings.history;
+		if (direction === "push") history.lastPushAt = Date.now();
+		else history.lastPullAt = Date.now();
+		history.lastError = null;
+		await this.saveSettings();
+		this.renderStatusBar();
+	}
+
+	private async recordError(e: unknown) {
+		// A wrong passphrase, or one changed on another device, is only fixed by the one in settings
+		if (isWrongPassphrase(e)) this.relockRemote();
+		this.settings.history.lastError = { message: e instanceof Error ? e.message : String(e), at: Date.now() };
+		await this.saveSettings();
+		this.renderStatusBar();
+	}
+
+	// Show a Yes/Cancel confirmation modal
+	private confirm(title: string, message: string): Promise<boolean> {
+		return new Promise<boolean>((resolve) => {
+			const modal = new Modal(this.app);
+			modal.titleEl.setText(title);
+			modal.contentEl.createEl("p", { text: message });
+			const btnContainer = modal.contentEl.createDiv({ cls: "modal-button-container" });
+			btnContainer.createEl("button", { text: "Cancel" }).addEventListener("click", () => {
+				modal.close();
+				resolve(false);
+			});
+			const yesBtn = btnContainer.createEl("button", { text: "Yes", cls: "mod-warning" });
+			yesBtn.addEventListener("click", () => {
+				modal.close();
+				resolve(true);
+			});
+			modal.open();
+		});
+	}
+
+	// Ask for a new passphrase twice; null if cancelled. Empty means no encryption
+	private promptPassphrase(): Promise<string | null> {
+		return new Promise<string | null>((resolve) => {
+			const modal = new Modal(this.app);
+			let result: string | null = null;
+			modal.titleEl.setText("New encryption passphrase");
+			modal.contentEl.createEl("p", { text: "Leave both fields empty to store the remote unencrypted. The passphrase can't be recovered if it's lost." });
+			const first = modal.contentEl.createEl("input", { type: "password", placeholder: "New passphrase" });
+			const second = modal.contentEl.createEl("input", { type: "password", placeholder: "Repeat passphrase" });
+			const error = modal.contentEl.createEl("p", { cls: "mod-warning" });
+			const btnContainer = modal.contentEl.createDiv({ cls: "modal-button-container" });
+			btnContainer.createEl("button", { text: "Cancel" }).addEventListener("click", () => modal.close());
+			btnContainer.createEl("button", { text: "Continue", cls: "mod-cta" }).addEventListener("click", () => {
+				if (first.value !== second.value) {
+					error.setText("Passphrases don't match");
+					return;
+				}
+				result = first.value;
+				modal.close();
+			});
+			modal.onClose = () => resolve(result);
+			modal.open();
+		});
+	}
+
+	private getLockOwner() {
+		return { deviceId: this.settings.deviceId, deviceName: os.hostname() };
+	}
+
+	// Take the remote write lock before changing anything on the remote
+	private async acquireRemoteLock(): Promise<RemoteLock> {
+		this.updateStatus({ status: "syncing", step: "Acquiring remote lock..." });
+		const lock = new RemoteLock(this.s3fs!, this.getLockOwner());
+		await lock.acquire();
+		return lock;
+	}
+
+	private async releaseRemoteLock(lock: RemoteLock | null) {
+		try {
+			await lock?.release();
+		} catch (e) {
+			// Lease expires on its own; don't fail the operation over it
+			console.error("[remote-vault-sync] Lock release failed:", e);
+		}
+	}
+
 	private async ensureGitAttributes() {
 		if (await this.app.vault.adapter.exists(".gitattributes")) return;
 		await this.app.vault.adapter.write(".gitattributes", getGitattributes(this.lfsAvailable));
@@ -526,116 +1408,128 @@ export default class VaultSync extends Plugin {
 
 	// Fetch only the LFS objects needed for current HEAD
 	private async fetchNeededLfsObjects() {
-		if (!this.s3fs || !this.lfsAvailable) return;
+		if (!this.remote || !this.lfsAvailable) return;
 		const vaultPath = this.getVaultPath();
+		await this.remote.fetchLfsObjects(path.join(vaultPath, ".git"), await getLfsOids(vaultPath));
+	}
 
-		const oids = await getLfsOids(vaultPath);
-		for (const oid of oids) {
-			// OID path: .git/lfs/objects/AB/CD/ABCD...
-			const s3Key = `.git/lfs/objects/${oid.slice(0, 2)}/${oid.slice(2, 4)}/${oid}`;
-			const localPath = path.join(vaultPath, s3Key);
-
-			// Skip if already exists locally
-			const exists = await fs.access(localPath).then(() => true).catch(() => false);
-			if (exists) continue;
-
-			// Download from S3
-			if (await this.s3fs.exists(s3Key)) {
-				const content = await this.s3fs.readFile(s3Key);
-				await fs.mkdir(path.dirname(localPath), { recursive: true });
-				await fs.writeFile(localPath, content);
-			}
-		}
+	// Status bar progress callback rendering "<label>... N%"
+	private progress(label: string) {
+		return (done: number, total: number) => {
+			const pct = total > 0 ? Math.round(done / total * 100) : 0;
+			this.updateStatus({ status: "syncing", step: `${label}... ${pct}%` });
+		};
 	}
 
-	// Read remote HEAD SHA from S3
-	private async getRemoteHead(): Promise<string | null> {
-		if (!this.s3fs) return null;
-		try {
-			const headContent = (await this.s3fs.readFile(".git/HEAD")).toString().trim();
-			// HEAD is either a ref (ref: refs/heads/main) or a SHA
-			if (headContent.startsWith("ref: ")) {
-				const ref = headContent.slice(5);
-				const sha = (await this.s3fs.readFile(`.git/${ref}`)).toString().trim();
-				return sha;
-			}
-			return headContent;
-		} catch {
-			return null;
-		}
+	// Download the objects behind a remote ref and record it as refs/remotes/s3/<branch>
+	private async fetchObjects(branch: string, remoteRef: RemoteRef) {
+		if (!this.git || !this.remote) return;
+		this.updateStatus({ status: "syncing", step: "Pulling .git... 0%" });
+		const gitDir = path.join(this.getVaultPath(), ".git");
+		await this.remote.fetchRefs(gitDir, [remoteRef.oid], this.progress("Pulling .git"));
+		await this.git.updateRef(`refs/remotes/s3/${branch}`, remoteRef.oid);
 	}
 
-	// Fetch remote and merge, showing conflict modal if needed
-	private async pullAndMerge() {
-		if (!this.git || !this.s3fs) return;
+	// Upload objects first, then move the remote branch ref only if it still matches `expected`
+	private async uploadAndUpdateRef(lock: RemoteLock, branch: string, expected: RemoteRef | null) {
+		if (!this.git || !this.remote) return;
+		const vaultPath = this.getVaultPath();
+		const gitDir = path.join(vaultPath, ".git");
+		const head = await this.git.rev("HEAD");
 
-		const preHead = await this.git.rev("HEAD");
-		const tempDir = path.join(os.tmpdir(), "remote-vault-sync-remote");
+		if (this.lfsAvailable) {
+			// Prune unreferenced LFS objects before push
+			await pruneLfs(vaultPath);
+			this.updateStatus({ status: "syncing", step: "Pushing LFS... 0%" });
+			await this.remote.pushLfsObjects(gitDir, this.progress("Pushing LFS"));
+		}
 
-		// Download remote .git to temp directory (skip lfs/objects)
-		this.updateStatus({ status: "syncing", step: "Pulling .git... 0%" });
-		await fs.rm(tempDir, { recursive: true, force: true });
-		await fs.mkdir(tempDir, { recursive: true });
-		const monitor = new TransferMonitor();
-		monitor.on("progress", (progress: TransferStatus) => {
-			const pct = progress.size.total > 0 ? Math.round(progress.size.current / progress.size.total * 100) : 0;
-			this.updateStatus({ status: "syncing", step: `Pulling .git... ${pct}%` });
-		});
-		await this.s3!.syncClient.sync(`s3://${this.s3!.bucket}/.git`, path.join(tempDir, ".git"), { monitor });
+		this.updateStatus({ status: "syncing", step: "Pushing .git... 0%" });
+		if (!(await this.remote.pushRef(gitDir, branch, head, expected, lock, this.progress("Pushing .git")))) {
+			throw new Error("Remote changed during push, pull and try again");
+		}
+		await this.git.updateRef(`refs/remotes/s3/${branch}`, head);
+		await this.recordSync("push");
+	}
+
+	// Fetch remote and merge, showing conflict modal if needed; it takes over `lock` until the merge is resolved
+	private async pullAndMerge(branch: string, remoteRef: RemoteRef, lock: RemoteLock | null = null) {
+		if (!this.git || !this.remote) return;
 
-		// Fetch remote commits into local repo
+		const preHead = await this.git.rev("HEAD");
 		const vaultPath = this.getVaultPath();
-		const branch = await this.git.currentBranch();
-		await Git.exec(vaultPath, ["fetch", tempDir, branch]);
-		await fs.rm(tempDir, { recursive: true, force: true });
+		await this.fetchObjects(branch, remoteRef);
 
 		// Merge remote into local
 		this.updateStatus({ status: "syncing", step: "Merging..." });
 		try {
-			await Git.exec(vaultPath, ["merge", "FETCH_HEAD", "-m", "merge remote"]);
-			if (this.lfsAvailable) {
-				await this.fetchNeededLfsObjects();
-				await checkoutLfs(vaultPath);
-			}
+			await Git.exec(vaultPath, ["merge", remoteRef.oid, "-m", "merge remote"]);
 		} catch (e) {
 			// Check for conflicts
 			const out = await Git.exec(vaultPath, ["diff", "--name-only", "--diff-filter=U"]);
 			const conflicts = out.trim() ? out.trim().split("\n") : [];
-			if (conflicts.length) {
-				await this.showMergeModal(conflicts, preHead);
+			if (!conflicts.length) throw e;
+
+			// Notes whose changes don't overlap are merged here; only the rest need the merge dialog
+			const files = await Promise.all(conflicts.map(file => this.readConflict(file)));
+			const left: ConflictFile[] = [];
+			for (const file of files) {
+				const merged = this.mergeNote(file);
+				if (merged === null) {
+					left.push(file);
+					continue;
+				}
+				await this.app.vault.adapter.write(file.path, merged);
+				await this.git.add(file.path);
+			}
+			if (left.length) {
+				await this.showMergeModal(left, preHead, remoteRef, lock);
 				return;
 			}
-			throw e;
+			await this.git.commit("merge remote");
 		}
+		if (this.lfsAvailable) {
+			await this.fetchNeededLfsObjects();
+			await checkoutLfs(vaultPath);
+		}
+		await this.recordSync("pull");
 	}
 
-	// Show merge conflict resolution modal
-	private async showMergeModal(conflicts: string[], preHead: string) {
-		if (!this.git) return;
+	// A conflicted file's base, local and remote versions, from stages 1-3 of the index by default;
+	// a missing version means the file was added or deleted on that side
+	private async readConflict(file: string, revs = [":1", ":2", ":3"]): Promise<ConflictFile> {
+		const read = (rev: string) => this.git!.readFileAt(rev, file).catch(() => null);
+		const [base, ours, theirs] = await Promise.all(revs.map(read));
+		const binary = [base, ours, theirs].some(c => c && (c.includes(0) || parseLfsPointer(c)));
+		const text = (c?: Buffer | null) => c ? c.toString("utf8") : null;
+		return { path: file, base: text(base), ours: text(ours), theirs: text(theirs), binary };
+	}
 
-		// Read conflict content in parallel
-		const entries = await Promise.all(
-			conflicts.map(async file => {
-				const content = await this.app.vault.adapter.read(file).catch(() => "[Could not read file]");
-				return [file, content] as const;
-			})
-		);
-		const conflictContents: Record<string, string> = Object.fromEntries(entries);
+	// A note merged by frontmatter key and heading section, or null when its changes overlap
+	private mergeNote(file: ConflictFile): string | null {
+		if (!/\.md$/i.test(file.path) || file.binary || file.ours === null || file.theirs === null) return null;
+		const chunks = mergeMarkdown(file.base ?? "", file.ours, file.theirs);
+		return chunks.some(c => c.kind === "conflict") ? null : mergedText(chunks, []);
+	}
+
+	// Show the merge editor over the conflicted files' base, local and remote versions
+	private async showMergeModal(files: ConflictFile[], preHead: string, remoteRef: RemoteRef, lock: RemoteLock | null) {
+		if (!this.git) return;
 
 		const modal = new Modal(this.app);
 		modal.titleEl.setText("Merge conflicts");
 
 		// Make modal a flex column so React content can scroll
-		modal.modalEl.addClasses(["remote-vault-sync", "flex", "flex-col", "max-h-[80vh]", "w-[800px]"]);
-		modal.contentEl.addClasses(["overflow-auto", "flex-1"]);
+		modal.modalEl.addClasses(["remote-vault-sync", "flex", "flex-col", "max-h-[80vh]", "w-[900px]"]);
+		modal.contentEl.addClasses(["flex", "flex-col", "flex-1", "min-h-0"]);
 
-		this.pendingMerge = { preHead, modal };
+		this.pendingMerge = { preHead, remoteRef, modal, lock };
 
 		const root = createRoot(modal.contentEl);
 		root.render(createElement(MergeModal, {
-			conflicts,
-			conflictContents,
-			onResolve: (resolutions) => { void this.resolveMerge(resolutions, conflicts); },
+			app: this.app,
+			files,
+			onResolve: (resolutions) => { void this.resolveMerge(resolutions, files.map(f => f.path)); },
 			onCancel: () => { modal.close(); },
 		}));
 		modal.onClose = () => {
@@ -649,49 +1543,56 @@ export default class VaultSync extends Plugin {
 
 	// Apply merge resolutions and complete merge
 	private async resolveMerge(resolutions: Record<string, Resolution>, conflicts: string[]) {
-		if (!this.git) return;
+		if (!this.git || this.locked) return;
 
+		this.locked = true;
+		this.ribbonButtons?.setLocked(true);
+		let lock: RemoteLock | null = null;
 		try {
 			this.updateStatus({ status: "syncing", step: "Applying resolutions..." });
 			const vaultPath = this.getVaultPath();
 
 			for (const file of conflicts) {
 				const resolution = resolutions[file];
-				if (resolution === "ours") {
-					await Git.exec(vaultPath, ["checkout", "--ours", file]);
-				} else if (resolution === "theirs") {
-					await Git.exec(vaultPath, ["checkout", "--theirs", file]);
+				if (!resolution) throw new Error(`No resolution for ${file}`);
+				if (typeof resolution === "object") {
+					await this.app.vault.adapter.write(file, resolution.content);
+					await this.git.add(file);
+					continue;
+				}
+				// Keeping the side that deleted the file removes it
+				const kept = await this.git.readFileAt(resolution === "ours" ? ":2" : ":3", file).then(() => true, () => false);
+				if (kept) {
+					await Git.exec(vaultPath, ["checkout", `--${resolution}`, "--", file]);
+					await this.git.add(file);
 				} else {
-					// "both" - keep file as-is but strip conflict markers
-					const content = await this.app.vault.adapter.read(file);
-					const cleaned = this.stripConflictMarkers(content);
-					await this.app.vault.adapter.write(file, cleaned);
+					await Git.exec(vaultPath, ["rm", "-q", "--", file]);
 				}
-				await this.git.add(file);
 			}
 
 			await this.git.commit("resolve merge conflicts");
 
 			// Clear pendingMerge before closing to prevent cancelMerge from running
+			const remoteRef = this.pendingMerge?.remoteRef ?? null;
 			const modalToClose = this.pendingMerge?.modal;
+			lock = this.pendingMerge?.lock ?? null;
 			this.pendingMerge = null;
 			modalToClose?.close();
 
-			// Continue with push
-			if (this.lfsAvailable) await pruneLfs(vaultPath);
-			this.updateStatus({ status: "syncing", step: "Pushing .git... 0%" });
-			const monitor = new TransferMonitor();
-			monitor.on("progress", (progress: TransferStatus) => {
-				const pct = progress.size.total > 0 ? Math.round(progress.size.current / progress.size.total * 100) : 0;
-				this.updateStatus({ status: "syncing", step: `Pushing .git... ${pct}%` });
-			});
-			await this.s3!.syncClient.sync(path.join(vaultPath, ".git"), `s3://${this.s3!.bucket}/.git`, { monitor });
+			// Continue with push, under the lock held since the merge when there is one
+			lock ??= await this.acquireRemoteLock();
+			await this.uploadAndUpdateRef(lock, await this.git.currentBranch(), remoteRef);
 			new Notice("Pushed to remote");
 			this.refreshStatus();
 		} catch (e) {
 			console.error("[remote-vault-sync] Resolve failed:", e);
+			void this.recordError(e);
 			new Notice(`Resolve failed: ${e instanceof Error ? e.message : String(e)}`);
 			this.updateStatus({ status: "error" });
+		} finally {
+			await this.releaseRemoteLock(lock);
+			this.ribbonButtons?.setLocked(false);
+			this.locked = false;
 		}
 	}
 
@@ -700,6 +1601,7 @@ export default class VaultSync extends Plugin {
 		if (!this.git || !this.pendingMerge) return;
 
 		// Clear first to prevent re-entry from onClose
+		const lock = this.pendingMerge.lock;
 		this.pendingMerge = null;
 
 		try {
@@ -714,14 +1616,8 @@ export default class VaultSync extends Plugin {
 			console.error("[remote-vault-sync] Cancel merge failed:", e);
 			new Notice(`Cancel failed: ${e instanceof Error ? e.message : String(e)}`);
 			this.updateStatus({ status: "error" });
+		} finally {
+			await this.releaseRemoteLock(lock);
 		}
 	}
-
-	// Strip conflict markers, keeping both versions concatenated
-	private stripConflictMarkers(content: string): string {
-		return content
-			.replace(/^<<<<<<< HEAD\n/gm, "")
-			.replace(/^=======\n/gm, "")
-			.replace(/^>>>>>>> .*\n/gm, "");
-	}
 }
@@ -2,7 +2,11 @@ import {App, PluginSettingTab} from "obsidian";
 import {createRoot, Root} from "react-dom/client";
 import { useState, useRef, useCallback } from "react";
 import VaultSync from "./main";
-import { S3Config } from "./utils/s3";
+import { S3Config, S3Provider, S3_PROVIDER_PRESETS, ServerSideEncryptionMode, SSE_MODE_LABELS } from "./utils/s3";
+import { QueuedOperation } from "./utils/queue";
+import { CredentialsMode, CREDENTIALS_MODE_LABELS } from "./utils/credentials";
+import { CheckResult } from "./utils/diagnostics";
+import { ConnectionChecklist } from "./ui/ConnectionChecklist";
 
 function debounce<A extends unknown[]>(fn: (...args: A) => void, ms: number): (...args: A) => void {
 	let timeout: ReturnType<typeof setTimeout>;
@@ -12,18 +16,78 @@ function debounce<A extends unknown[]>(fn: (...args: A) => void, ms: number): (.
 	};
 }
 
+export interface AutoSyncSettings {
+	enabled: boolean;
+	intervalMinutes: number;  // 0 = no periodic sync
+	idleSeconds: number;      // sync after edits once the vault is idle this long, 0 = off
+	onStartup: boolean;
+	onQuit: boolean;
+	paused: boolean;          // toggled from the status bar
+}
+
+// Outcome of recent syncs, persisted so the status bar popover survives restarts
+export interface SyncHistory {
+	lastPushAt: number | null;
+	lastPullAt: number | null;
+	lastError: { message: string; at: number } | null;
+}
+
 export interface VaultSyncSettings {
 	s3: S3Config;
+	remotePath: string;  // folder inside the bucket holding this vault's .git
+	encryptionPassphrase: string;  // empty = remote isn't encrypted
+	deviceId: string;    // identifies this install as remote lock owner
+	autoSync: AutoSyncSettings;
+	history: SyncHistory;
+	queue: QueuedOperation[];  // failed operations waiting to be retried
+	commitTemplates: string[];  // commit panel message templates, see renderTemplate
 	devMode: boolean;
 }
 
 export const DEFAULT_SETTINGS: VaultSyncSettings = {
 	s3: {
+		provider: "aws",
 		accessKeyId: "",
 		secretAccessKey: "",
+		credentials: {
+			mode: "static",
+			sessionToken: "",
+			profile: "",
+			credentialProcess: "",
+			roleArn: "",
+			externalId: "",
+			webIdentityTokenFile: "",
+		},
 		region: "",
 		bucket: "",
+		endpoint: "",
+		forcePathStyle: false,
+		caBundle: "",
+		rejectUnauthorized: true,
+		serverSideEncryption: {
+			mode: "none",
+			kmsKeyId: "",
+			customerKey: "",
+		},
+	},
+	remotePath: "",
+	encryptionPassphrase: "",
+	deviceId: "",
+	autoSync: {
+		enabled: false,
+		intervalMinutes: 10,
+		idleSeconds: 60,
+		onStartup: true,
+		onQuit: true,
+		paused: false,
 	},
+	history: {
+		lastPushAt: null,
+		lastPullAt: null,
+		lastError: null,
+	},
+	queue: [],
+	commitTemplates: ["Update {{files}}", "{{device}} {{date}} {{time}}"],
 	devMode: false,
 };
 
@@ -36,6 +100,10 @@ type Tab = (typeof tabs)[number]["key"];
 const VaultSyncSettingsUI = ({plugin}: {plugin: VaultSync}) => {
 	const [tab, setTab] = useState<Tab>("config");
 	const [settings, setSettings] = useState(plugin.settings);
+	const [remoteVaults, setRemoteVaults] = useState<string[] | null>(null);
+	const [browseError, setBrowseError] = useState<string | null>(null);
+	const [checks, setChecks] = useState<CheckResult[] | null>(null);
+	const [testing, setTesting] = useState(false);
 
 	const debouncedSave = useRef(debounce(() => void plugin.saveSettings(), 300)).current;
 
@@ -45,6 +113,45 @@ const VaultSyncSettingsUI = ({plugin}: {plugin: VaultSync}) => {
 		debouncedSave();
 	}, [debouncedSave]);
 
+	const updateAutoSync = useCallback((mutate: () => void) => {
+		update(mutate);
+		plugin.applyAutoSyncSettings();
+	}, [update]);
+
+	const browseRemoteVaults = async () => {
+		setBrowseError(null);
+		setRemoteVaults(null);
+		try {
+			setRemoteVaults(await plugin.listRemoteVaults());
+		} catch (e) {
+			setBrowseError(e instanceof Error ? e.message : String(e));
+		}
+	};
+
+	const testConnection = async () => {
+		setTesting(true);
+		setChecks([]);
+		try {
+			await plugin.testConnection(setChecks);
+		} finally {
+			setTesting(false);
+		}
+	};
+
+	// Switching provider fills in its endpoint/region/path-style defaults
+	const selectProvider = (provider: S3Provider) => update(() => {
+		const preset = S3_PROVIDER_PRESETS[provider];
+		const s3 = plugin.settings.s3;
+		s3.provider = provider;
+		s3.endpoint = preset.endpoint;
+		s3.region = preset.region;
+		s3.forcePathStyle = preset.forcePathStyle;
+	});
+
+	const credentials = settings.s3.credentials;
+	// Assume-role falls back to the key pair when no source profile is set
+	const usesKeyPair = credentials.mode === "static" || credentials.mode === "session" || (credentials.mode === "assume-role" && !credentials.profile);
+
 	return (
 		<div className="remote-vault-sync">
 			<div className="flex w-full gap-1 mb-4">
@@ -62,21 +169,121 @@ const VaultSyncSettingsUI = ({plugin}: {plugin: VaultSync}) => {
 			{tab === "config" && (
 				<div className="flex flex-col gap-4 px-2">
 					<div className="flex justify-between items-center">
-						<span>Access key ID</span>
-						<input
-							type="text"
-							value={settings.s3.accessKeyId}
-							onChange={(e) => update(() => { plugin.settings.s3.accessKeyId = e.target.value; })}
-						/>
+						<span>Provider</span>
+						<select
+							className="dropdown"
+							value={settings.s3.provider}
+							onChange={(e) => selectProvider(e.target.value as S3Provider)}
+						>
+							{(Object.keys(S3_PROVIDER_PRESETS) as S3Provider[]).map((p) => (
+								<option key={p} value={p}>{S3_PROVIDER_PRESETS[p].label}</option>
+							))}
+						</select>
 					</div>
 					<div className="flex justify-between items-center">
-						<span>Secret access key</span>
-						<input
-							type="password"
-							value={settings.s3.secretAccessKey}
-							onChange={(e) => update(() => { plugin.settings.s3.secretAccessKey = e.target.value; })}
-						/>
+						<span>Credentials</span>
+						<select
+							className="dropdown"
+							value={credentials.mode}
+							onChange={(e) => update(() => { plugin.settings.s3.credentials.mode = e.target.value as CredentialsMode; })}
+						>
+							{(Object.keys(CREDENTIALS_MODE_LABELS) as CredentialsMode[]).map((m) => (
+								<option key={m} value={m}>{CREDENTIALS_MODE_LABELS[m]}</option>
+							))}
+						</select>
 					</div>
+					{usesKeyPair && (
+						<>
+							<div className="flex justify-between items-center">
+								<span>Access key ID</span>
+								<input
+									type="text"
+									value={settings.s3.accessKeyId}
+									onChange={(e) => update(() => { plugin.settings.s3.accessKeyId = e.target.value; })}
+								/>
+							</div>
+							<div className="flex justify-between items-center">
+								<span>Secret access key</span>
+								<input
+									type="password"
+									value={settings.s3.secretAccessKey}
+									onChange={(e) => update(() => { plugin.settings.s3.secretAccessKey = e.target.value; })}
+								/>
+							</div>
+						</>
+					)}
+					{credentials.mode === "session" && (
+						<div className="flex justify-between items-center">
+							<span>Session token</span>
+							<input
+								type="password"
+								value={credentials.sessionToken}
+								onChange={(e) => update(() => { plugin.settings.s3.credentials.sessionToken = e.target.value; })}
+							/>
+						</div>
+					)}
+					{(credentials.mode === "profile" || credentials.mode === "assume-role") && (
+						<div className="flex justify-between items-center">
+							<div className="flex flex-col">
+								<span>Profile</span>
+								<span className="text-xs text-(--text-muted)">
+									{credentials.mode === "profile" ? "From ~/.aws/credentials or ~/.aws/config" : "Credentials used to assume the role. Empty = the access key above"}
+								</span>
+							</div>
+							<input
+								type="text"
+								placeholder={credentials.mode === "profile" ? "default" : ""}
+								value={credentials.profile}
+								onChange={(e) => update(() => { plugin.settings.s3.credentials.profile = e.target.value; })}
+							/>
+						</div>
+					)}
+					{credentials.mode === "process" && (
+						<div className="flex justify-between items-center">
+							<div className="flex flex-col">
+								<span>Command</span>
+								<span className="text-xs text-(--text-muted)">Prints credentials as JSON, like an AWS credential_process</span>
+							</div>
+							<input
+								type="text"
+								className="font-mono"
+								value={credentials.credentialProcess}
+								onChange={(e) => update(() => { plugin.settings.s3.credentials.credentialProcess = e.target.value; })}
+							/>
+						</div>
+					)}
+					{(credentials.mode === "assume-role" || credentials.mode === "web-identity") && (
+						<div className="flex justify-between items-center">
+							<span>Role ARN</span>
+							<input
+								type="text"
+								placeholder="arn:aws:iam::123456789012:role/vault-sync"
+								value={credentials.roleArn}
+								onChange={(e) => update(() => { plugin.settings.s3.credentials.roleArn = e.target.value; })}
+							/>
+						</div>
+					)}
+					{credentials.mode === "assume-role" && (
+						<div className="flex justify-between items-center">
+							<span>External ID</span>
+							<input
+								type="text"
+								placeholder="None"
+								value={credentials.externalId}
+								onChange={(e) => update(() => { plugin.settings.s3.credentials.externalId = e.target.value; })}
+							/>
+						</div>
+					)}
+					{credentials.mode === "web-identity" && (
+						<div className="flex justify-between items-center">
+							<span>Web identity token file</span>
+							<input
+								type="text"
+								value={credentials.webIdentityTokenFile}
+								onChange={(e) => update(() => { plugin.settings.s3.credentials.webIdentityTokenFile = e.target.value; })}
+							/>
+						</div>
+					)}
 					<div className="flex justify-between items-center">
 						<span>Region</span>
 						<input
@@ -93,12 +300,186 @@ const VaultSyncSettingsUI = ({plugin}: {plugin: VaultSync}) => {
 							onChange={(e) => update(() => { plugin.settings.s3.bucket = e.target.value; })}
 						/>
 					</div>
-					<button className="bg-(--interactive-accent) text-(--text-on-accent) cursor-pointer self-end" onClick={() => void plugin.connect()}>Connect</button>
+					<div className="flex justify-between items-center">
+						<span>Remote path</span>
+						<div className="flex gap-2 items-center">
+							<input
+								type="text"
+								placeholder="Bucket root"
+								value={settings.remotePath}
+								onChange={(e) => update(() => { plugin.settings.remotePath = e.target.value; })}
+							/>
+							<button className="cursor-pointer" onClick={() => void browseRemoteVaults()}>Browse</button>
+						</div>
+					</div>
+					{browseError && <div className="text-xs text-red-500 self-end">{browseError}</div>}
+					{remoteVaults && (
+						<div className="flex flex-col gap-1 self-end text-xs">
+							{!remoteVaults.length && <span className="text-(--text-muted)">No vaults found in this bucket</span>}
+							{remoteVaults.map((p) => (
+								<button
+									key={p}
+									className={`cursor-pointer font-mono text-left ${p === settings.remotePath ? "bg-(--interactive-accent) text-(--text-on-accent)" : ""}`}
+									onClick={() => update(() => { plugin.settings.remotePath = p; })}
+								>
+									{p || "(bucket root)"}
+								</button>
+							))}
+						</div>
+					)}
+					<div className="flex justify-between items-center">
+						<div className="flex flex-col">
+							<span>Encryption passphrase</span>
+							<span className="text-xs text-(--text-muted)">Encrypts everything stored in S3. Empty = no encryption</span>
+						</div>
+						<input
+							type="password"
+							placeholder="None"
+							value={settings.encryptionPassphrase}
+							onChange={(e) => { update(() => { plugin.settings.encryptionPassphrase = e.target.value; }); plugin.relockRemote(); }}
+						/>
+					</div>
+					{settings.s3.provider !== "aws" && (
+						<>
+							<div className="flex justify-between items-center">
+								<span>Endpoint URL</span>
+								<input
+									type="text"
+									placeholder="https://s3.example.com"
+									value={settings.s3.endpoint}
+									onChange={(e) => update(() => { plugin.settings.s3.endpoint = e.target.value; })}
+								/>
+							</div>
+							<div className="flex justify-between items-center">
+								<span>Force path-style URLs</span>
+								<div
+									className={`checkbox-container cursor-pointer ${settings.s3.forcePathStyle ? "is-enabled" : ""}`}
+									onClick={() => update(() => { plugin.settings.s3.forcePathStyle = !plugin.settings.s3.forcePathStyle; })}
+								/>
+							</div>
+							<div className="flex justify-between items-center">
+								<span>Verify TLS certificates</span>
+								<div
+									className={`checkbox-container cursor-pointer ${settings.s3.rejectUnauthorized ? "is-enabled" : ""}`}
+									onClick={() => update(() => { plugin.settings.s3.rejectUnauthorized = !plugin.settings.s3.rejectUnauthorized; })}
+								/>
+							</div>
+							<div className="flex flex-col gap-1">
+								<span>Custom CA certificate (PEM)</span>
+								<textarea
+									className="font-mono text-xs h-24"
+									placeholder="-----BEGIN CERTIFICATE-----"
+									value={settings.s3.caBundle}
+									onChange={(e) => update(() => { plugin.settings.s3.caBundle = e.target.value; })}
+								/>
+							</div>
+						</>
+					)}
+					<div className="flex justify-between items-center">
+						<span>Server-side encryption</span>
+						<select
+							className="dropdown"
+							value={settings.s3.serverSideEncryption.mode}
+							onChange={(e) => update(() => { plugin.settings.s3.serverSideEncryption.mode = e.target.value as ServerSideEncryptionMode; })}
+						>
+							{(Object.keys(SSE_MODE_LABELS) as ServerSideEncryptionMode[]).map((m) => (
+								<option key={m} value={m}>{SSE_MODE_LABELS[m]}</option>
+							))}
+						</select>
+					</div>
+					{settings.s3.serverSideEncryption.mode === "sse-kms" && (
+						<div className="flex justify-between items-center">
+							<div className="flex flex-col">
+								<span>KMS key</span>
+								<span className="text-xs text-(--text-muted)">Key ID, ARN or alias. Empty = the aws/s3 managed key</span>
+							</div>
+							<input
+								type="text"
+								placeholder="aws/s3"
+								value={settings.s3.serverSideEncryption.kmsKeyId}
+								onChange={(e) => update(() => { plugin.settings.s3.serverSideEncryption.kmsKeyId = e.target.value; })}
+							/>
+						</div>
+					)}
+					{settings.s3.serverSideEncryption.mode === "sse-c" && (
+						<div className="flex justify-between items-center">
+							<div className="flex flex-col">
+								<span>Customer key</span>
+								<span className="text-xs text-(--text-muted)">Base64-encoded 256-bit key (openssl rand -base64 32). Objects can't be read without it</span>
+							</div>
+							<input
+								type="password"
+								value={settings.s3.serverSideEncryption.customerKey}
+								onChange={(e) => update(() => { plugin.settings.s3.serverSideEncryption.customerKey = e.target.value; })}
+							/>
+						</div>
+					)}
+					<div className="flex gap-2 self-end">
+						<button className="cursor-pointer" disabled={testing} onClick={() => void testConnection()}>
+							{testing ? "Testing..." : "Test connection"}
+						</button>
+						<button className="bg-(--interactive-accent) text-(--text-on-accent) cursor-pointer" onClick={() => void plugin.connect()}>Connect</button>
+					</div>
+					{checks && checks.length > 0 && <ConnectionChecklist results={checks} />}
 				</div>
 			)}
 
 			{tab === "options" && (
 				<div className="flex flex-col gap-4">
+					<div className="flex justify-between items-center">
+						<span>Auto-sync</span>
+						<div
+							className={`checkbox-container cursor-pointer ${settings.autoSync.enabled ? "is-enabled" : ""}`}
+							onClick={() => updateAutoSync(() => { plugin.settings.autoSync.enabled = !plugin.settings.autoSync.enabled; })}
+						/>
+					</div>
+					{settings.autoSync.enabled && (
+						<>
+							<div className="flex justify-between items-center">
+								<span>Sync every (minutes, 0 = off)</span>
+								<input
+									type="number"
+									min={0}
+									value={settings.autoSync.intervalMinutes}
+									onChange={(e) => updateAutoSync(() => { plugin.settings.autoSync.intervalMinutes = Math.max(0, Number(e.target.value) || 0); })}
+								/>
+							</div>
+							<div className="flex justify-between items-center">
+								<span>Sync after editing stops (seconds, 0 = off)</span>
+								<input
+									type="number"
+									min={0}
+									value={settings.autoSync.idleSeconds}
+									onChange={(e) => updateAutoSync(() => { plugin.settings.autoSync.idleSeconds = Math.max(0, Number(e.target.value) || 0); })}
+								/>
+							</div>
+							<div className="flex justify-between items-center">
+								<span>Sync on startup</span>
+								<div
+									className={`checkbox-container cursor-pointer ${settings.autoSync.onStartup ? "is-enabled" : ""}`}
+									onClick={() => update(() => { plugin.settings.autoSync.onStartup = !plugin.settings.autoSync.onStartup; })}
+								/>
+							</div>
+							<div className="flex justify-between items-center">
+								<span>Sync when closing Obsidian</span>
+								<div
+									className={`checkbox-container cursor-pointer ${settings.autoSync.onQuit ? "is-enabled" : ""}`}
+									onClick={() => update(() => { plugin.settings.autoSync.onQuit = !plugin.settings.autoSync.onQuit; })}
+								/>
+							</div>
+						</>
+					)}
+					<div className="flex flex-col gap-1">
+						<span>Commit message templates</span>
+						<span className="text-xs text-(--text-muted)">
+							One per line. {"{{files}}"}, {"{{count}}"}, {"{{device}}"}, {"{{date}}"} and {"{{time}}"} are filled in from the commit
+						</span>
+						<textarea
+							className="font-mono text-xs h-20"
+							value={settings.commitTemplates.join("\n")}
+							onChange={(e) => update(() => { plugin.settings.commitTemplates = e.target.value.split("\n"); })}
+						/>
+					</div>
 					<div className="flex justify-between items-center">
 						<span>Developer mode</span>
 						<div
@@ -0,0 +1,271 @@
+// Visual comparison of two versions of a binary file: images side by side, with a swipe slider,
+// as an onion skin or as a pixel difference; videos, PDFs and other files by their metadata
+import {useState, useEffect, useRef, ReactNode, SyntheticEvent} from "react";
+import {formatSize, pdfInfo, pixelDiff} from "../utils/binary-diff";
+
+export interface BinaryDiffProps {
+  path: string;
+  type: "video" | "image" | "pdf" | "text";  // as returned by getFileType
+  old: Uint8Array | null;  // null when the file didn't exist
+  new: Uint8Array | null;  // null when the file was deleted
+}
+
+type ImageMode = "side" | "swipe" | "onion" | "pixels";
+
+const IMAGE_MODE_LABELS: Record<ImageMode, string> = {
+  side: "Side by side",
+  swipe: "Swipe",
+  onion: "Onion skin",
+  pixels: "Pixel difference",
+};
+
+// One metadata row: label, old value, new value
+type MetadataRow = [string, string | undefined, string | undefined];
+
+interface MediaSize {
+  width: number;
+  height: number;
+  duration?: number;  // seconds, for videos
+}
+
+// Object URL for the bytes, revoked when they change or the component unmounts
+function useObjectUrl(bytes: Uint8Array | null, path: string): string | null {
+  const [url, setUrl] = useState<string | null>(null);
+  useEffect(() => {
+    if (!bytes) return;
+    // <img> only renders SVG from a blob that says it's SVG
+    const type = /\.svg$/i.test(path) ? "image/svg+xml" : "";
+    const objectUrl = URL.createObjectURL(new Blob([bytes as BlobPart], {type}));
+    setUrl(objectUrl);
+    return () => {
+      URL.revokeObjectURL(objectUrl);
+      setUrl(null);
+    };
+  }, [bytes, path]);
+  return url;
+}
+
+function formatDuration(seconds: number): string {
+  const s = Math.round(seconds);
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, "0")}`;
+}
+
+const size = (bytes: Uint8Array | null) => bytes ? formatSize(bytes.length) : undefined;
+const dimensions = (media?: MediaSize) => media && `${media.width} × ${media.height}`;
+const duration = (media?: MediaSize) => media?.duration ? formatDuration(media.duration) : undefined;
+
+function Metadata({rows}: {rows: MetadataRow[]}) {
+  return (
+    <table className="text-xs my-2">
+      <thead>
+        <tr className="text-(--text-muted)">
+          <th className="px-2 text-left font-normal" />
+          <th className="px-2 text-left font-normal">Old</th>
+          <th className="px-2 text-left font-normal">New</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(([label, before, after]) => (
+          <tr key={label} className={before !== after ? "text-(--text-normal)" : "text-(--text-muted)"}>
+            <td className="px-2 text-(--text-muted)">{label}</td>
+            <td className={`px-2 ${before !== after && before !== undefined ? "text-red-500" : ""}`}>{before ?? "—"}</td>
+            <td className={`px-2 ${before !== after && after !== undefined ? "text-green-500" : ""}`}>{after ?? "—"}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+// Both images drawn at the top left of canvases of their combined size, compared pixel by pixel
+function PixelDifference({oldUrl, newUrl}: {oldUrl: string; newUrl: string}) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [result, setResult] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async (src: string) => {
+      const img = new Image();
+      img.src = src;
+      await img.decode();
+      return img;
+    };
+    const compare = async () => {
+      const [a, b] = await Promise.all([load(oldUrl), load(newUrl)]);
+      const width = Math.max(a.naturalWidth, b.naturalWidth);
+      const height = Math.max(a.naturalHeight, b.naturalHeight);
+      const pixels = (img: HTMLImageElement) => {
+        const ctx = Object.assign(document.createElement("canvas"), {width, height}).getContext("2d")!;
+        ctx.drawImage(img, 0, 0);
+        return ctx.getImageData(0, 0, width, height);
+      };
+      const diff = pixelDiff(pixels(a), pixels(b));
+      const canvas = canvasRef.current;
+      if (cancelled || !canvas) return;
+      canvas.width = width;
+      canvas.height = height;
+      canvas.getContext("2d")!.putImageData(new ImageData(diff.data, width, height), 0, 0);
+      const share = width * height ? (diff.changed / (width * height)) * 100 : 0;
+      setResult(diff.changed ? `${diff.changed.toLocaleString()} pixels changed (${share.toFixed(2)}%)` : "No visible difference");
+    };
+    compare().catch((e: unknown) => { if (!cancelled) setResult(`Could not compare: ${e instanceof Error ? e.message : String(e)}`); });
+    return () => { cancelled = true; };
+  }, [oldUrl, newUrl]);
+
+  return (
+    <div className="flex flex-col items-center gap-1">
+      <div className="text-xs text-(--text-muted)">{result ?? "Comparing..."}</div>
+      <canvas ref={canvasRef} style={{maxWidth: "100%", maxHeight: "24rem"}} />
+    </div>
+  );
+}
+
+function ImageDiff({path, old, new: current}: BinaryDiffProps) {
+  const oldUrl = useObjectUrl(old, path);
+  const newUrl = useObjectUrl(current, path);
+  const [mode, setMode] = useState<ImageMode>("side");
+  const [position, setPosition] = useState(50);
+  const [oldSize, setOldSize] = useState<MediaSize>();
+  const [newSize, setNewSize] = useState<MediaSize>();
+
+  const measure = (set: (size: MediaSize) => void) => (e: SyntheticEvent<HTMLImageElement>) =>
+    set({width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight});
+  const imgStyle = {maxWidth: "100%", maxHeight: "24rem"};
+  const metadata = (
+    <Metadata rows={[
+      ["Size", size(old), size(current)],
+      ["Dimensions", dimensions(oldSize), dimensions(newSize)],
+    ]} />
+  );
+
+  // Added or deleted: nothing to compare against
+  if (!oldUrl || !newUrl) {
+    const url = oldUrl ?? newUrl;
+    return (
+      <div className="flex flex-col items-center">
+        {url && <img src={url} style={imgStyle} onLoad={measure(oldUrl ? setOldSize : setNewSize)} />}
+        {metadata}
+      </div>
+    );
+  }
+
+  let view: ReactNode;
+  if (mode === "side") {
+    view = (
+      <div className="grid grid-cols-2 gap-2">
+        {([["Old", oldUrl, setOldSize], ["New", newUrl, setNewSize]] as const).map(([label, url, set]) => (
+          <div key={label} className="flex flex-col items-center gap-1 min-w-0">
+            <span className="text-xs text-(--text-muted)">{label}</span>
+            <img src={url} style={imgStyle} onLoad={measure(set)} />
+          </div>
+        ))}
+      </div>
+    );
+  } else if (mode === "pixels") {
+    view = <PixelDifference oldUrl={oldUrl} newUrl={newUrl} />;
+  } else {
+    // Swipe shows the old image left of the slider and the new one right of it; onion skin fades the new one in over the old
+    const overlay = mode === "swipe"
+      ? {clipPath: `inset(0 ${position}% 0 0)`}
+      : {opacity: position / 100};
+    view = (
+      <div className="flex flex-col items-center gap-1">
+        <div className="relative inline-block">
+          <img src={mode === "swipe" ? newUrl : oldUrl} className="block" style={imgStyle} />
+          <img
+            src={mode === "swipe" ? oldUrl : newUrl}
+            className="absolute top-0 left-0 w-full h-full"
+            style={{objectFit: "contain", objectPosition: "left top", ...overlay}}
+          />
+        </div>
+        <div className="flex items-center gap-2 text-xs text-(--text-muted)">
+          <span>Old</span>
+          <input type="range" min={0} max={100} value={position} onChange={e => setPosition(Number(e.target.value))} />
+          <span>New</span>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center gap-1 text-xs">
+        {(Object.keys(IMAGE_MODE_LABELS) as ImageMode[]).map(m => (
+          <button
+            key={m}
+            className={`px-2 py-0.5 text-xs ${mode === m ? "bg-(--interactive-accent) text-(--text-on-accent)" : ""}`}
+            onClick={() => setMode(m)}
+          >
+            {IMAGE_MODE_LABELS[m]}
+          </button>
+        ))}
+      </div>
+      {view}
+      {/* Side by side measures both images; other modes measure them here without showing them */}
+      {mode !== "side" && (
+        <div className="hidden">
+          <img src={oldUrl} onLoad={measure(setOldSize)} />
+          <img src={newUrl} onLoad={measure(setNewSize)} />
+        </div>
+      )}
+      <div className="flex justify-center">{metadata}</div>
+    </div>
+  );
+}
+
+function VideoDiff({path, old, new: current}: BinaryDiffProps) {
+  const oldUrl = useObjectUrl(old, path);
+  const newUrl = useObjectUrl(current, path);
+  const [oldSize, setOldSize] = useState<MediaSize>();
+  const [newSize, setNewSize] = useState<MediaSize>();
+
+  const measure = (set: (size: MediaSize) => void) => (e: SyntheticEvent<HTMLVideoElement>) =>
+    set({width: e.currentTarget.videoWidth, height: e.currentTarget.videoHeight, duration: e.currentTarget.duration});
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <div className="grid grid-cols-2 gap-2 w-full">
+        {([["Old", oldUrl, setOldSize], ["New", newUrl, setNewSize]] as const).map(([label, url, set]) => (
+          <div key={label} className="flex flex-col items-center gap-1 min-w-0">
+            <span className="text-xs text-(--text-muted)">{label}</span>
+            {url
+              ? <video src={url} controls preload="metadata" style={{maxWidth: "100%", maxHeight: "16rem"}} onLoadedMetadata={measure(set)} />
+              : <span className="text-xs text-(--text-faint)">None</span>}
+          </div>
+        ))}
+      </div>
+      <Metadata rows={[
+        ["Size", size(old), size(current)],
+        ["Dimensions", dimensions(oldSize), dimensions(newSize)],
+        ["Duration", duration(oldSize), duration(newSize)],
+      ]} />
+    </div>
+  );
+}
+
+function PdfDiff({old, new: current}: BinaryDiffProps) {
+  const before = old ? pdfInfo(old) : undefined;
+  const after = current ? pdfInfo(current) : undefined;
+  return (
+    <Metadata rows={[
+      ["Size", size(old), size(current)],
+      ["Pages", before?.pages?.toString(), after?.pages?.toString()],
+      ["Title", before?.title, after?.title],
+      ["PDF version", before?.version, after?.version],
+    ]} />
+  );
+}
+
+export const BinaryDiff = (props: BinaryDiffProps) => {
+  const {type} = props;
+  return (
+    <div className="p-2 border-t border-(--background-modifier-border)">
+      {type === "image" && <ImageDiff {...props} />}
+      {type === "video" && <VideoDiff {...props} />}
+      {type === "pdf" && <PdfDiff {...props} />}
+      {type === "text" && (
+        <Metadata rows={[["Size", size(props.old), size(props.new)]]} />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,99 @@
+// Commit panel: pick files and hunks in the diff, write a message (or start from a template),
+// then commit, or commit and push. Whatever isn't picked stays uncommitted
+import {useState, useMemo} from "react";
+import type {App} from "obsidian";
+import type {GitStatus} from "../utils/git";
+import {parsePatch} from "../utils/patch";
+import {renderTemplate} from "../utils/commit-template";
+import {DiffModal, FileVersions, HunkSelection} from "./DiffModal";
+
+export interface CommitModalProps {
+  app: App;
+  diff: string;        // uncommitted changes to tracked files, against HEAD
+  status: GitStatus;   // its untracked files can be picked as a whole
+  templates: string[];
+  device: string;
+  loadVersions: (filename: string) => Promise<FileVersions>;
+  onCommit: (message: string, selection: HunkSelection, push: boolean) => Promise<void>;
+}
+
+// Button style helper
+const btn = "px-3 py-1 text-xs rounded border border-(--background-modifier-border) hover:bg-(--background-modifier-hover)";
+
+// Everything picked to start with
+function initialSelection(diff: string, status: GitStatus): HunkSelection {
+  const selection: HunkSelection = {};
+  for (const file of parsePatch(diff)) selection[file.path] = file.hunks.length ? file.hunks.map(() => true) : [true];
+  for (const file of status.untracked) selection[file] ??= [true];
+  return selection;
+}
+
+export const CommitModal = ({app, diff, status, templates, device, loadVersions, onCommit}: CommitModalProps) => {
+  const [selection, setSelection] = useState(() => initialSelection(diff, status));
+  const [message, setMessage] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const picked = useMemo(() => Object.keys(selection).filter(f => selection[f]!.some(Boolean)), [selection]);
+  const total = Object.keys(selection).length;
+
+  const applyTemplate = (template: string) => {
+    if (template) setMessage(renderTemplate(template, {files: picked, device, now: new Date()}));
+  };
+
+  const commit = async (push: boolean) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await onCommit(message.trim(), selection, push);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!total) {
+    return <div className="remote-vault-sync text-(--text-muted) p-4">Nothing to commit</div>;
+  }
+
+  const disabled = busy || !message.trim() || !picked.length;
+  return (
+    <div className="remote-vault-sync flex flex-col h-full min-h-0">
+      {/* Files and hunks */}
+      <div className="flex-1 min-h-0 overflow-auto">
+        <DiffModal app={app} diff={diff} status={status} loadVersions={loadVersions} selection={selection} onSelectionChange={setSelection} />
+      </div>
+
+      {/* Message and actions */}
+      <div className="flex flex-col gap-2 p-2 border-t border-(--background-modifier-border)">
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-(--text-muted)">{picked.length} of {total} files picked</span>
+          <div className="flex-1" />
+          {templates.length > 0 && (
+            <select className="dropdown" value="" onChange={e => applyTemplate(e.target.value)}>
+              <option value="">Template...</option>
+              {templates.map(t => <option key={t} value={t}>{t}</option>)}
+            </select>
+          )}
+        </div>
+        <textarea
+          className="w-full h-20 font-mono text-sm"
+          placeholder="Commit message"
+          value={message}
+          onChange={e => setMessage(e.target.value)}
+        />
+        <div className="flex items-center gap-2">
+          {error && <span className="text-xs text-red-500 break-all">{error}</span>}
+          <div className="flex-1" />
+          <button className={btn} disabled={disabled} onClick={() => void commit(false)}>
+            {busy ? "Committing..." : "Commit"}
+          </button>
+          <button className={`${btn} mod-cta`} disabled={disabled} onClick={() => void commit(true)}>
+            Commit & push
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,38 @@
+// Results of "Test connection" and "Check repository health", one row per check with what to do about failures
+import {CheckResult, CheckStatus, Repair} from "../utils/diagnostics";
+
+export interface ConnectionChecklistProps {
+  results: CheckResult[];
+  onRepair?: (repair: Repair) => void;  // shows a button for checks that offer a repair
+  busy?: boolean;
+}
+
+const icons: Record<CheckStatus, {icon: string; color: string}> = {
+  running: {icon: "…", color: "text-(--text-muted)"},
+  pass: {icon: "✓", color: "text-green-500"},
+  warn: {icon: "!", color: "text-yellow-500"},
+  fail: {icon: "✗", color: "text-red-500"},
+  skip: {icon: "–", color: "text-(--text-faint)"},
+};
+
+export const ConnectionChecklist = ({results, onRepair, busy}: ConnectionChecklistProps) => (
+  <div className="flex flex-col gap-1 rounded border border-(--background-modifier-border) p-2 text-xs">
+    {results.map((r) => (
+      <div key={r.label} className="flex gap-2">
+        <span className={`w-3 shrink-0 font-bold ${icons[r.status].color}`}>{icons[r.status].icon}</span>
+        <div className="flex flex-col min-w-0">
+          <div className="flex gap-2">
+            <span className="font-semibold shrink-0">{r.label}</span>
+            <span className="text-(--text-muted) break-all whitespace-pre-line">{r.detail}</span>
+          </div>
+          {r.remedy && <span className={icons[r.status].color}>{r.remedy}</span>}
+        </div>
+        {onRepair && r.repair && (
+          <button className="ml-auto shrink-0 px-2 py-0.5 text-xs" disabled={busy} onClick={() => onRepair(r.repair!)}>
+            {r.repair.label}
+          </button>
+        )}
+      </div>
+    ))}
+  </div>
+);
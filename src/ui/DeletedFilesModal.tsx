@@ -0,0 +1,151 @@
+// Modal listing files deleted in past commits, with search, a preview of each file's
+// last contents, and restoring a selection to its original path or into a folder
+import {useState, useEffect, useMemo} from "react";
+import dayjs from "dayjs";
+import relativeTime from "dayjs/plugin/relativeTime";
+import {DeletedFile} from "../utils/git";
+import {VersionPreview} from "./FileHistoryModal";
+
+dayjs.extend(relativeTime);
+
+export interface DeletedFilesModalProps {
+  files: DeletedFile[];
+  folders: string[];  // vault folders to suggest as restore targets
+  loadContent: (file: DeletedFile) => Promise<Uint8Array>;
+  onRestore: (files: DeletedFile[], folder: string) => Promise<DeletedFile[]>;  // resolves to the files it restored
+}
+
+// Button style helper
+const btn = "px-3 py-1 text-xs rounded border border-(--background-modifier-border) hover:bg-(--background-modifier-hover)";
+
+export const DeletedFilesModal = ({files, folders, loadContent, onRestore}: DeletedFilesModalProps) => {
+  const [query, setQuery] = useState("");
+  const [checked, setChecked] = useState<Set<string>>(new Set());
+  const [previewed, setPreviewed] = useState<DeletedFile | null>(null);
+  const [bytes, setBytes] = useState<Uint8Array | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [folder, setFolder] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [remaining, setRemaining] = useState(files);
+
+  // Case-insensitive match on the path and the deleting commit's message
+  const visible = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    if (!q) return remaining;
+    return remaining.filter(f => f.path.toLowerCase().includes(q) || f.commit.message.toLowerCase().includes(q));
+  }, [remaining, query]);
+
+  useEffect(() => {
+    if (!previewed) return;
+    let cancelled = false;
+    setBytes(null);
+    setError(null);
+    loadContent(previewed)
+      .then(b => { if (!cancelled) setBytes(b); })
+      .catch((e: unknown) => { if (!cancelled) setError(e instanceof Error ? e.message : String(e)); });
+    return () => { cancelled = true; };
+  }, [previewed, loadContent]);
+
+  const toggle = (path: string) => setChecked(s => {
+    const n = new Set(s);
+    if (n.has(path)) n.delete(path);
+    else n.add(path);
+    return n;
+  });
+
+  const allVisibleChecked = visible.length > 0 && visible.every(f => checked.has(f.path));
+  const toggleAll = () => setChecked(s => {
+    const n = new Set(s);
+    for (const f of visible) {
+      if (allVisibleChecked) n.delete(f.path);
+      else n.add(f.path);
+    }
+    return n;
+  });
+
+  const restore = async () => {
+    const selection = remaining.filter(f => checked.has(f.path));
+    if (!selection.length) return;
+    setBusy(true);
+    try {
+      const restored = new Set((await onRestore(selection, folder.trim())).map(f => f.path));
+      // Restored files are back in the vault, so they're no longer deleted
+      setRemaining(prev => prev.filter(f => !restored.has(f.path)));
+      setChecked(prev => new Set([...prev].filter(p => !restored.has(p))));
+      if (previewed && restored.has(previewed.path)) setPreviewed(null);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!files.length) {
+    return <div className="remote-vault-sync text-(--text-muted) p-4">No deleted files in the history</div>;
+  }
+
+  return (
+    <div className="remote-vault-sync flex flex-col h-full min-h-0">
+      {/* Search */}
+      <div className="flex items-center gap-2 p-2 border-b border-(--background-modifier-border)">
+        <input type="checkbox" checked={allVisibleChecked} onChange={toggleAll} />
+        <input
+          type="search"
+          className="flex-1"
+          placeholder="Search deleted files..."
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+        />
+        <span className="text-xs text-(--text-muted)">{visible.length} of {remaining.length}</span>
+      </div>
+
+      <div className="flex flex-1 min-h-0">
+        {/* File list */}
+        <div className="w-80 shrink-0 overflow-auto border-r border-(--background-modifier-border) p-2 flex flex-col gap-1">
+          {visible.map(f => (
+            <div
+              key={f.path}
+              onClick={() => setPreviewed(f)}
+              className={`flex gap-2 p-2 rounded cursor-pointer hover:bg-(--background-modifier-hover) ${
+                previewed?.path === f.path ? "bg-(--background-modifier-active-hover)" : "bg-(--background-secondary)"}`}
+            >
+              <input type="checkbox" checked={checked.has(f.path)} onClick={e => e.stopPropagation()} onChange={() => toggle(f.path)} />
+              <div className="flex flex-col gap-0.5 min-w-0">
+                <code className="text-sm font-mono truncate">{f.path}</code>
+                <div className="text-xs text-(--text-muted) truncate">
+                  deleted {dayjs.unix(f.commit.author.timestamp).fromNow()} in{" "}
+                  <code className="text-(--text-accent)">{f.commit.oid.slice(0, 7)}</code> {f.commit.message}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Last contents */}
+        <div className="flex-1 min-w-0 overflow-auto">
+          {!previewed && <div className="p-4 text-(--text-muted)">Select a file to see its last contents</div>}
+          {error && <div className="p-4 text-xs text-red-500 break-all">{error}</div>}
+          {previewed && bytes && <VersionPreview path={previewed.path} bytes={bytes} />}
+        </div>
+      </div>
+
+      {/* Restore */}
+      <div className="flex items-center gap-2 p-2 border-t border-(--background-modifier-border)">
+        <span className="text-xs text-(--text-muted)">{checked.size} selected</span>
+        <div className="flex-1" />
+        <input
+          type="text"
+          list="remote-vault-sync-folders"
+          placeholder="Original location"
+          title="Folder to restore into; leave empty to restore each file at its original path"
+          value={folder}
+          onChange={e => setFolder(e.target.value)}
+        />
+        <datalist id="remote-vault-sync-folders">
+          {folders.map(f => <option key={f} value={f} />)}
+        </datalist>
+        <button className={`${btn} ${busy || !checked.size ? "opacity-50 cursor-not-allowed" : ""}`} disabled={busy || !checked.size} onClick={() => void restore()}>
+          {busy ? "Restoring..." : "Restore"}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,128 @@
+// Diff hunks rendered unified, side by side, or inline word by word, with changed words highlighted
+import {useMemo} from "react";
+import {DiffLine, LinePair, Segment, pairLines, sideBySide} from "../utils/diff";
+
+export type DiffView = "unified" | "split" | "words";
+
+export const DIFF_VIEW_LABELS: Record<DiffView, string> = {
+  unified: "Unified",
+  split: "Side by side",
+  words: "Words",
+};
+
+export interface DiffLinesProps {
+  lines: DiffLine[];
+  view: DiffView;
+}
+
+// Line colors
+const lineClass: Record<DiffLine["kind"], string> = {
+  hunk: "text-(--text-accent)",
+  add: "text-green-500 bg-green-500/5",
+  del: "text-red-500 bg-red-500/5",
+  context: "text-(--text-muted)",
+};
+
+const prefix: Record<DiffLine["kind"], string> = {hunk: "", add: "+", del: "-", context: " "};
+
+// Changed words stand out against the line's own tint
+const wordClass = {
+  add: "bg-green-500/30 rounded-sm",
+  del: "bg-red-500/30 rounded-sm",
+};
+
+function Segments({segments, kind}: {segments: Segment[]; kind: "add" | "del"}) {
+  return <>{segments.map((s, i) => <span key={i} className={s.changed ? wordClass[kind] : ""}>{s.text}</span>)}</>;
+}
+
+// A line's text, with its changed words highlighted when it's part of a pair
+function LineText({line, pair}: {line: DiffLine; pair?: LinePair}) {
+  if (pair && line.kind === "del") return <Segments segments={pair.old} kind="del" />;
+  if (pair && line.kind === "add") return <Segments segments={pair.new} kind="add" />;
+  return <>{line.text || " "}</>;
+}
+
+function LineNo({n}: {n?: number}) {
+  return <span className="inline-block w-10 shrink-0 pr-2 text-right text-(--text-faint) select-none">{n ?? ""}</span>;
+}
+
+function Unified({lines, pairs}: {lines: DiffLine[]; pairs: Map<DiffLine, LinePair>}) {
+  return (
+    <>
+      {lines.map((line, i) => (
+        <div key={i} className={`whitespace-pre ${lineClass[line.kind]}`}>
+          {prefix[line.kind]}<LineText line={line} pair={pairs.get(line)} />
+        </div>
+      ))}
+    </>
+  );
+}
+
+function Split({lines, pairs}: {lines: DiffLine[]; pairs: Map<DiffLine, LinePair>}) {
+  const rows = useMemo(() => sideBySide(lines, pairs), [lines, pairs]);
+  const cell = (line: DiffLine | undefined, side: "old" | "new", pair?: LinePair) => {
+    if (!line) return <div className="min-w-0 bg-(--background-modifier-hover)" />;
+    if (line.kind === "hunk") return <div className={`min-w-0 truncate ${lineClass.hunk}`}>{line.text}</div>;
+    return (
+      <div className={`flex min-w-0 ${lineClass[line.kind]}`}>
+        <LineNo n={side === "old" ? line.oldNo : line.newNo} />
+        <span className="whitespace-pre-wrap break-all min-w-0">
+          <LineText line={line} pair={pair} />
+        </span>
+      </div>
+    );
+  };
+  return (
+    <div className="grid grid-cols-2 gap-x-2">
+      {rows.map((row, i) => (
+        <div key={i} className="contents">
+          {cell(row.left, "old", row.pair)}
+          {cell(row.right, "new", row.pair)}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Paired lines become one line showing removed and added words in place; the rest render as unified
+function Words({lines, pairs}: {lines: DiffLine[]; pairs: Map<DiffLine, LinePair>}) {
+  return (
+    <>
+      {lines.map((line, i) => {
+        const pair = pairs.get(line);
+        if (pair && line.kind === "add") return null;
+        if (pair) {
+          return (
+            <div key={i} className="flex whitespace-pre-wrap text-(--text-normal)">
+              <LineNo n={pair.add.newNo} />
+              <span className="min-w-0">
+                {pair.inline.map((s, j) => (
+                  <span key={j} className={s.kind === "del" ? `${wordClass.del} line-through text-red-500` : s.kind === "add" ? `${wordClass.add} text-green-500` : ""}>
+                    {s.text}
+                  </span>
+                ))}
+              </span>
+            </div>
+          );
+        }
+        return (
+          <div key={i} className={`flex whitespace-pre-wrap ${lineClass[line.kind]} ${line.kind === "del" ? "line-through" : ""}`}>
+            <LineNo n={line.kind === "hunk" ? undefined : line.newNo ?? line.oldNo} />
+            <span className="min-w-0">{line.text || " "}</span>
+          </div>
+        );
+      })}
+    </>
+  );
+}
+
+export const DiffLines = ({lines, view}: DiffLinesProps) => {
+  const pairs = useMemo(() => pairLines(lines), [lines]);
+  return (
+    <div className="p-2 font-mono text-xs overflow-x-auto border-t border-(--background-modifier-border)">
+      {view === "unified" && <Unified lines={lines} pairs={pairs} />}
+      {view === "split" && <Split lines={lines} pairs={pairs} />}
+      {view === "words" && <Words lines={lines} pairs={pairs} />}
+    </div>
+  );
+};
@@ -1,23 +1,45 @@
 // Modal showing file diffs grouped by file in cards
-import {useState, useCallback} from "react";
+import {useState, useCallback, useEffect, useMemo, ReactNode} from "react";
 import type {App} from "obsidian";
 import type {GitStatus} from "../utils/git";
+import {DiffLine, parseHunks, ignoreWhitespace} from "../utils/diff";
+import {DiffLines, DiffView, DIFF_VIEW_LABELS} from "./DiffLines";
+import {RenderedDiff} from "./RenderedDiff";
+import {BinaryDiff} from "./BinaryDiff";
 
 const VIDEO_EXT = /\.(mp4|webm|mov|avi|mkv)$/i;
 const IMAGE_EXT = /\.(png|jpg|jpeg|gif|webp|svg)$/i;
+const PDF_EXT = /\.pdf$/i;
 
-function getFileType(filename: string): "video" | "image" | "text" {
+export function getFileType(filename: string): "video" | "image" | "pdf" | "text" {
   if (VIDEO_EXT.test(filename)) return "video";
   if (IMAGE_EXT.test(filename)) return "image";
+  if (PDF_EXT.test(filename)) return "pdf";
   return "text";
 }
 
+// Both sides of a file's diff; null where the file doesn't exist
+export interface FileVersions {
+  old: Uint8Array | null;
+  new: Uint8Array | null;
+}
+
 export interface DiffModalProps {
   app: App;
   diff: string;
   status: GitStatus;
+  loadVersions?: (filename: string) => Promise<FileVersions>;  // enables the rendered view and binary comparisons
+  selection?: HunkSelection;  // shows checkboxes per file and per hunk
+  onSelectionChange?: (selection: HunkSelection) => void;
 }
 
+// Per file, whether each of its hunks is picked; files without hunks (new or binary) have one entry
+export type HunkSelection = Record<string, boolean[]>;
+
+type View = DiffView | "rendered";
+
+const isMarkdown = (filename: string) => /\.md$/i.test(filename);
+
 interface FileDiff {
   filename: string;
   type: "added" | "modified" | "deleted";
@@ -87,22 +109,105 @@ function getLineClass(line: string): string {
   return "text-(--text-muted)";
 }
 
+// Hunk lines to render, after hiding whitespace-only changes if asked to
+function hunkLines(file: FileDiff, ignoreWs: boolean): DiffLine[] {
+  const lines = parseHunks(file.hunkHeader ? [file.hunkHeader, ...file.hunks] : file.hunks);
+  return ignoreWs ? ignoreWhitespace(lines) : lines;
+}
+
+// Both versions of a file, loaded when its card is expanded
+function WithVersions({filename, loadVersions, children}: {
+  filename: string;
+  loadVersions: (filename: string) => Promise<FileVersions>;
+  children: (versions: FileVersions) => ReactNode;
+}) {
+  const [versions, setVersions] = useState<FileVersions | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadVersions(filename)
+      .then(v => { if (!cancelled) setVersions(v); })
+      .catch((e: unknown) => { if (!cancelled) setError(e instanceof Error ? e.message : String(e)); });
+    return () => { cancelled = true; };
+  }, [filename, loadVersions]);
+
+  if (error) return <div className="p-2 text-xs text-red-500 break-all border-t border-(--background-modifier-border)">{error}</div>;
+  if (!versions) return <div className="p-2 text-xs text-(--text-muted) border-t border-(--background-modifier-border)">Loading...</div>;
+  return <>{children(versions)}</>;
+}
+
+const decode = (bytes: Uint8Array | null) => bytes && new TextDecoder().decode(bytes);
+
+// Hunk lines split at each "@@" header
+function splitHunks(lines: DiffLine[]): DiffLine[][] {
+  const hunks: DiffLine[][] = [];
+  for (const line of lines) {
+    if (line.kind === "hunk" || !hunks.length) hunks.push([]);
+    hunks[hunks.length - 1]!.push(line);
+  }
+  return hunks;
+}
+
 // Renders file content based on type (video/image/text)
-function FileContent({file, app, loadedContent}: {file: FileDiff; app: App; loadedContent: string[]}) {
+function FileContent({file, app, loadedContent, view, ignoreWs, loadVersions, picked, onToggleHunk}: {
+  file: FileDiff;
+  app: App;
+  loadedContent: string[];
+  view: View;
+  ignoreWs: boolean;
+  loadVersions?: (filename: string) => Promise<FileVersions>;
+  picked?: boolean[];
+  onToggleHunk?: (index: number) => void;
+}) {
   const type = getFileType(file.filename);
+  // Collapsing and expanding other cards keeps `hunks` the same array
+  const lines = useMemo(() => hunkLines(file, ignoreWs), [file.hunks, file.hunkHeader, ignoreWs]);
 
-  // Diff hunks always render as text lines
-  if (file.hunks.length) {
+  if (view === "rendered" && loadVersions && isMarkdown(file.filename)) {
     return (
-      <div className="p-2 font-mono text-xs overflow-x-auto border-t border-(--background-modifier-border)">
-        {file.hunks.map((line, i) => (
-          <div key={i} className={`whitespace-pre ${getLineClass(line)}`}>{line || " "}</div>
+      <WithVersions filename={file.filename} loadVersions={loadVersions}>
+        {v => <RenderedDiff app={app} path={file.filename} old={decode(v.old)} new={decode(v.new)} />}
+      </WithVersions>
+    );
+  }
+
+  // Media, and other files git only reports as "Binary files differ", compared from both versions
+  if (loadVersions && (type !== "text" || (!file.hunks.length && file.type !== "added"))) {
+    return (
+      <WithVersions filename={file.filename} loadVersions={loadVersions}>
+        {v => <BinaryDiff path={file.filename} type={type} old={v.old} new={v.new} />}
+      </WithVersions>
+    );
+  }
+
+  // When picking hunks, each one gets its header and a checkbox
+  if (picked && onToggleHunk && file.hunks.length) {
+    return (
+      <div className="border-t border-(--background-modifier-border)">
+        {splitHunks(lines).map((hunk, i) => (
+          <div key={i}>
+            <label className="flex items-center gap-2 px-2 pt-2 font-mono text-xs text-(--text-accent) cursor-pointer">
+              <input type="checkbox" checked={picked[i] ?? false} onChange={() => onToggleHunk(i)} />
+              {hunk[0]?.text}
+            </label>
+            <DiffLines lines={hunk.slice(1)} view={view === "rendered" ? "unified" : view} />
+          </div>
         ))}
       </div>
     );
   }
 
-  // New binary files: show media preview
+  // Diff hunks always render as text lines; the first hunk header is shown in the card header
+  if (file.hunks.length) {
+    if (!lines.length) {
+      return <div className="p-2 text-xs text-(--text-muted) border-t border-(--background-modifier-border)">Only whitespace changes</div>;
+    }
+    // Files the rendered view doesn't apply to fall back to unified lines
+    return <DiffLines lines={lines[0]?.kind === "hunk" ? lines.slice(1) : lines} view={view === "rendered" ? "unified" : view} />;
+  }
+
+  // Without version loading, new media files preview straight from the vault
   const src = app.vault.adapter.getResourcePath(file.filename);
   if (type === "video") {
     return (
@@ -133,7 +238,7 @@ function FileContent({file, app, loadedContent}: {file: FileDiff; app: App; load
   return null;
 }
 
-export const DiffModal = ({app, diff, status}: DiffModalProps) => {
+export const DiffModal = ({app, diff, status, loadVersions, selection, onSelectionChange}: DiffModalProps) => {
   // Combine parsed diff with untracked files
   const initialFiles = (): FileDiff[] => {
     const diffFiles = parseDiff(diff);
@@ -151,6 +256,22 @@ export const DiffModal = ({app, diff, status}: DiffModalProps) => {
 
   const [files, setFiles] = useState(initialFiles);
   const [loadedContent, setLoadedContent] = useState<Record<string, string[]>>({});
+  const [view, setView] = useState<View>("unified");
+  const [ignoreWs, setIgnoreWs] = useState(false);
+
+  const views: [View, string][] = Object.entries(DIFF_VIEW_LABELS) as [DiffView, string][];
+  if (loadVersions && files.some(f => isMarkdown(f.filename))) views.push(["rendered", "Rendered"]);
+
+  // A file's checkbox picks or drops all its hunks
+  const toggleFile = (filename: string) => {
+    if (!selection || !onSelectionChange) return;
+    const hunks = selection[filename] ?? [];
+    onSelectionChange({...selection, [filename]: hunks.map(() => !hunks.every(Boolean))});
+  };
+  const toggleHunk = (filename: string, index: number) => {
+    if (!selection || !onSelectionChange) return;
+    onSelectionChange({...selection, [filename]: (selection[filename] ?? []).map((p, i) => i === index ? !p : p)});
+  };
 
   // Toggle collapse state for a file
   const toggleCollapse = useCallback(async (index: number) => {
@@ -178,6 +299,26 @@ export const DiffModal = ({app, diff, status}: DiffModalProps) => {
 
   return (
     <div className="remote-vault-sync p-2">
+      {/* View options */}
+      <div className="flex items-center gap-1 pb-2 text-xs">
+        {views.map(([v, label]) => (
+          <button
+            key={v}
+            className={`px-2 py-0.5 text-xs ${view === v ? "bg-(--interactive-accent) text-(--text-on-accent)" : ""}`}
+            onClick={() => setView(v)}
+          >
+            {label}
+          </button>
+        ))}
+        <div className="flex-1" />
+        {/* Hunks hidden as whitespace-only couldn't be picked */}
+        {!selection && (
+          <label className="flex items-center gap-1 text-(--text-muted) cursor-pointer">
+            <input type="checkbox" checked={ignoreWs} onChange={e => setIgnoreWs(e.target.checked)} />
+            Ignore whitespace
+          </label>
+        )}
+      </div>
       {files.map((file, index) => (
         <div key={file.filename} style={{contentVisibility: "auto", containIntrinsicSize: "auto 48px"}} className="pb-2">
           <div className="rounded bg-(--background-secondary) border border-(--background-modifier-border) overflow-hidden">
@@ -185,16 +326,36 @@ export const DiffModal = ({app, diff, status}: DiffModalProps) => {
               className="flex items-center gap-2 px-3 py-2 cursor-pointer hover:bg-(--background-modifier-hover) sticky top-0 bg-(--background-secondary) z-10"
               onClick={() => void toggleCollapse(index)}
             >
+              {selection && (
+                <input
+                  type="checkbox"
+                  checked={selection[file.filename]?.every(Boolean) ?? false}
+                  ref={el => { if (el) el.indeterminate = !!selection[file.filename]?.some(Boolean) && !selection[file.filename]?.every(Boolean); }}
+                  onClick={e => e.stopPropagation()}
+                  onChange={() => toggleFile(file.filename)}
+                />
+              )}
               <span className="text-(--text-muted)">{file.collapsed ? "▸" : "▾"}</span>
               <span className={`text-xs px-1.5 py-0.5 rounded font-medium ${typeBadge[file.type]}`}>
                 {file.type}
               </span>
               <code className="text-sm font-mono truncate flex-1">{file.filename}</code>
-              {file.hunkHeader && (
+              {file.hunkHeader && !selection && (
                 <code className="text-xs text-(--text-accent) font-mono">{file.hunkHeader}</code>
               )}
             </div>
-            {!file.collapsed && <FileContent file={file} app={app} loadedContent={loadedContent[file.filename] ?? []} />}
+            {!file.collapsed && (
+              <FileContent
+                file={file}
+                app={app}
+                loadedContent={loadedContent[file.filename] ?? []}
+                view={view}
+                ignoreWs={ignoreWs}
+                loadVersions={loadVersions}
+                picked={selection?.[file.filename]}
+                onToggleHunk={selection && (i => toggleHunk(file.filename, i))}
+              />
+            )}
           </div>
         </div>
       ))}
@@ -0,0 +1,148 @@
+// Modal listing the commits that touched one file, with a preview of each version,
+// its diff against the current file and a restore action
+import {useState, useEffect} from "react";
+import type {App} from "obsidian";
+import dayjs from "dayjs";
+import relativeTime from "dayjs/plugin/relativeTime";
+import {FileRevision} from "../utils/git";
+import {formatSize} from "../utils/binary-diff";
+import {DiffModal, getFileType} from "./DiffModal";
+
+dayjs.extend(relativeTime);
+
+export interface FileHistoryModalProps {
+  app: App;
+  path: string;  // current path of the file
+  revisions: FileRevision[];
+  loadVersion: (revision: FileRevision) => Promise<Uint8Array>;
+  loadDiff: (revision: FileRevision) => Promise<string>;
+  onRestore: (revision: FileRevision) => Promise<void>;
+}
+
+type View = "preview" | "diff";
+
+const emptyStatus = {staged: [], modified: [], untracked: [], deleted: []};
+
+// Button style helper
+const btn = "px-3 py-1 text-xs rounded border border-(--background-modifier-border) hover:bg-(--background-modifier-hover)";
+
+// Git's heuristic: a NUL byte near the start means binary
+function isBinary(bytes: Uint8Array): boolean {
+  return bytes.subarray(0, 8000).includes(0);
+}
+
+// Render one version of the file: text as-is, images and videos inline, other binaries as their size
+export function VersionPreview({path, bytes}: {path: string; bytes: Uint8Array}) {
+  const type = getFileType(path);
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (type === "text") return;
+    const objectUrl = URL.createObjectURL(new Blob([bytes as BlobPart]));
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [bytes, type]);
+
+  if (type === "image" && url) {
+    return <div className="flex justify-center p-2"><img src={url} style={{maxWidth: "100%", maxHeight: "24rem"}} /></div>;
+  }
+  if (type === "video" && url) {
+    return <div className="flex justify-center p-2"><video src={url} controls style={{maxWidth: "100%", maxHeight: "24rem"}} /></div>;
+  }
+  if (type === "text" && !isBinary(bytes)) {
+    return <pre className="p-2 m-0 font-mono text-xs whitespace-pre-wrap break-words">{new TextDecoder().decode(bytes)}</pre>;
+  }
+  return <div className="p-4 text-(--text-muted)">Binary file, {formatSize(bytes.length)}</div>;
+}
+
+export const FileHistoryModal = ({app, path, revisions, loadVersion, loadDiff, onRestore}: FileHistoryModalProps) => {
+  const [selected, setSelected] = useState<FileRevision | null>(revisions[0] ?? null);
+  const [view, setView] = useState<View>("preview");
+  const [bytes, setBytes] = useState<Uint8Array | null>(null);
+  const [diff, setDiff] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  // Load the selected version's content or diff whenever the selection or view changes
+  useEffect(() => {
+    if (!selected || selected.status === "deleted") return;
+    let cancelled = false;
+    setError(null);
+    setBytes(null);
+    setDiff(null);
+    const load = view === "preview"
+      ? loadVersion(selected).then(b => { if (!cancelled) setBytes(b); })
+      : loadDiff(selected).then(d => { if (!cancelled) setDiff(d); });
+    load.catch((e: unknown) => { if (!cancelled) setError(e instanceof Error ? e.message : String(e)); });
+    return () => { cancelled = true; };
+  }, [selected, view, loadVersion, loadDiff]);
+
+  const restore = async () => {
+    if (!selected) return;
+    setBusy(true);
+    try {
+      await onRestore(selected);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!revisions.length) {
+    return <div className="remote-vault-sync text-(--text-muted) p-4">No committed versions of {path}</div>;
+  }
+
+  return (
+    <div className="remote-vault-sync flex h-full min-h-0">
+      {/* Revision list */}
+      <div className="w-64 shrink-0 overflow-auto border-r border-(--background-modifier-border) p-2 flex flex-col gap-1">
+        {revisions.map(r => (
+          <div
+            key={r.commit.oid}
+            onClick={() => setSelected(r)}
+            className={`flex flex-col gap-0.5 p-2 rounded cursor-pointer hover:bg-(--background-modifier-hover) ${
+              selected?.commit.oid === r.commit.oid ? "bg-(--background-modifier-active-hover)" : "bg-(--background-secondary)"}`}
+          >
+            <div className="flex items-center gap-2">
+              <code className="text-xs text-(--text-accent) font-mono">{r.commit.oid.slice(0, 7)}</code>
+              <span className="text-sm truncate flex-1">{r.commit.message}</span>
+            </div>
+            <div className="text-xs text-(--text-muted)">
+              {r.commit.author.name} • {dayjs.unix(r.commit.author.timestamp).fromNow()}
+            </div>
+            {(r.path !== path || r.status !== "modified") && (
+              <div className="text-xs text-(--text-faint) truncate">{r.status}{r.path !== path ? `: ${r.path}` : ""}</div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {/* Selected version */}
+      {selected && (
+        <div className="flex-1 min-w-0 flex flex-col">
+          <div className="flex items-center gap-2 p-2 border-b border-(--background-modifier-border)">
+            <button className={`${btn} ${view === "preview" ? "bg-(--interactive-accent) text-(--text-on-accent)" : ""}`} onClick={() => setView("preview")}>
+              Preview
+            </button>
+            <button className={`${btn} ${view === "diff" ? "bg-(--interactive-accent) text-(--text-on-accent)" : ""}`} onClick={() => setView("diff")}>
+              Diff with current
+            </button>
+            <div className="flex-1" />
+            <button className={btn} disabled={busy || selected.status === "deleted"} onClick={() => void restore()}>
+              {busy ? "Restoring..." : "Restore this version"}
+            </button>
+          </div>
+          <div className="flex-1 overflow-auto">
+            {selected.status === "deleted" && <div className="p-4 text-(--text-muted)">The file was deleted in this commit</div>}
+            {error && <div className="p-4 text-xs text-red-500 break-all">{error}</div>}
+            {view === "preview" && bytes && <VersionPreview path={selected.path} bytes={bytes} />}
+            {view === "diff" && diff !== null && (
+              diff.trim()
+                ? <DiffModal app={app} diff={diff} status={emptyStatus} />
+                : <div className="p-4 text-(--text-muted)">Same as the current version</div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
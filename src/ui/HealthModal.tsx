@@ -0,0 +1,56 @@
+// Modal for "Check repository health": runs the checks on open and again after each repair
+import {useState, useCallback, useEffect} from "react";
+import {CheckResult, Repair} from "../utils/diagnostics";
+import {ConnectionChecklist} from "./ConnectionChecklist";
+
+export interface HealthModalProps {
+  check: (onUpdate: (results: CheckResult[]) => void) => Promise<CheckResult[]>;
+  onRepair: (repair: Repair) => Promise<void>;
+}
+
+// Button style helper
+const btn = "px-3 py-1 text-xs rounded border border-(--background-modifier-border) hover:bg-(--background-modifier-hover)";
+
+export const HealthModal = ({check, onRepair}: HealthModalProps) => {
+  const [results, setResults] = useState<CheckResult[]>([]);
+  const [busy, setBusy] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Run an optional repair, then check everything again
+  const run = useCallback(async (repair?: Repair) => {
+    setBusy(true);
+    setError(null);
+    try {
+      if (repair) await onRepair(repair);
+      await check(setResults);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(false);
+    }
+  }, [check, onRepair]);
+
+  useEffect(() => { void run(); }, [run]);
+
+  const problems = results.filter(r => r.status === "fail" || r.status === "warn").length;
+
+  return (
+    <div className="remote-vault-sync flex flex-col h-full">
+      {/* Header */}
+      <div className="flex items-center gap-2 p-3 border-b border-(--background-modifier-border)">
+        <span className="text-xs text-(--text-muted)">
+          {busy ? "Checking..." : problems ? `${problems} problem${problems === 1 ? "" : "s"} found` : "No problems found"}
+        </span>
+        <div className="flex-1" />
+        <button className={`${btn} ${busy ? "opacity-50 cursor-not-allowed" : ""}`} disabled={busy} onClick={() => void run()}>
+          Check again
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-auto p-2 flex flex-col gap-2">
+        {error && <div className="text-xs text-red-500 break-all">{error}</div>}
+        {results.length > 0 && <ConnectionChecklist results={results} busy={busy} onRepair={(repair) => void run(repair)} />}
+      </div>
+    </div>
+  );
+};
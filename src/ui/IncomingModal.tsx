@@ -0,0 +1,104 @@
+// Modal previewing fetched remote commits before they're merged: the commits, their combined
+// diff and the files that would conflict, with merge and cancel actions
+import {useState} from "react";
+import type {App} from "obsidian";
+import {Commit} from "../utils/git";
+import {LogModal} from "./LogModal";
+import {DiffModal, FileVersions} from "./DiffModal";
+
+export interface IncomingModalProps {
+  app: App;
+  branch: string;
+  commits: Commit[];
+  diff: string;                 // changes on the remote since it forked from the local branch
+  conflicts: string[] | null;   // files the merge would conflict on; null if git can't tell
+  blocked: string[];            // incoming files with uncommitted local changes
+  loadVersions: (filename: string) => Promise<FileVersions>;
+  onSelectCommit: (oid: string) => void;
+  onMerge: () => Promise<void>;
+  onCancel: () => void;
+}
+
+type Tab = "commits" | "changes";
+
+const emptyStatus = {staged: [], modified: [], untracked: [], deleted: []};
+
+// Button style helper
+const btn = "px-3 py-1 text-xs rounded border border-(--background-modifier-border) hover:bg-(--background-modifier-hover)";
+
+const plural = (n: number, noun: string) => `${n} ${noun}${n === 1 ? "" : "s"}`;
+
+function FileList({files}: {files: string[]}) {
+  return (
+    <ul className="m-0 mt-1 pl-4">
+      {files.map(f => <li key={f}><code className="text-xs font-mono">{f}</code></li>)}
+    </ul>
+  );
+}
+
+export const IncomingModal = ({app, branch, commits, diff, conflicts, blocked, loadVersions, onSelectCommit, onMerge, onCancel}: IncomingModalProps) => {
+  const [tab, setTab] = useState<Tab>("commits");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const merge = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      await onMerge();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="remote-vault-sync flex flex-col h-full min-h-0">
+      {/* Conflict preview */}
+      <div className="flex flex-col gap-2 p-2 text-sm border-b border-(--background-modifier-border)">
+        <div>{plural(commits.length, "incoming commit")} on <code>{branch}</code></div>
+        {blocked.length > 0 && (
+          <div className="text-red-500">
+            Uncommitted changes to these files would be overwritten. Sync or commit them before merging:
+            <FileList files={blocked} />
+          </div>
+        )}
+        {conflicts === null && (
+          <div className="text-(--text-muted)">Couldn't check for conflicts; this needs git 2.38 or later</div>
+        )}
+        {conflicts?.length === 0 && <div className="text-green-500">Merges without conflicts</div>}
+        {conflicts && conflicts.length > 0 && (
+          <div className="text-yellow-500">
+            {plural(conflicts.length, "file")} would conflict and need resolving after merging:
+            <FileList files={conflicts} />
+          </div>
+        )}
+      </div>
+
+      {/* Commits and combined diff */}
+      <div className="flex items-center gap-2 p-2">
+        <button className={`${btn} ${tab === "commits" ? "bg-(--interactive-accent) text-(--text-on-accent)" : ""}`} onClick={() => setTab("commits")}>
+          Commits
+        </button>
+        <button className={`${btn} ${tab === "changes" ? "bg-(--interactive-accent) text-(--text-on-accent)" : ""}`} onClick={() => setTab("changes")}>
+          All changes
+        </button>
+      </div>
+      <div className="flex-1 min-h-0 overflow-auto">
+        {tab === "commits" && <LogModal commits={commits} onSelect={onSelectCommit} />}
+        {tab === "changes" && <DiffModal app={app} diff={diff} status={emptyStatus} loadVersions={loadVersions} />}
+      </div>
+
+      {/* Actions */}
+      <div className="flex items-center gap-2 p-2 border-t border-(--background-modifier-border)">
+        {error && <span className="text-xs text-red-500 break-all">{error}</span>}
+        <div className="flex-1" />
+        <button className={btn} disabled={busy} onClick={onCancel}>Cancel</button>
+        <button className={`${btn} mod-cta`} disabled={busy || blocked.length > 0} onClick={() => void merge()}>
+          {busy ? "Merging..." : "Merge all"}
+        </button>
+      </div>
+    </div>
+  );
+};
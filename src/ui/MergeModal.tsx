@@ -1,90 +1,248 @@
-// Modal for resolving merge conflicts
-import {useState, useCallback} from "react";
+// Modal for resolving merge conflicts: a three-way editor (base, local, remote) per text file
+// with a choice per conflict, an editable result and its preview; binary files and files
+// deleted on one side keep one side whole
+import {useState, useCallback, useMemo} from "react";
+import type {App} from "obsidian";
+import {ConflictChoice, MergeChunk, mergeChunks, mergedText, hasConflictMarkers} from "../utils/merge";
+import {mergeMarkdown} from "../utils/markdown-merge";
+import {Markdown} from "./RenderedDiff";
 
-export type Resolution = "ours" | "theirs" | "both";
+// A side kept whole, or the merged content to write
+export type Resolution = "ours" | "theirs" | {content: string};
+
+export interface ConflictFile {
+  path: string;
+  base: string | null;    // null when both sides added the file
+  ours: string | null;    // null when deleted locally
+  theirs: string | null;  // null when deleted on the remote
+  binary: boolean;        // binary or LFS-tracked; only a whole side can be kept
+}
 
 export interface MergeModalProps {
-  conflicts: string[];
-  conflictContents: Record<string, string>;
+  app: App;
+  files: ConflictFile[];
   onResolve: (resolutions: Record<string, Resolution>) => void;
   onCancel: () => void;
 }
 
-// Render conflict content with ours/theirs sections
-function renderConflictContent(content: string, resolution?: Resolution) {
-  const lines = content.split("\n");
-  let mode: "normal" | "local" | "remote" = "normal";
+type Side = "ours" | "theirs";
 
-  return lines.map((line, i) => {
-    if (line.startsWith("<<<<<<<")) {
-      mode = "local";
-      const dim = resolution === "theirs" ? " opacity-30" : "";
-      return <div key={i} className={`text-(--text-faint) whitespace-pre${dim}`}>{line}</div>;
-    }
-    if (line.startsWith("=======")) {
-      mode = "remote";
-      return <div key={i} className="text-(--text-faint) whitespace-pre">{line}</div>;
-    }
-    if (line.startsWith(">>>>>>>")) {
-      mode = "normal";
-      const dim = resolution === "ours" ? " opacity-30" : "";
-      return <div key={i} className={`text-(--text-faint) whitespace-pre${dim}`}>{line}</div>;
-    }
+const CHOICE_LABELS: Record<ConflictChoice, string> = {
+  ours: "Local",
+  theirs: "Remote",
+  both: "Both",
+  base: "Base",
+};
 
-    const isLocalDimmed = resolution === "theirs";
-    const isRemoteDimmed = resolution === "ours";
-
-    if (mode === "local") {
-      const cls = isLocalDimmed ? "opacity-30 line-through" : "bg-[rgba(88,166,92,0.08)] border-l-2 border-l-[rgba(88,166,92,0.5)]";
-      return <div key={i} className={`${cls} whitespace-pre`}>{line || " "}</div>;
-    }
-    if (mode === "remote") {
-      const cls = isRemoteDimmed ? "opacity-30 line-through" : "bg-[rgba(69,137,191,0.08)] border-l-2 border-l-[rgba(69,137,191,0.5)]";
-      return <div key={i} className={`${cls} whitespace-pre`}>{line || " "}</div>;
-    }
-    return <div key={i} className="whitespace-pre">{line || " "}</div>;
-  });
-}
+// Lines shown around a collapsed run of unchanged lines
+const CONTEXT_LINES = 2;
 
 // Button style helper
 const btn = "px-3 py-1 text-xs rounded border border-(--background-modifier-border) hover:bg-(--background-modifier-hover)";
 const btnSelected = "px-3 py-1 text-xs rounded bg-(--interactive-accent) text-(--text-on-accent) border border-(--interactive-accent)";
 
-export const MergeModal = ({conflicts, conflictContents, onResolve, onCancel}: MergeModalProps) => {
-  const [resolutions, setResolutions] = useState<Record<string, Resolution>>({});
+const localClass = "bg-[rgba(88,166,92,0.08)] border-l-2 border-l-[rgba(88,166,92,0.5)]";
+const remoteClass = "bg-[rgba(69,137,191,0.08)] border-l-2 border-l-[rgba(69,137,191,0.5)]";
+
+const editable = (file: ConflictFile) => !file.binary && file.ours !== null && file.theirs !== null;
+const isMarkdown = (path: string) => /\.md$/i.test(path);
+
+// Notes are merged by frontmatter key and heading section, as sync does, so only overlaps show
+function chunksOf(file: ConflictFile): MergeChunk[] {
+  const merge = isMarkdown(file.path) ? mergeMarkdown : mergeChunks;
+  return merge(file.base ?? "", file.ours ?? "", file.theirs ?? "");
+}
+
+function Lines({lines, className = ""}: {lines: string[]; className?: string}) {
+  return (
+    <div className={`min-w-0 px-1 whitespace-pre-wrap break-all ${className}`}>
+      {lines.map((line, i) => <div key={i}>{line || " "}</div>)}
+    </div>
+  );
+}
+
+// Unchanged lines, long runs collapsed to their first and last few
+function SameRow({lines}: {lines: string[]}) {
+  if (lines.length <= CONTEXT_LINES * 2 + 1) return <Lines lines={lines} className="col-span-3 text-(--text-muted)" />;
+  return (
+    <div className="col-span-3 text-(--text-muted)">
+      <Lines lines={lines.slice(0, CONTEXT_LINES)} />
+      <div className="px-1 text-(--text-faint)">⋯ {lines.length - CONTEXT_LINES * 2} unchanged lines</div>
+      <Lines lines={lines.slice(-CONTEXT_LINES)} />
+    </div>
+  );
+}
+
+function ChunkRows({chunk, choice, disabled, onChoose}: {
+  chunk: MergeChunk;
+  choice?: ConflictChoice;
+  disabled: boolean;
+  onChoose: (choice: ConflictChoice) => void;
+}) {
+  if (chunk.kind === "same") return <SameRow lines={chunk.lines} />;
+  if (chunk.kind !== "conflict") {
+    // Changed on one side only: merged automatically
+    return (
+      <>
+        <Lines lines={chunk.base} className="text-(--text-muted)" />
+        <Lines lines={chunk.kind === "ours" ? chunk.lines : chunk.base} className={chunk.kind === "ours" ? localClass : "text-(--text-muted)"} />
+        <Lines lines={chunk.kind === "theirs" ? chunk.lines : chunk.base} className={chunk.kind === "theirs" ? remoteClass : "text-(--text-muted)"} />
+      </>
+    );
+  }
+  return (
+    <>
+      <Lines lines={chunk.base} className={`text-(--text-muted) ${choice === "base" ? "" : "opacity-60"}`} />
+      <Lines lines={chunk.ours} className={`${localClass} ${choice === "theirs" || choice === "base" ? "opacity-30 line-through" : ""}`} />
+      <Lines lines={chunk.theirs} className={`${remoteClass} ${choice === "ours" || choice === "base" ? "opacity-30 line-through" : ""}`} />
+      <div className="col-span-3 flex items-center gap-1 py-1">
+        <span className="text-(--text-muted) pr-1">Keep</span>
+        {(Object.keys(CHOICE_LABELS) as ConflictChoice[]).map(c => (
+          <button key={c} className={choice === c ? btnSelected : btn} disabled={disabled} onClick={() => onChoose(c)}>
+            {CHOICE_LABELS[c]}
+          </button>
+        ))}
+      </div>
+    </>
+  );
+}
+
+// Three-way view of one text file, its merged result and a preview
+function FileEditor({app, file, chunks, choices, edited, onChoose, onEdit}: {
+  app: App;
+  file: ConflictFile;
+  chunks: MergeChunk[];
+  choices: (ConflictChoice | undefined)[];
+  edited?: string;
+  onChoose: (index: number, choice: ConflictChoice) => void;
+  onEdit: (text: string | undefined) => void;
+}) {
+  const [tab, setTab] = useState<"result" | "preview">("result");
+  const result = edited ?? mergedText(chunks, choices);
+  let conflict = 0;
+
+  return (
+    <div className="flex flex-col border-t border-(--background-modifier-border)">
+      <div className="grid grid-cols-3 gap-x-2 px-3 py-2 font-mono text-xs bg-(--background-primary) overflow-x-auto">
+        {["Base", "Local", "Remote"].map(label => (
+          <div key={label} className="pb-1 font-sans text-(--text-muted)">{label}</div>
+        ))}
+        {chunks.map((chunk, i) => {
+          const index = chunk.kind === "conflict" ? conflict++ : -1;
+          return (
+            <div key={i} className="contents">
+              <ChunkRows chunk={chunk} choice={choices[index]} disabled={edited !== undefined} onChoose={c => onChoose(index, c)} />
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Merged result */}
+      <div className="flex items-center gap-2 px-3 py-2 border-t border-(--background-modifier-border)">
+        <button className={tab === "result" ? btnSelected : btn} onClick={() => setTab("result")}>Result</button>
+        <button className={tab === "preview" ? btnSelected : btn} onClick={() => setTab("preview")}>Preview</button>
+        <div className="flex-1" />
+        {edited !== undefined && (
+          <>
+            <span className="text-xs text-(--text-muted)">Edited by hand; the choices above no longer apply</span>
+            <button className={btn} onClick={() => onEdit(undefined)}>Reset</button>
+          </>
+        )}
+      </div>
+      <div className="px-3 pb-2">
+        {tab === "result" && (
+          <textarea
+            className="w-full h-48 font-mono text-xs"
+            value={result}
+            onChange={e => onEdit(e.target.value)}
+          />
+        )}
+        {tab === "preview" && (
+          isMarkdown(file.path)
+            ? <Markdown app={app} path={file.path} markdown={result} className="max-h-96 overflow-auto" />
+            : <pre className="m-0 max-h-96 overflow-auto font-mono text-xs whitespace-pre-wrap">{result}</pre>
+        )}
+        {hasConflictMarkers(result) && (
+          <div className="text-xs text-(--text-warning) pt-1">Conflict markers left in the result</div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Binary files and files deleted on one side: keep the local or the remote version
+function WholeFile({file, side, onPick}: {file: ConflictFile; side?: Side; onPick: (side: Side) => void}) {
+  const reason = file.ours === null ? "Deleted locally, changed on the remote"
+    : file.theirs === null ? "Changed locally, deleted on the remote"
+    : "Binary file";
+  const label = (s: Side) => (s === "ours" ? file.ours : file.theirs) === null ? "delete" : "keep";
+  return (
+    <div className="flex items-center gap-1 px-3 py-2 border-t border-(--background-modifier-border)">
+      <span className="text-xs text-(--text-muted) flex-1">{reason}</span>
+      <button className={side === "ours" ? btnSelected : btn} onClick={() => onPick("ours")}>Local ({label("ours")})</button>
+      <button className={side === "theirs" ? btnSelected : btn} onClick={() => onPick("theirs")}>Remote ({label("theirs")})</button>
+    </div>
+  );
+}
+
+export const MergeModal = ({app, files, onResolve, onCancel}: MergeModalProps) => {
+  const [choices, setChoices] = useState<Record<string, (ConflictChoice | undefined)[]>>({});
+  const [edited, setEdited] = useState<Record<string, string | undefined>>({});
+  const [sides, setSides] = useState<Record<string, Side>>({});
   const [expanded, setExpanded] = useState<Record<string, boolean>>(() =>
-    Object.fromEntries(conflicts.map(f => [f, true]))
+    Object.fromEntries(files.map(f => [f.path, true]))
   );
 
-  const setResolution = useCallback((file: string, resolution: Resolution) => {
-    setResolutions(prev => ({...prev, [file]: resolution}));
-  }, []);
+  const chunks = useMemo(() => Object.fromEntries(files.filter(editable).map(f => [f.path, chunksOf(f)])), [files]);
+
+  // The content each editable file resolves to, with markers where a conflict has no choice yet
+  const results = useMemo(() => Object.fromEntries(Object.entries(chunks).map(([path, c]) =>
+    [path, edited[path] ?? mergedText(c, choices[path] ?? [])]
+  )), [chunks, choices, edited]);
 
-  const setAllResolutions = useCallback((resolution: Resolution) => {
-    setResolutions(Object.fromEntries(conflicts.map(f => [f, resolution])));
-  }, [conflicts]);
+  const isResolved = (file: ConflictFile) => editable(file) ? !hasConflictMarkers(results[file.path] ?? "") : !!sides[file.path];
+  const resolvedCount = files.filter(isResolved).length;
+  const allResolved = resolvedCount === files.length;
 
-  const toggleExpanded = useCallback((file: string) => {
-    setExpanded(prev => ({...prev, [file]: !prev[file]}));
+  const choose = useCallback((path: string, index: number, choice: ConflictChoice) => {
+    setChoices(prev => {
+      const next = [...(prev[path] ?? [])];
+      next[index] = choice;
+      return {...prev, [path]: next};
+    });
   }, []);
 
-  const allResolved = conflicts.every(f => resolutions[f]);
+  // Every conflict in every file; hand edits are dropped, binary files only take a side
+  const chooseAll = useCallback((choice: ConflictChoice) => {
+    setChoices(Object.fromEntries(Object.entries(chunks).map(([path, c]) =>
+      [path, c.filter(chunk => chunk.kind === "conflict").map(() => choice)]
+    )));
+    setEdited({});
+    if (choice === "ours" || choice === "theirs") {
+      setSides(Object.fromEntries(files.filter(f => !editable(f)).map(f => [f.path, choice])));
+    }
+  }, [chunks, files]);
+
+  const toggleExpanded = useCallback((path: string) => {
+    setExpanded(prev => ({...prev, [path]: !prev[path]}));
+  }, []);
 
   const handleResolve = useCallback(() => {
-    if (allResolved) onResolve(resolutions);
-  }, [allResolved, resolutions, onResolve]);
+    if (!allResolved) return;
+    onResolve(Object.fromEntries(files.map(f => [f.path, editable(f) ? {content: results[f.path]!} : sides[f.path]!])));
+  }, [allResolved, files, results, sides, onResolve]);
 
   return (
     <div className="remote-vault-sync flex flex-col h-full">
       {/* Header */}
       <div className="flex items-center gap-2 p-3 border-b border-(--background-modifier-border)">
         <div className="flex gap-1">
-          <button className={btn} onClick={() => setAllResolutions("ours")}>All Ours</button>
-          <button className={btn} onClick={() => setAllResolutions("theirs")}>All Theirs</button>
-          <button className={btn} onClick={() => setAllResolutions("both")}>All Both</button>
+          <button className={btn} onClick={() => chooseAll("ours")}>All Local</button>
+          <button className={btn} onClick={() => chooseAll("theirs")}>All Remote</button>
+          <button className={btn} onClick={() => chooseAll("both")}>All Both</button>
         </div>
         <div className="flex-1" />
-        <span className="text-xs text-(--text-muted)">{Object.keys(resolutions).length}/{conflicts.length}</span>
+        <span className="text-xs text-(--text-muted)">{resolvedCount}/{files.length}</span>
         <button className={btn} onClick={onCancel}>Cancel</button>
         <button
           className={allResolved ? btnSelected : `${btn} opacity-50 cursor-not-allowed`}
@@ -97,56 +255,34 @@ export const MergeModal = ({conflicts, conflictContents, onResolve, onCancel}: M
 
       {/* Conflict list */}
       <div className="flex-1 overflow-auto p-2">
-        {conflicts.map(file => {
-          const content = conflictContents[file] ?? "";
-          const resolution = resolutions[file];
-          const isExpanded = expanded[file];
-
-          return (
-            <div key={file} className="mb-2 rounded border border-(--background-modifier-border) overflow-hidden">
-              {/* File header */}
-              <div
-                className="flex items-center gap-2 px-3 py-2 cursor-pointer hover:bg-(--background-modifier-hover) bg-(--background-secondary)"
-                onClick={() => toggleExpanded(file)}
-              >
-                <span className="text-(--text-muted) text-xs">{isExpanded ? "▾" : "▸"}</span>
-                <code className="text-xs font-mono truncate flex-1">{file}</code>
-                {resolution && <span className="text-xs text-(--text-muted)">✓ {resolution}</span>}
-              </div>
-
-              {isExpanded && (
-                <>
-                  {/* Resolution buttons */}
-                  <div className="flex gap-1 px-3 py-2 border-t border-(--background-modifier-border)">
-                    <button
-                      className={resolution === "ours" ? btnSelected : btn}
-                      onClick={e => { e.stopPropagation(); setResolution(file, "ours"); }}
-                    >
-                      Ours
-                    </button>
-                    <button
-                      className={resolution === "theirs" ? btnSelected : btn}
-                      onClick={e => { e.stopPropagation(); setResolution(file, "theirs"); }}
-                    >
-                      Theirs
-                    </button>
-                    <button
-                      className={resolution === "both" ? btnSelected : btn}
-                      onClick={e => { e.stopPropagation(); setResolution(file, "both"); }}
-                    >
-                      Both
-                    </button>
-                  </div>
-
-                  {/* Conflict content */}
-                  <div className="px-3 py-2 font-mono text-xs overflow-x-auto border-t border-(--background-modifier-border) bg-(--background-primary)">
-                    {renderConflictContent(content, resolution)}
-                  </div>
-                </>
-              )}
+        {files.map(file => (
+          <div key={file.path} className="mb-2 rounded border border-(--background-modifier-border) overflow-hidden">
+            {/* File header */}
+            <div
+              className="flex items-center gap-2 px-3 py-2 cursor-pointer hover:bg-(--background-modifier-hover) bg-(--background-secondary)"
+              onClick={() => toggleExpanded(file.path)}
+            >
+              <span className="text-(--text-muted) text-xs">{expanded[file.path] ? "▾" : "▸"}</span>
+              <code className="text-xs font-mono truncate flex-1">{file.path}</code>
+              {isResolved(file) && <span className="text-xs text-(--text-muted)">✓ resolved</span>}
             </div>
-          );
-        })}
+
+            {expanded[file.path] && (editable(file)
+              ? (
+                <FileEditor
+                  app={app}
+                  file={file}
+                  chunks={chunks[file.path]!}
+                  choices={choices[file.path] ?? []}
+                  edited={edited[file.path]}
+                  onChoose={(index, choice) => choose(file.path, index, choice)}
+                  onEdit={text => setEdited(prev => ({...prev, [file.path]: text}))}
+                />
+              )
+              : <WholeFile file={file} side={sides[file.path]} onPick={side => setSides(prev => ({...prev, [file.path]: side}))} />
+            )}
+          </div>
+        ))}
       </div>
     </div>
   );
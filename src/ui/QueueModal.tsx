@@ -0,0 +1,73 @@
+// Modal listing sync operations waiting to be retried
+import {useState, useCallback} from "react";
+import dayjs from "dayjs";
+import relativeTime from "dayjs/plugin/relativeTime";
+import {QueuedOperation} from "../utils/queue";
+
+dayjs.extend(relativeTime);
+
+export interface QueueModalProps {
+  getOperations: () => QueuedOperation[];
+  onRetry: (ids?: string[]) => Promise<void>;
+  onCancel: (id: string) => Promise<void>;
+}
+
+const labels: Record<QueuedOperation["kind"], string> = {
+  push: "Push",
+  pull: "Pull",
+  sync: "Sync",
+};
+
+// Button style helper
+const btn = "px-3 py-1 text-xs rounded border border-(--background-modifier-border) hover:bg-(--background-modifier-hover)";
+
+export const QueueModal = ({getOperations, onRetry, onCancel}: QueueModalProps) => {
+  const [operations, setOperations] = useState(getOperations);
+  const [busy, setBusy] = useState(false);
+
+  // Run an action, then reload the list from the queue
+  const run = useCallback(async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+    } finally {
+      setOperations(getOperations());
+      setBusy(false);
+    }
+  }, [getOperations]);
+
+  if (!operations.length) {
+    return <div className="remote-vault-sync text-(--text-muted) p-4">No pending sync operations</div>;
+  }
+
+  return (
+    <div className="remote-vault-sync flex flex-col h-full">
+      {/* Header */}
+      <div className="flex items-center gap-2 p-3 border-b border-(--background-modifier-border)">
+        <span className="text-xs text-(--text-muted)">{operations.length} pending</span>
+        <div className="flex-1" />
+        <button className={`${btn} ${busy ? "opacity-50 cursor-not-allowed" : ""}`} disabled={busy} onClick={() => void run(() => onRetry())}>
+          Retry all
+        </button>
+      </div>
+
+      {/* Operation list */}
+      <div className="flex-1 overflow-auto p-2">
+        {operations.map(op => (
+          <div key={op.id} className="mb-2 rounded border border-(--background-modifier-border) px-3 py-2 flex flex-col gap-1">
+            <div className="flex items-center gap-2">
+              <span className="font-semibold text-sm">{labels[op.kind]}</span>
+              <span className="text-xs text-(--text-muted)">
+                queued {dayjs(op.createdAt).fromNow()}, {op.attempts} attempt{op.attempts === 1 ? "" : "s"}, last {dayjs(op.lastAttemptAt).fromNow()}
+              </span>
+              <div className="flex-1" />
+              <button className={btn} disabled={busy} onClick={() => void run(() => onRetry([op.id]))}>Retry</button>
+              <button className={btn} disabled={busy} onClick={() => void run(() => onCancel(op.id))}>Cancel</button>
+            </div>
+            <div className="text-xs text-red-500 break-all">{op.lastError}</div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,100 @@
+// Old and new versions of a markdown file rendered with Obsidian's renderer, inserted blocks
+// highlighted green and removed ones red
+import {useEffect, useMemo, useRef} from "react";
+import {App, Component, MarkdownRenderer} from "obsidian";
+import {BlockChange, BlockRun, diffBlocks, groupRuns} from "../utils/markdown-diff";
+
+export interface RenderedDiffProps {
+  app: App;
+  path: string;          // source path, for resolving links and embeds
+  old: string | null;    // null when the file didn't exist
+  new: string | null;    // null when the file was deleted
+}
+
+// Block and row tints
+const changeClass: Record<BlockChange["kind"], string> = {
+  same: "",
+  add: "bg-green-500/10 border-l-2 border-green-500",
+  del: "bg-red-500/10 border-l-2 border-red-500 opacity-75",
+};
+
+// Markdown rendered by Obsidian, re-rendered when it changes
+export function Markdown({app, path, markdown, className, mark}: {
+  app: App;
+  path: string;
+  markdown: string;
+  className?: string;
+  mark?: (el: HTMLElement) => void;  // tags rendered rows or items once rendering is done
+}) {
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const el = ref.current;
+    if (!el) return;
+    // Renderer children (embeds, code blocks) unload with the component
+    const component = new Component();
+    component.load();
+    el.empty();
+    MarkdownRenderer.render(app, markdown, el, path, component)
+      .then(() => mark?.(el))
+      .catch((e: unknown) => console.error("[remote-vault-sync] Rendering diff failed:", e));
+    return () => component.unload();
+  }, [app, path, markdown, mark]);
+
+  return <div ref={ref} className={`markdown-rendered px-2 ${className ?? ""}`} />;
+}
+
+// Tag the n-th matching element with the n-th change's tint
+function markElements(selector: string, changes: BlockChange[]) {
+  return (el: HTMLElement) => {
+    el.querySelectorAll<HTMLElement>(selector).forEach((node, i) => {
+      const kind = changes[i]?.kind;
+      if (kind && kind !== "same") node.addClasses(changeClass[kind].split(" "));
+    });
+  };
+}
+
+function Properties({changes}: {changes: BlockChange[]}) {
+  return (
+    <table className="w-full text-sm my-2">
+      <tbody>
+        {changes.map((c, i) => (
+          <tr key={i} className={changeClass[c.kind]}>
+            <td className="px-2 py-0.5 align-top text-(--text-muted) whitespace-nowrap">{c.block.key}</td>
+            <td className="px-2 py-0.5 font-mono text-xs whitespace-pre-wrap break-all">
+              {c.block.text.slice(c.block.text.indexOf(":") + 1).trim()}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+function Run({app, path, run}: {app: App; path: string; run: BlockRun}) {
+  const {changes} = run;
+  const mark = useMemo(() => {
+    if (run.kind === "table") return markElements("tr", changes);
+    if (run.kind === "list") return markElements(":scope > ul > li, :scope > ol > li", changes);
+    return undefined;
+  }, [run.kind, changes]);
+
+  if (run.kind === "properties") return <Properties changes={changes} />;
+  const markdown = changes.map(c => c.block.text).join(run.kind === "blocks" ? "\n\n" : "\n");
+  // Unchanged runs and combined tables/lists carry their tints on rows and items; single changed blocks on the wrapper
+  const className = run.kind === "blocks" ? changeClass[changes[0]!.kind] : "";
+  return <Markdown app={app} path={path} markdown={markdown} className={className} mark={mark} />;
+}
+
+export const RenderedDiff = ({app, path, old, new: current}: RenderedDiffProps) => {
+  const runs = useMemo(() => groupRuns(diffBlocks(old ?? "", current ?? "")), [old, current]);
+
+  if (!runs.some(r => r.changes.some(c => c.kind !== "same"))) {
+    return <div className="p-2 text-xs text-(--text-muted) border-t border-(--background-modifier-border)">No changes in the rendered text</div>;
+  }
+  return (
+    <div className="p-2 border-t border-(--background-modifier-border)">
+      {runs.map((run, i) => <Run key={i} app={app} path={path} run={run} />)}
+    </div>
+  );
+};
@@ -3,14 +3,16 @@ import {Plugin, addIcon} from 'obsidian';
 // Cloud with history/restore icon
 const CLOUD_BACKUP_SVG = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M18 10h-1.26A8 8 0 1 0 9 20h9a5 5 0 0 0 0-10z"/><polyline points="16 16 12 12 8 16"/></svg>`;
 
-// Ribbon button management for push/pull/restore actions
+// Ribbon button management for sync/push/pull/restore actions
 export class RibbonButtons {
+	private syncEl: HTMLElement;
 	private pushEl: HTMLElement;
 	private pullEl: HTMLElement;
 	private restoreEl: HTMLElement;
 
-	constructor(plugin: Plugin, onPush: () => void, onPull: () => void, onRestore: () => void) {
+	constructor(plugin: Plugin, onSync: () => void, onPush: () => void, onPull: () => void, onRestore: () => void) {
 		addIcon('cloud-backup', CLOUD_BACKUP_SVG);
+		this.syncEl = plugin.addRibbonIcon('refresh-cw', 'Sync with remote', onSync);
 		this.pushEl = plugin.addRibbonIcon('upload-cloud', 'Push to remote', onPush);
 		this.restoreEl = plugin.addRibbonIcon('cloud-backup', 'Restore changes', onRestore);
 		this.pullEl = plugin.addRibbonIcon('download-cloud', 'Pull from remote', onPull);
@@ -19,6 +21,7 @@ export class RibbonButtons {
 	reorder() {
 		const ribbon = this.pushEl.parentElement;
 		if (ribbon) {
+			ribbon.appendChild(this.syncEl);
 			ribbon.appendChild(this.pushEl);
 			ribbon.appendChild(this.restoreEl);
 			ribbon.appendChild(this.pullEl);
@@ -30,6 +33,7 @@ export class RibbonButtons {
 	}
 
 	setLocked(locked: boolean) {
+		this.toggleDisabled(this.syncEl, locked);
 		this.toggleDisabled(this.pushEl, locked);
 		this.toggleDisabled(this.pullEl, locked);
 		this.toggleDisabled(this.restoreEl, locked);
@@ -40,6 +44,7 @@ export class RibbonButtons {
 	}
 
 	destroy() {
+		this.syncEl.remove();
 		this.pushEl.remove();
 		this.pullEl.remove();
 		this.restoreEl.remove();
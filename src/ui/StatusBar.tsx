@@ -1,3 +1,10 @@
+import { ReactNode, useEffect, useRef, useState } from "react";
+import dayjs from "dayjs";
+import relativeTime from "dayjs/plugin/relativeTime";
+import { SchedulerState } from "../utils/scheduler";
+
+dayjs.extend(relativeTime);
+
 // Status bar indicator for sync state
 export type SyncStatus = "clean" | "changes" | "error" | "disconnected" | "syncing";
 
@@ -5,6 +12,23 @@ export interface StatusBarProps {
   status: SyncStatus;
   step?: string;        // e.g. "Pushing...", "Staging..."
   progress?: number;    // 0-100 for LFS uploads
+  ahead?: number;       // commits not on the last known remote head
+  behind?: number;      // commits on the last known remote head not merged locally
+  details?: StatusDetails;
+  autoSync?: SchedulerState;        // absent when auto-sync is disabled
+  onToggleAutoSync?: () => void;
+}
+
+// Shown in the popover when the status bar is clicked
+export interface StatusDetails {
+  remote: string;                   // s3://bucket/path
+  branch: string | null;
+  remoteHead: string | null;        // last known remote commit
+  pendingFiles: number;
+  queuedOperations: number;         // failed operations waiting to be retried
+  lastPushAt: number | null;
+  lastPullAt: number | null;
+  lastError: { message: string; at: number } | null;
 }
 
 const statusColors: Record<SyncStatus, string> = {
@@ -23,9 +47,85 @@ const statusLabels: Record<SyncStatus, string> = {
   syncing: "Syncing",
 };
 
-export const StatusBar = ({ status, step, progress }: StatusBarProps) => {
+function autoSyncLabel({ paused, running, failures, nextRunAt }: SchedulerState): string {
+  if (paused) return "Auto-sync paused, click to resume";
+  if (running) return "Auto-syncing...";
+  const next = nextRunAt ? new Date(nextRunAt).toLocaleTimeString() : null;
+  if (failures) return `Auto-sync failed ${failures}x${next ? `, retrying at ${next}` : ""}. Click to pause`;
+  return next ? `Next auto-sync at ${next}. Click to pause` : "Auto-sync on, click to pause";
+}
+
+const AutoSyncToggle = ({ state, onToggle }: { state: SchedulerState; onToggle?: () => void }) => (
+  <span
+    className={`inline-flex items-center cursor-pointer ${state.failures && !state.paused ? "text-red-500" : "text-(--text-muted)"} hover:text-(--text-normal)`}
+    title={autoSyncLabel(state)}
+    onClick={(e) => {
+      e.stopPropagation();
+      onToggle?.();
+    }}
+  >
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" width="12" height="12" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+      {state.paused
+        ? <polygon points="6 3 20 12 6 21 6 3" />
+        : <><rect x="14" y="4" width="4" height="16" rx="1" /><rect x="6" y="4" width="4" height="16" rx="1" /></>}
+    </svg>
+  </span>
+);
+
+function formatTime(ts: number | null): string {
+  return ts ? `${dayjs(ts).fromNow()} (${dayjs(ts).format("MMM D, HH:mm")})` : "Never";
+}
+
+const DetailRow = ({ label, children }: { label: string; children: ReactNode }) => (
+  <div className="flex justify-between gap-4">
+    <span className="text-(--text-muted)">{label}</span>
+    <span className="text-right break-all">{children}</span>
+  </div>
+);
+
+const StatusPopover = ({ details, ahead, behind }: { details: StatusDetails; ahead?: number; behind?: number }) => (
+  <div className="absolute bottom-full right-0 mb-2 z-50 w-80 flex flex-col gap-1.5 p-3 rounded-md border border-(--background-modifier-border) bg-(--background-primary) shadow-lg text-xs cursor-default">
+    <DetailRow label="Remote"><span className="font-mono">{details.remote}</span></DetailRow>
+    <DetailRow label="Branch">{details.branch ?? "-"}</DetailRow>
+    <DetailRow label="Remote head">
+      <span className="font-mono">{details.remoteHead ? details.remoteHead.slice(0, 7) : "Unknown"}</span>
+      {ahead !== undefined && behind !== undefined && ` (${ahead} ahead, ${behind} behind)`}
+    </DetailRow>
+    <DetailRow label="Pending files">{details.pendingFiles}</DetailRow>
+    {details.queuedOperations > 0 && <DetailRow label="Queued operations">{details.queuedOperations}</DetailRow>}
+    <DetailRow label="Last push">{formatTime(details.lastPushAt)}</DetailRow>
+    <DetailRow label="Last pull">{formatTime(details.lastPullAt)}</DetailRow>
+    {details.lastError && (
+      <div className="flex flex-col gap-0.5 pt-1.5 border-t border-(--background-modifier-border)">
+        <span className="text-red-500">Last error {dayjs(details.lastError.at).fromNow()}</span>
+        <span className="break-all">{details.lastError.message}</span>
+      </div>
+    )}
+  </div>
+);
+
+export const StatusBar = ({ status, step, progress, ahead, behind, details, autoSync, onToggleAutoSync }: StatusBarProps) => {
+  const [open, setOpen] = useState(false);
+  const ref = useRef<HTMLDivElement>(null);
+
+  // Close the popover on any click outside it
+  useEffect(() => {
+    if (!open) return;
+    const onClick = (e: MouseEvent) => {
+      if (!ref.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener("mousedown", onClick);
+    return () => document.removeEventListener("mousedown", onClick);
+  }, [open]);
+
   return (
-    <div className="remote-vault-sync flex items-center gap-2 text-xs">
+    <div
+      ref={ref}
+      className={`remote-vault-sync relative flex items-center gap-2 text-xs ${details ? "cursor-pointer" : ""}`}
+      onClick={() => details && setOpen(o => !o)}
+    >
+      {open && details && <StatusPopover details={details} ahead={ahead} behind={behind} />}
+
       {step && <span className="text-(--text-muted)">{step}</span>}
 
       {progress !== undefined && (
@@ -40,8 +140,16 @@ export const StatusBar = ({ status, step, progress }: StatusBarProps) => {
         </div>
       )}
 
+      {(ahead || behind) ? (
+        <span className="text-(--text-muted)" title={`${ahead ?? 0} ahead, ${behind ?? 0} behind the remote`}>
+          {ahead ? `↑${ahead}` : ""}{ahead && behind ? " " : ""}{behind ? `↓${behind}` : ""}
+        </span>
+      ) : null}
+
+      {autoSync && <AutoSyncToggle state={autoSync} onToggle={onToggleAutoSync} />}
+
       <span
-        className={`w-2.5 h-2.5 rounded-full inline-flex items-center justify-center cursor-default ml-1 ${statusColors[status]}`}
+        className={`w-2.5 h-2.5 rounded-full inline-flex items-center justify-center ml-1 ${statusColors[status]}`}
         title={statusLabels[status]}
       />
     </div>
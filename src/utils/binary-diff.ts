@@ -0,0 +1,69 @@
+// Comparison of binary file versions: per-pixel image differences and the metadata
+// shown for files that can't be compared visually
+
+// Raw RGBA pixels, as in the browser's ImageData
+export interface Pixels {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+export interface PixelDiff extends Pixels {
+  changed: number;  // pixels that differ by more than the tolerance
+}
+
+export interface PdfInfo {
+  version?: string;
+  pages?: number;
+  title?: string;
+}
+
+const DEFAULT_TOLERANCE = 8;  // largest channel difference still treated as equal (lossy re-encoding noise)
+
+export function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+// Changed pixels in solid red over a faded grayscale copy of the new image; both images
+// must be drawn on canvases of the same size
+export function pixelDiff(a: Pixels, b: Pixels, tolerance = DEFAULT_TOLERANCE): PixelDiff {
+  if (a.width !== b.width || a.height !== b.height) {
+    throw new Error(`Images differ in size: ${a.width}×${a.height} and ${b.width}×${b.height}`);
+  }
+  const data = new Uint8ClampedArray(a.data.length);
+  let changed = 0;
+  for (let p = 0; p < data.length; p += 4) {
+    let delta = 0;
+    for (let c = 0; c < 4; c++) delta = Math.max(delta, Math.abs(a.data[p + c]! - b.data[p + c]!));
+    if (delta > tolerance) {
+      changed++;
+      data.set([255, 0, 0, 255], p);
+    } else {
+      const gray = 0.299 * b.data[p]! + 0.587 * b.data[p + 1]! + 0.114 * b.data[p + 2]!;
+      // Fade toward white so the red stands out; transparent pixels stay transparent
+      data.set([gray, gray, gray].map(v => 255 - (255 - v) * 0.3).concat(b.data[p + 3]!), p);
+    }
+  }
+  return { width: a.width, height: a.height, data, changed };
+}
+
+// Version, page count and title read from the PDF's header and object dictionaries
+export function pdfInfo(bytes: Uint8Array): PdfInfo {
+  const text = new TextDecoder("latin1").decode(bytes);
+  const info: PdfInfo = {};
+  const version = text.match(/^%PDF-(\d+\.\d+)/);
+  if (version) info.version = version[1];
+
+  // Page objects, or with compressed object streams, the page tree's /Count (the root's is the largest)
+  const pageObjects = text.match(/\/Type\s*\/Page(?![a-zA-Z])/g)?.length ?? 0;
+  const counts = [...text.matchAll(/\/Type\s*\/Pages\b[^>]*?\/Count\s+(\d+)|\/Count\s+(\d+)[^>]*?\/Type\s*\/Pages\b/g)]
+    .map(m => parseInt(m[1] ?? m[2]!, 10));
+  if (pageObjects) info.pages = pageObjects;
+  else if (counts.length) info.pages = Math.max(...counts);
+
+  const title = text.match(/\/Title\s*\(((?:\\.|[^\\)])*)\)/);
+  if (title) info.title = title[1]!.replace(/\\(.)/g, "$1");
+  return info;
+}
@@ -0,0 +1,34 @@
+// Commit message templates: {{placeholders}} filled in from the commit being made
+
+export interface TemplateValues {
+  files: string[];  // paths being committed
+  device: string;
+  now: Date;
+}
+
+const MAX_NAMED_FILES = 3;
+
+// "a, b and c" or "a, b, c and 4 more", by file name without folder or .md extension
+function describeFiles(files: string[]): string {
+  const names = files.map(f => (f.split("/").pop() ?? f).replace(/\.md$/i, ""));
+  if (names.length <= MAX_NAMED_FILES) {
+    return names.length > 1 ? `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}` : names[0] ?? "";
+  }
+  return `${names.slice(0, MAX_NAMED_FILES).join(", ")} and ${names.length - MAX_NAMED_FILES} more`;
+}
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+// Placeholders: {{files}}, {{count}}, {{device}}, {{date}} (YYYY-MM-DD) and {{time}} (HH:mm), in local time.
+// Unknown ones are left as they are
+export function renderTemplate(template: string, values: TemplateValues): string {
+  const { now } = values;
+  const fields: Record<string, string> = {
+    files: describeFiles(values.files),
+    count: String(values.files.length),
+    device: values.device,
+    date: `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`,
+    time: `${pad(now.getHours())}:${pad(now.getMinutes())}`,
+  };
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) => fields[name] ?? match);
+}
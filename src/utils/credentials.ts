@@ -0,0 +1,160 @@
+// Credential providers for the S3 client. Temporary credentials carry an expiration, and the
+// SDK client calls the provider again shortly before they expire
+import { spawn } from "child_process";
+import { STSClient, AssumeRoleCommand } from "@aws-sdk/client-sts";
+import { fromIni } from "@aws-sdk/credential-provider-ini";
+import { fromTokenFile } from "@aws-sdk/credential-provider-web-identity";
+import type { AwsCredentialIdentity, AwsCredentialIdentityProvider } from "@smithy/types";
+import { gitEnv } from "./env";
+import type { S3Config } from "./s3";
+
+const ROLE_SESSION_NAME = "remote-vault-sync";
+const PROCESS_TIMEOUT = 60_000;
+
+export type CredentialsMode = "static" | "session" | "profile" | "process" | "assume-role" | "web-identity";
+
+// Settings for modes other than a static key pair (which stays in accessKeyId/secretAccessKey)
+export interface CredentialsConfig {
+  mode: CredentialsMode;
+  sessionToken: string;          // session: token issued with the temporary key pair
+  profile: string;               // profile, or the source of assume-role; empty = default profile / the key pair
+  credentialProcess: string;     // process: command printing credentials as JSON (AWS credential_process format)
+  roleArn: string;               // assume-role, web-identity
+  externalId: string;            // assume-role, empty = none
+  webIdentityTokenFile: string;  // web-identity: file holding the OIDC token
+}
+
+export const CREDENTIALS_MODE_LABELS: Record<CredentialsMode, string> = {
+  static: "Access key",
+  session: "Temporary access key (session token)",
+  profile: "AWS profile",
+  process: "Credential process",
+  "assume-role": "Assume role",
+  "web-identity": "Web identity token",
+};
+
+// Whether the settings for the selected mode are filled in
+export function hasCredentials(config: S3Config): boolean {
+  const { credentials: c, accessKeyId, secretAccessKey } = config;
+  const keyPair = Boolean(accessKeyId && secretAccessKey);
+  switch (c.mode) {
+    case "session": return keyPair && Boolean(c.sessionToken);
+    case "profile": return true;
+    case "process": return Boolean(c.credentialProcess.trim());
+    case "assume-role": return Boolean(c.roleArn) && (keyPair || Boolean(c.profile));
+    case "web-identity": return Boolean(c.roleArn && c.webIdentityTokenFile);
+    default: return keyPair;
+  }
+}
+
+export function createCredentialsProvider(config: S3Config): AwsCredentialIdentityProvider {
+  const { credentials: c } = config;
+  switch (c.mode) {
+    case "session":
+      return keyPair(config, c.sessionToken);
+    case "profile":
+      return fromProfile(c.profile);
+    case "process":
+      return fromCredentialProcess(c.credentialProcess);
+    case "assume-role":
+      return assumeRole(config, c.profile ? fromProfile(c.profile) : keyPair(config, c.sessionToken));
+    case "web-identity":
+      return fromTokenFile({
+        roleArn: c.roleArn,
+        webIdentityTokenFile: c.webIdentityTokenFile,
+        roleSessionName: ROLE_SESSION_NAME,
+        clientConfig: { region: stsRegion(config) },
+      });
+    default:
+      return keyPair(config);
+  }
+}
+
+function keyPair(config: S3Config, sessionToken?: string): AwsCredentialIdentityProvider {
+  const credentials: AwsCredentialIdentity = {
+    accessKeyId: config.accessKeyId,
+    secretAccessKey: config.secretAccessKey,
+    sessionToken: sessionToken || undefined,
+  };
+  return async () => credentials;
+}
+
+// Profiles from ~/.aws/credentials and ~/.aws/config, including role_arn, credential_process and SSO profiles.
+// The files are read again on every refresh, so keys rotated by other tools are picked up
+function fromProfile(profile: string): AwsCredentialIdentityProvider {
+  return fromIni({ profile: profile || undefined, ignoreCache: true });
+}
+
+// STS is regional; providers without AWS regions (e.g. R2's "auto") fall back to us-east-1
+function stsRegion(config: S3Config): string {
+  return /^[a-z]{2}(-[a-z]+)+-\d+$/.test(config.region) ? config.region : "us-east-1";
+}
+
+function assumeRole(config: S3Config, source: AwsCredentialIdentityProvider): AwsCredentialIdentityProvider {
+  const { roleArn, externalId } = config.credentials;
+  const sts = new STSClient({ region: stsRegion(config), credentials: source });
+  return async () => {
+    const { Credentials } = await sts.send(new AssumeRoleCommand({
+      RoleArn: roleArn,
+      RoleSessionName: ROLE_SESSION_NAME,
+      ExternalId: externalId || undefined,
+    }));
+    if (!Credentials?.AccessKeyId || !Credentials.SecretAccessKey) throw new Error(`Assuming ${roleArn} returned no credentials`);
+    return {
+      accessKeyId: Credentials.AccessKeyId,
+      secretAccessKey: Credentials.SecretAccessKey,
+      sessionToken: Credentials.SessionToken,
+      expiration: Credentials.Expiration,
+    };
+  };
+}
+
+// Output of a credential_process command, see https://docs.aws.amazon.com/sdkref/latest/guide/feature-process-credentials.html
+interface ProcessCredentials {
+  Version: number;
+  AccessKeyId?: string;
+  SecretAccessKey?: string;
+  SessionToken?: string;
+  Expiration?: string;  // ISO 8601; absent = never expires
+}
+
+export function fromCredentialProcess(command: string): AwsCredentialIdentityProvider {
+  return async () => {
+    const output = await runProcess(command);
+    let parsed: ProcessCredentials;
+    try {
+      parsed = JSON.parse(output) as ProcessCredentials;
+    } catch {
+      throw new Error("Credential process didn't print JSON");
+    }
+    if (parsed.Version !== 1) throw new Error(`Unsupported credential process output version ${parsed.Version}`);
+    if (!parsed.AccessKeyId || !parsed.SecretAccessKey) throw new Error("Credential process output has no AccessKeyId/SecretAccessKey");
+    const expiration = parsed.Expiration ? new Date(parsed.Expiration) : undefined;
+    if (expiration && expiration.getTime() < Date.now()) throw new Error("Credential process returned expired credentials");
+    return {
+      accessKeyId: parsed.AccessKeyId,
+      secretAccessKey: parsed.SecretAccessKey,
+      sessionToken: parsed.SessionToken,
+      expiration,
+    };
+  };
+}
+
+function runProcess(command: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const proc = spawn(command, { shell: true, env: gitEnv, timeout: PROCESS_TIMEOUT });
+    let stdout = "";
+    let stderr = "";
+
+    proc.stdout.on("data", (data: Buffer) => (stdout += data.toString()));
+    proc.stderr.on("data", (data: Buffer) => (stderr += data.toString()));
+
+    proc.on("close", (code) => {
+      if (code === 0) resolve(stdout);
+      else reject(new Error(`Credential process failed: ${stderr.trim() || `exit code ${code}`}`));
+    });
+
+    proc.on("error", reject);
+    proc.stdin.end();
+  });
+}
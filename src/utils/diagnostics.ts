@@ -0,0 +1,217 @@
+// "Test connection" checklist: credentials, bucket, region, permissions on a scratch key,
+// provider features the sync relies on, and the local git tooling
+import { randomUUID } from "crypto";
+import { S3, S3Config, isPreconditionFailed } from "./s3";
+import { S3FS } from "./s3-fs";
+import { Git } from "./git";
+import { isLfsAvailable } from "./lfs";
+import { gitEnv } from "./env";
+import { createCredentialsProvider, hasCredentials, CREDENTIALS_MODE_LABELS } from "./credentials";
+
+export type CheckStatus = "running" | "pass" | "warn" | "fail" | "skip";
+
+// One-click fix for a failed check
+export interface Repair {
+  label: string;
+  run: () => Promise<void>;
+}
+
+export interface CheckResult {
+  label: string;
+  status: CheckStatus;
+  detail: string;  // what was found
+  remedy: string;  // what to do about a warning or failure; empty when there's nothing to do
+  repair?: Repair;
+}
+
+export type Outcome = Omit<CheckResult, "label" | "remedy"> & { remedy?: string };
+
+export function errorMessage(e: unknown): string {
+  return e instanceof Error ? e.message : String(e);
+}
+
+function errorName(e: unknown): string {
+  return (e as { name?: string; code?: string })?.code ?? (e as { name?: string })?.name ?? "";
+}
+
+function httpStatus(e: unknown): number | undefined {
+  return (e as { $metadata?: { httpStatusCode?: number } })?.$metadata?.httpStatusCode;
+}
+
+// Region a 301 from S3 points to
+function redirectRegion(e: unknown): string | undefined {
+  const headers = (e as { $response?: { headers?: Record<string, string> } })?.$response?.headers;
+  return headers?.["x-amz-bucket-region"];
+}
+
+const TLS_ERRORS = ["SELF_SIGNED_CERT_IN_CHAIN", "DEPTH_ZERO_SELF_SIGNED_CERT", "UNABLE_TO_VERIFY_LEAF_SIGNATURE", "UNABLE_TO_GET_ISSUER_CERT_LOCALLY", "CERT_HAS_EXPIRED", "ERR_TLS_CERT_ALTNAME_INVALID"];
+const NETWORK_ERRORS = ["ENOTFOUND", "ECONNREFUSED", "ECONNRESET", "ETIMEDOUT", "EAI_AGAIN", "EHOSTUNREACH"];
+
+// Remedies shared by every request: network, TLS and signature problems aren't specific to one check
+function commonRemedy(e: unknown, config: S3Config): string | null {
+  const name = errorName(e);
+  if (TLS_ERRORS.includes(name)) return "The endpoint's TLS certificate isn't trusted. Paste its CA certificate (PEM) into Custom CA certificate";
+  if (NETWORK_ERRORS.includes(name)) {
+    return config.endpoint ? `Can't reach ${config.endpoint}. Check the endpoint URL and your network connection` : "Can't reach S3. Check your network connection";
+  }
+  if (name === "InvalidAccessKeyId") return "The access key doesn't exist for this provider. Check the access key ID and the endpoint";
+  if (name === "SignatureDoesNotMatch") return "The secret access key is wrong. Re-enter it";
+  if (name === "ExpiredToken" || name === "InvalidToken") return "The session token expired or is invalid. Get new temporary credentials";
+  if (errorMessage(e).includes("SSE-C key")) return "Enter the SSE-C key as base64 of 32 random bytes, e.g. the output of openssl rand -base64 32";
+  if (name === "RequestTimeTooSkewed") return "This computer's clock is off. Sync it with a time server";
+  return null;
+}
+
+export class Checklist {
+  readonly results: CheckResult[] = [];
+
+  constructor(private onUpdate?: (results: CheckResult[]) => void) {}
+
+  // Run one check; a thrown error fails it with the remedy for that error. Returns false if it failed
+  async run(label: string, check: () => Promise<Outcome>, remedy: (e: unknown) => string): Promise<boolean> {
+    const index = this.results.push({ label, status: "running", detail: "", remedy: "" }) - 1;
+    this.update();
+    let result: CheckResult;
+    try {
+      result = { label, remedy: "", ...await check() };
+    } catch (e) {
+      result = { label, status: "fail", detail: errorMessage(e), remedy: remedy(e) };
+    }
+    this.results[index] = result;
+    this.update();
+    return result.status !== "fail";
+  }
+
+  skip(labels: string[], reason: string) {
+    for (const label of labels) this.results.push({ label, status: "skip", detail: reason, remedy: "" });
+    this.update();
+  }
+
+  private update() {
+    this.onUpdate?.(this.results.map(r => ({ ...r })));
+  }
+}
+
+export async function runDiagnostics(config: S3Config, remotePath: string, cwd: string,
+  onUpdate?: (results: CheckResult[]) => void): Promise<CheckResult[]> {
+  const checks = new Checklist(onUpdate);
+  const s3 = new S3(config);
+  const fs = new S3FS(s3, remotePath);
+  const scratch = `.sync/connection-test-${randomUUID()}`;
+  const prefix = remotePath.replace(/^\/+|\/+$/g, "");
+  const where = `${config.bucket}/${prefix ? `${prefix}/` : ""}*`;
+  const s3Checks = ["Bucket", "Region", "List objects", "Write", "Read", "Conditional writes", "Delete", "Versioning"];
+  const kms = config.serverSideEncryption.mode === "sse-kms" ? " and kms:GenerateDataKey/kms:Decrypt on the KMS key" : "";
+  const remedyOr = (fallback: string) => (e: unknown) => commonRemedy(e, config) ?? fallback;
+
+  const mode = CREDENTIALS_MODE_LABELS[config.credentials.mode];
+  const credentialsOk = await checks.run("Credentials", async () => {
+    if (!hasCredentials(config)) throw new Error(`Settings for "${mode}" are incomplete`);
+    const { accessKeyId, expiration } = await createCredentialsProvider(config)();
+    const expires = expiration ? `, expires ${expiration.toLocaleString()}` : "";
+    return { status: "pass", detail: `${mode}: access key ${accessKeyId.slice(0, 8)}…${expires}` };
+  }, (e) => {
+    switch (config.credentials.mode) {
+      case "profile": return `Check that profile "${config.credentials.profile || "default"}" exists in ~/.aws/credentials or ~/.aws/config, and log in again if it uses SSO`;
+      case "process": return "Run the command in a terminal and check that it prints credentials as JSON with \"Version\": 1";
+      case "assume-role": return "Check that the source credentials may call sts:AssumeRole on the role, and that the external ID matches the role's trust policy";
+      case "web-identity": return "Check that the token file exists and is current, and that the role trusts its identity provider";
+      default: return commonRemedy(e, config) ?? "Fill in the access key ID and secret access key";
+    }
+  });
+  if (!credentialsOk) {
+    checks.skip(s3Checks, "Needs valid credentials");
+  } else {
+    let region: string | undefined;
+    const bucketOk = await checks.run("Bucket", async () => {
+      region = await s3.bucketRegion();
+      return { status: "pass", detail: `${config.bucket} is reachable` };
+    }, (e) => {
+      const status = httpStatus(e);
+      if (status === 301) {
+        region = redirectRegion(e);
+        return region ? `The bucket is in ${region}. Set Region to ${region}` : "The bucket is in another region. Check the Region setting";
+      }
+      if (status === 404) return `Bucket ${config.bucket} doesn't exist. Create it, or fix the bucket name`;
+      if (status === 403) return `Access denied. Allow s3:ListBucket on arn:aws:s3:::${config.bucket} for these credentials`;
+      return commonRemedy(e, config) ?? "Check the endpoint URL, region and bucket name";
+    });
+
+    await checks.run("Region", async () => {
+      if (!region) return { status: "skip", detail: bucketOk ? "The provider doesn't report bucket regions" : "Needs a reachable bucket" };
+      if (config.region !== "auto" && region !== config.region) throw new Error(`The bucket is in ${region}, not ${config.region}`);
+      return { status: "pass", detail: region };
+    }, () => `Set Region to ${region}`);
+
+    if (!bucketOk) {
+      checks.skip(s3Checks.slice(2), "Needs a reachable bucket");
+    } else {
+      await checks.run("List objects", async () => {
+        const entries = await fs.readdir("");
+        return { status: "pass", detail: `${entries.length} entries at ${remotePath || "the bucket root"}` };
+      }, remedyOr(`Allow s3:ListBucket on arn:aws:s3:::${config.bucket}`));
+
+      const written = await checks.run("Write", async () => {
+        await fs.writeFile(scratch, "connection test");
+        return { status: "pass", detail: `Wrote ${scratch}` };
+      }, remedyOr(`Allow s3:PutObject on arn:aws:s3:::${where}${kms}`));
+
+      if (!written) {
+        checks.skip(["Read", "Conditional writes", "Delete"], "Needs write access");
+      } else {
+        try {
+          await checks.run("Read", async () => {
+            const body = (await fs.readFile(scratch)).toString();
+            if (body !== "connection test") throw new Error("Read back different content than was written");
+            return { status: "pass", detail: `Read ${scratch}` };
+          }, remedyOr(`Allow s3:GetObject on arn:aws:s3:::${where}${kms}`));
+
+          await checks.run("Conditional writes", async () => {
+            try {
+              await fs.writeFileConditional(scratch, "overwritten", { ifNoneMatch: "*" });
+            } catch (e) {
+              if (isPreconditionFailed(e)) return { status: "pass", detail: "If-None-Match and If-Match are honored" };
+              throw e;
+            }
+            return {
+              status: "warn",
+              detail: "The provider ignores If-None-Match",
+              remedy: "Pushes still work, but two devices pushing at the same moment can't be told apart. Avoid pushing from several devices at once, or use a provider with conditional writes",
+            };
+          }, (e) => commonRemedy(e, config) ?? "The provider rejected a conditional write. Pushes need If-None-Match/If-Match support or a provider that ignores them");
+        } finally {
+          await checks.run("Delete", async () => {
+            await fs.unlink(scratch);
+            if (await fs.exists(scratch)) throw new Error(`${scratch} is still there after deleting it`);
+            return { status: "pass", detail: `Deleted ${scratch}` };
+          }, remedyOr(`Allow s3:DeleteObject on arn:aws:s3:::${where}, then delete ${scratch} by hand`));
+        }
+      }
+
+      await checks.run("Versioning", async () => {
+        const status = await s3.versioning();
+        if (status === "Enabled") return { status: "pass", detail: "Enabled" };
+        return {
+          status: "warn",
+          detail: status === "Suspended" ? "Suspended" : "Off",
+          remedy: "Optional: turn on bucket versioning to be able to recover objects that were overwritten or deleted",
+        };
+      }, () => "Optional: allow s3:GetBucketVersioning to check it, or ignore this if the provider doesn't support versioning");
+    }
+  }
+
+  await checks.run("git", async () => {
+    return { status: "pass", detail: await Git.exec(cwd, ["--version"]) };
+  }, () => `Install git and make sure it's on the PATH Obsidian sees: ${gitEnv.PATH}`);
+
+  await checks.run("Git LFS", async () => {
+    if (await isLfsAvailable(cwd)) return { status: "pass", detail: (await Git.exec(cwd, ["lfs", "version"])).split("\n")[0] ?? "" };
+    return {
+      status: "warn",
+      detail: "git lfs isn't installed",
+      remedy: `Install Git LFS (https://git-lfs.com) on the PATH Obsidian sees (${gitEnv.PATH}) to store large files outside the git history`,
+    };
+  }, () => "Install Git LFS (https://git-lfs.com)");
+
+  return checks.results;
+}
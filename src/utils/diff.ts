@@ -0,0 +1,293 @@
+// Unified diff hunks as structured lines, plus the word-level comparison of changed lines
+// the diff views use for intra-line highlighting
+
+export interface DiffLine {
+  kind: "context" | "add" | "del" | "hunk";
+  text: string;    // without the leading +/-/space
+  oldNo?: number;  // line number in the old file (context and del)
+  newNo?: number;  // line number in the new file (context and add)
+}
+
+export interface Segment {
+  text: string;
+  changed: boolean;
+}
+
+// Both lines merged into one: removed words, then the words replacing them
+export interface InlineSegment {
+  text: string;
+  kind: "same" | "del" | "add";
+}
+
+export interface WordDiff {
+  old: Segment[];
+  new: Segment[];
+  inline: InlineSegment[];
+  similarity: number;  // share of the longer line left unchanged
+}
+
+// A deleted line and the added line that replaced it, compared word by word
+export interface LinePair extends Omit<WordDiff, "similarity"> {
+  del: DiffLine;
+  add: DiffLine;
+}
+
+export interface SideBySideRow {
+  left?: DiffLine;
+  right?: DiffLine;
+  pair?: LinePair;
+}
+
+const MAX_CELLS = 250_000;  // token grid size above which lines are compared as a whole
+const MAX_SEQUENCE_CELLS = 4_000_000;  // grid size above which the changed middle of a sequence is replaced whole
+const MIN_SIMILARITY = 0.4; // below this, word highlights are noise; show the lines as replaced
+
+// Parse hunk lines ("@@ -a,b +c,d @@", " ctx", "-del", "+add") into numbered lines
+export function parseHunks(lines: string[]): DiffLine[] {
+  const result: DiffLine[] = [];
+  let oldNo = 0;
+  let newNo = 0;
+  for (const line of lines) {
+    const header = line.match(/^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@/);
+    if (header) {
+      oldNo = parseInt(header[1]!, 10);
+      newNo = parseInt(header[2]!, 10);
+      result.push({ kind: "hunk", text: line });
+    } else if (line.startsWith("+")) {
+      result.push({ kind: "add", text: line.slice(1), newNo: newNo++ });
+    } else if (line.startsWith("-")) {
+      result.push({ kind: "del", text: line.slice(1), oldNo: oldNo++ });
+    } else if (line.startsWith(" ")) {
+      result.push({ kind: "context", text: line.slice(1), oldNo: oldNo++, newNo: newNo++ });
+    }
+    // "\ No newline at end of file" and the empty line after the last hunk carry no content
+  }
+  return result;
+}
+
+// Words, runs of whitespace and single punctuation characters
+export function tokenize(text: string): string[] {
+  return text.match(/\s+|[\p{L}\p{N}_]+|[^\s\p{L}\p{N}_]/gu) ?? [];
+}
+
+// Append to segments, merging with the previous one when both are (un)changed
+function push(segments: Segment[], text: string, changed: boolean) {
+  const last = segments[segments.length - 1];
+  if (last && last.changed === changed) last.text += text;
+  else segments.push({ text, changed });
+}
+
+// Whitespace between two changes reads as part of one change
+function joinChanges(segments: Segment[]): Segment[] {
+  const result: Segment[] = [];
+  segments.forEach((s, i) => {
+    const bridged = !s.changed && !s.text.trim() && segments[i - 1]?.changed && segments[i + 1]?.changed;
+    push(result, s.text, s.changed || !!bridged);
+  });
+  return result;
+}
+
+// Merge runs of changes, whitespace between them included, into one deletion followed by one addition
+function joinInline(segments: InlineSegment[]): InlineSegment[] {
+  const result: InlineSegment[] = [];
+  let del = "";
+  let add = "";
+  const flush = () => {
+    if (del) result.push({ text: del, kind: "del" });
+    if (add) result.push({ text: add, kind: "add" });
+    del = add = "";
+  };
+  segments.forEach((s, i) => {
+    if (s.kind === "del") del += s.text;
+    else if (s.kind === "add") add += s.text;
+    else if (!s.text.trim() && (del || add) && segments[i + 1] && segments[i + 1]!.kind !== "same") {
+      del += s.text;
+      add += s.text;
+    } else {
+      flush();
+      const last = result[result.length - 1];
+      if (last?.kind === "same") last.text += s.text;
+      else result.push({ ...s });
+    }
+  });
+  flush();
+  return result;
+}
+
+// One step of turning `x` into `y`: keep x[i] (= y[j]), delete x[i] or add y[j]
+export type SequenceOp = { kind: "same"; i: number; j: number } | { kind: "del"; i: number } | { kind: "add"; j: number };
+
+// Longest-common-subsequence diff of two sequences, deletions before additions in each change.
+// Common ends are matched first; a changed middle too large to compare is deleted and added whole
+export function diffSequences(x: string[], y: string[]): SequenceOp[] {
+  let start = 0;
+  while (start < x.length && start < y.length && x[start] === y[start]) start++;
+  let end = 0;
+  while (end < x.length - start && end < y.length - start && x[x.length - 1 - end] === y[y.length - 1 - end]) end++;
+
+  const ops: SequenceOp[] = [];
+  for (let k = 0; k < start; k++) ops.push({ kind: "same", i: k, j: k });
+  // lcs[i * (m + 1) + j] = LCS length of the middles from i and j on
+  const n = x.length - start - end;
+  const m = y.length - start - end;
+  const lcs = n * m <= MAX_SEQUENCE_CELLS ? new Uint32Array((n + 1) * (m + 1)) : null;
+  if (lcs) {
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i * (m + 1) + j] = x[start + i] === y[start + j]
+          ? lcs[(i + 1) * (m + 1) + j + 1]! + 1
+          : Math.max(lcs[(i + 1) * (m + 1) + j]!, lcs[i * (m + 1) + j + 1]!);
+      }
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (lcs && i < n && j < m && x[start + i] === y[start + j]) {
+      ops.push({ kind: "same", i: start + i++, j: start + j++ });
+    } else if (i < n && (j >= m || !lcs || lcs[(i + 1) * (m + 1) + j]! >= lcs[i * (m + 1) + j + 1]!)) {
+      ops.push({ kind: "del", i: start + i++ });
+    } else {
+      ops.push({ kind: "add", j: start + j++ });
+    }
+  }
+  for (let k = 0; k < end; k++) ops.push({ kind: "same", i: x.length - end + k, j: y.length - end + k });
+  return ops;
+}
+
+// Compare two lines token by token
+export function wordDiff(a: string, b: string): WordDiff {
+  const x = tokenize(a);
+  const y = tokenize(b);
+  if (x.length * y.length > MAX_CELLS) {
+    return {
+      old: [{ text: a, changed: true }],
+      new: [{ text: b, changed: true }],
+      inline: [{ text: a, kind: "del" }, { text: b, kind: "add" }],
+      similarity: 0,
+    };
+  }
+
+  const old: Segment[] = [];
+  const added: Segment[] = [];
+  const inline: InlineSegment[] = [];
+  let common = 0;
+  for (const op of diffSequences(x, y)) {
+    if (op.kind === "same") {
+      push(old, x[op.i]!, false);
+      push(added, y[op.j]!, false);
+      inline.push({ text: x[op.i]!, kind: "same" });
+      common += x[op.i]!.length;
+    } else if (op.kind === "del") {
+      push(old, x[op.i]!, true);
+      inline.push({ text: x[op.i]!, kind: "del" });
+    } else {
+      push(added, y[op.j]!, true);
+      inline.push({ text: y[op.j]!, kind: "add" });
+    }
+  }
+  const longest = Math.max(a.length, b.length);
+  return { old: joinChanges(old), new: joinChanges(added), inline: joinInline(inline), similarity: longest ? common / longest : 1 };
+}
+
+// Context and hunk lines on their own, and runs of deleted lines with the added lines that follow them
+type Chunk = { line: DiffLine } | { dels: DiffLine[]; adds: DiffLine[] };
+
+function chunks(lines: DiffLine[]): Chunk[] {
+  const result: Chunk[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i]!;
+    if (line.kind === "context" || line.kind === "hunk") {
+      result.push({ line });
+      i++;
+      continue;
+    }
+    const dels: DiffLine[] = [];
+    const adds: DiffLine[] = [];
+    while (i < lines.length && lines[i]!.kind === "del") dels.push(lines[i++]!);
+    while (i < lines.length && lines[i]!.kind === "add") adds.push(lines[i++]!);
+    result.push({ dels, adds });
+  }
+  return result;
+}
+
+// Pair the n-th deleted line of each change with its n-th added line when they're similar enough
+export function pairLines(lines: DiffLine[]): Map<DiffLine, LinePair> {
+  const pairs = new Map<DiffLine, LinePair>();
+  for (const chunk of chunks(lines)) {
+    if ("line" in chunk) continue;
+    for (let k = 0; k < Math.min(chunk.dels.length, chunk.adds.length); k++) {
+      const del = chunk.dels[k]!;
+      const add = chunk.adds[k]!;
+      const diff = wordDiff(del.text, add.text);
+      if (diff.similarity < MIN_SIMILARITY) continue;
+      const pair = { del, add, old: diff.old, new: diff.new, inline: diff.inline };
+      pairs.set(del, pair);
+      pairs.set(add, pair);
+    }
+  }
+  return pairs;
+}
+
+// Rows for a side-by-side view: context on both sides, each change's deletions next to its additions
+export function sideBySide(lines: DiffLine[], pairs: Map<DiffLine, LinePair>): SideBySideRow[] {
+  return chunks(lines).flatMap((chunk): SideBySideRow[] => {
+    if ("line" in chunk) return [{ left: chunk.line, right: chunk.line }];
+    return Array.from({ length: Math.max(chunk.dels.length, chunk.adds.length) }, (_, k) => {
+      const left = chunk.dels[k];
+      const right = chunk.adds[k];
+      const pair = left && pairs.get(left);
+      return { left, right, pair: pair && pair.add === right ? pair : undefined };
+    });
+  });
+}
+
+const stripWhitespace = (text: string) => text.replace(/\s+/g, "");
+
+// Like `git diff -w`: a deleted line and its added counterpart that differ only in whitespace
+// become one context line (the new text), and hunks left without changes are dropped
+export function ignoreWhitespace(lines: DiffLine[]): DiffLine[] {
+  const kept: DiffLine[] = [];
+  for (const chunk of chunks(lines)) {
+    if ("line" in chunk) {
+      kept.push(chunk.line);
+      continue;
+    }
+    const { dels, adds } = chunk;
+    if (dels.length !== adds.length) {
+      kept.push(...dels, ...adds);
+      continue;
+    }
+    // Real changes between whitespace-only ones still show their deletions before their additions
+    let run: number[] = [];
+    const flush = () => {
+      kept.push(...run.map(k => dels[k]!), ...run.map(k => adds[k]!));
+      run = [];
+    };
+    dels.forEach((del, k) => {
+      const add = adds[k]!;
+      if (stripWhitespace(del.text) !== stripWhitespace(add.text)) {
+        run.push(k);
+        return;
+      }
+      flush();
+      kept.push({ kind: "context", text: add.text, oldNo: del.oldNo, newNo: add.newNo });
+    });
+    flush();
+  }
+
+  const result: DiffLine[] = [];
+  let hunk: DiffLine[] = [];
+  const flushHunk = () => {
+    if (hunk.some(l => l.kind === "add" || l.kind === "del")) result.push(...hunk);
+    hunk = [];
+  };
+  for (const line of kept) {
+    if (line.kind === "hunk") flushHunk();
+    hunk.push(line);
+  }
+  flushHunk();
+  return result;
+}
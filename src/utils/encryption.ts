@@ -0,0 +1,289 @@
+// Client-side encryption of everything stored on the remote. A key derived from a passphrase (scrypt, with the salt
+// in a plaintext header object) encrypts each object with AES-256-GCM in 64 KB frames: large files stream,
+// and a modified, reordered or truncated frame fails authentication. Frames are bound to the object's key too,
+// so an object swapped with another or moved to a different key fails it as well.
+import { createCipheriv, createDecipheriv, createHmac, randomBytes, scrypt } from "crypto";
+import { Readable } from "stream";
+import pLimit from "p-limit";
+import type { S3FS } from "./s3-fs";
+import { isPreconditionFailed } from "./s3";
+
+export const ENCRYPTION_HEADER = ".git/encryption.json";
+const MAGIC = Buffer.from("RVSE");
+const FORMAT_VERSION = 1;
+const OBJECT_HEADER_SIZE = 20;     // magic, format version, key ID (8), nonce prefix (7)
+const FRAME_SIZE = 64 * 1024;
+const TAG_SIZE = 16;
+const REENCRYPT_CONCURRENCY = 8;
+
+export interface KdfParams {
+  name: "scrypt";
+  salt: string;                    // base64
+  N: number;
+  r: number;
+  p: number;
+}
+
+export interface KeyParams {
+  kdf: KdfParams;
+  keyId: string;                   // identifies the derived key, so a wrong passphrase is caught before any read
+}
+
+export interface EncryptionHeader {
+  version: 1;
+  key: KeyParams | null;           // null only while a rotation from plaintext is running
+  rotating?: { key: KeyParams | null };  // passphrase change in progress, to this key (null = plaintext)
+}
+
+export interface VaultKey {
+  id: string;
+  key: Buffer;                     // AES-256-GCM key
+  nonceKey: Buffer;                // derives nonces for content-addressed objects
+}
+
+export function isWrongPassphrase(e: unknown): boolean {
+  return (e as { name?: string })?.name === "WrongPassphrase";
+}
+
+function wrongPassphrase(message: string): Error {
+  return Object.assign(new Error(message), { name: "WrongPassphrase" });
+}
+
+function frameCount(size: number): number {
+  return Math.max(1, Math.ceil(size / FRAME_SIZE));
+}
+
+// Frame nonce: object nonce prefix, final-frame flag, frame index
+function frameIv(header: Buffer, index: number, final: boolean): Buffer {
+  const iv = Buffer.alloc(12);
+  header.copy(iv, 0, 13, OBJECT_HEADER_SIZE);
+  iv[7] = final ? 1 : 0;
+  iv.writeUInt32BE(index, 8);
+  return iv;
+}
+
+// Frame associated data: the object header (which frameIv reads the nonce prefix from), then the object's key
+function frameAad(header: Buffer, objectKey: string): Buffer {
+  return Buffer.concat([header, Buffer.from(objectKey, "utf8")]);
+}
+
+function sealFrame(key: Buffer, aad: Buffer, index: number, final: boolean, plain: Buffer): Buffer {
+  const cipher = createCipheriv("aes-256-gcm", key, frameIv(aad, index, final));
+  cipher.setAAD(aad);
+  return Buffer.concat([cipher.update(plain), cipher.final(), cipher.getAuthTag()]);
+}
+
+function openFrame(key: Buffer, aad: Buffer, index: number, final: boolean, frame: Buffer): Buffer {
+  try {
+    const decipher = createDecipheriv("aes-256-gcm", key, frameIv(aad, index, final));
+    decipher.setAAD(aad);
+    decipher.setAuthTag(frame.subarray(frame.length - TAG_SIZE));
+    return Buffer.concat([decipher.update(frame.subarray(0, frame.length - TAG_SIZE)), decipher.final()]);
+  } catch {
+    throw new Error("Encrypted object failed authentication: it was corrupted, tampered with or moved from another key");
+  }
+}
+
+export function newKdfParams(): KdfParams {
+  return { name: "scrypt", salt: randomBytes(16).toString("base64"), N: 2 ** 17, r: 8, p: 1 };
+}
+
+export async function deriveKey(passphrase: string, kdf: KdfParams): Promise<VaultKey> {
+  const master = await new Promise<Buffer>((resolve, reject) => {
+    scrypt(passphrase.normalize("NFC"), Buffer.from(kdf.salt, "base64"), 32,
+      { N: kdf.N, r: kdf.r, p: kdf.p, maxmem: 256 * kdf.N * kdf.r }, (err, key) => err ? reject(err) : resolve(key));
+  });
+  const sub = (label: string) => createHmac("sha256", master).update(label).digest();
+  return { id: sub("key-id").subarray(0, 8).toString("hex"), key: sub("encrypt"), nonceKey: sub("nonce") };
+}
+
+// Encrypts with one key and decrypts with any of `readKeys`, which differ only while the passphrase is changed
+export class VaultCipher {
+  private readKeys: Map<string, VaultKey>;
+
+  constructor(private writeKey: VaultKey | null, readKeys: VaultKey[] = writeKey ? [writeKey] : [], private allowPlaintext = false) {
+    this.readKeys = new Map(readKeys.map(k => [k.id, k]));
+  }
+
+  // For the object stored at `objectKey`. `deterministic` derives the nonce from that key; only set it for
+  // content-addressed objects, whose plaintext can never differ under the same key
+  encrypt(data: Buffer, objectKey: string, deterministic = false): Buffer {
+    const key = this.writeKey;
+    if (!key) return data;
+    const header = this.objectHeader(key, deterministic ? objectKey : undefined);
+    const aad = frameAad(header, objectKey);
+    const count = frameCount(data.length);
+    const frames = [header];
+    for (let i = 0; i < count; i++) {
+      frames.push(sealFrame(key.key, aad, i, i === count - 1, data.subarray(i * FRAME_SIZE, (i + 1) * FRAME_SIZE)));
+    }
+    return Buffer.concat(frames);
+  }
+
+  encryptStream(data: Readable, objectKey: string, deterministic = false): Readable {
+    const key = this.writeKey;
+    if (!key) return data;
+    const header = this.objectHeader(key, deterministic ? objectKey : undefined);
+    const aad = frameAad(header, objectKey);
+    async function* frames() {
+      yield header;
+      let pending = Buffer.alloc(0);
+      let index = 0;
+      for await (const chunk of data) {
+        pending = Buffer.concat([pending, chunk as Buffer]);
+        // Hold the last frame back: it's sealed as final, which is only known once the stream ends
+        while (pending.length > FRAME_SIZE) {
+          yield sealFrame(key!.key, aad, index++, false, pending.subarray(0, FRAME_SIZE));
+          pending = pending.subarray(FRAME_SIZE);
+        }
+      }
+      yield sealFrame(key!.key, aad, index, true, pending);
+    }
+    return Readable.from(frames());
+  }
+
+  decrypt(data: Buffer, objectKey: string): Buffer {
+    if (data.length < OBJECT_HEADER_SIZE || !data.subarray(0, MAGIC.length).equals(MAGIC)) {
+      if (this.allowPlaintext) return data;
+      throw new Error("Remote object isn't encrypted; refusing to read unauthenticated data");
+    }
+    const header = data.subarray(0, OBJECT_HEADER_SIZE);
+    if (header[4] !== FORMAT_VERSION) throw new Error(`Unsupported encryption format ${header[4]}`);
+    const key = this.readKeys.get(header.subarray(5, 13).toString("hex"));
+    if (!key) throw wrongPassphrase("Remote object is encrypted with a different key; was the passphrase changed on another device?");
+
+    const aad = frameAad(header, objectKey);
+    const body = data.subarray(OBJECT_HEADER_SIZE);
+    const frameSize = FRAME_SIZE + TAG_SIZE;
+    const count = Math.max(1, Math.ceil(body.length / frameSize));
+    const plain: Buffer[] = [];
+    for (let i = 0; i < count; i++) {
+      const frame = body.subarray(i * frameSize, (i + 1) * frameSize);
+      if (frame.length < TAG_SIZE) throw new Error("Encrypted object is truncated");
+      plain.push(openFrame(key.key, aad, i, i === count - 1, frame));
+    }
+    return Buffer.concat(plain);
+  }
+
+  encryptedSize(size: number): number {
+    return this.writeKey ? OBJECT_HEADER_SIZE + size + frameCount(size) * TAG_SIZE : size;
+  }
+
+  plainSize(size: number): number {
+    if (!this.writeKey) return size;
+    const body = size - OBJECT_HEADER_SIZE;
+    return Math.max(0, body - Math.max(1, Math.ceil(body / (FRAME_SIZE + TAG_SIZE))) * TAG_SIZE);
+  }
+
+  private objectHeader(key: VaultKey, nonceSeed?: string): Buffer {
+    const prefix = nonceSeed
+      ? createHmac("sha256", key.nonceKey).update(nonceSeed).digest().subarray(0, 7)
+      : randomBytes(7);
+    return Buffer.concat([MAGIC, Buffer.from([FORMAT_VERSION]), Buffer.from(key.id, "hex"), prefix]);
+  }
+}
+
+// S3 keys of header objects, which stay plaintext so the key can be derived from them
+export function isEncryptionHeader(key: string): boolean {
+  return key === ENCRYPTION_HEADER || key.endsWith(`/${ENCRYPTION_HEADER}`);
+}
+
+export async function readEncryptionHeader(fs: S3FS): Promise<EncryptionHeader | null> {
+  const current = await fs.readFileWithEtag(ENCRYPTION_HEADER);
+  return current ? JSON.parse(current.body.toString()) as EncryptionHeader : null;
+}
+
+async function writeEncryptionHeader(fs: S3FS, header: EncryptionHeader): Promise<void> {
+  await fs.writeFile(ENCRYPTION_HEADER, JSON.stringify(header, null, 2));
+}
+
+// Derive the key for `params` and check it's the one the remote uses
+async function openKey(passphrase: string, params: KeyParams): Promise<VaultKey> {
+  const key = await deriveKey(passphrase, params.kdf);
+  if (key.id !== params.keyId) throw wrongPassphrase("Wrong encryption passphrase for this remote");
+  return key;
+}
+
+// Cipher for the remote, or null if it isn't encrypted. A passphrase set for an empty remote creates its key
+export async function unlock(fs: S3FS, passphrase: string): Promise<VaultCipher | null> {
+  const header = await readEncryptionHeader(fs);
+  if (header?.rotating) {
+    throw new Error("A change of the encryption passphrase didn't finish. Run \"Change encryption passphrase\" again to complete it");
+  }
+  if (header?.key) {
+    if (!passphrase) throw wrongPassphrase("This remote is encrypted, enter its passphrase in settings");
+    return new VaultCipher(await openKey(passphrase, header.key));
+  }
+
+  if (!passphrase) return null;
+  if ((await fs.walk(".git")).length) {
+    throw new Error("This remote isn't encrypted yet. Run \"Change encryption passphrase\" to encrypt it");
+  }
+  const kdf = newKdfParams();
+  const key = await deriveKey(passphrase, kdf);
+  try {
+    await fs.writeFileConditional(ENCRYPTION_HEADER, JSON.stringify({ version: 1, key: { kdf, keyId: key.id } }, null, 2), { ifNoneMatch: "*" });
+  } catch (e) {
+    // Another device set up encryption first; use its key
+    if (isPreconditionFailed(e)) return unlock(fs, passphrase);
+    throw e;
+  }
+  return new VaultCipher(key);
+}
+
+// Re-encrypts the remote under a new passphrase (empty = store plaintext). prepare() derives and checks the keys
+// without writing anything, so the caller can take the remote lock with `cipher` in place; run() then records
+// the new key in the header before rewriting every object, so an interrupted change can be run again.
+export class PassphraseChange {
+  private constructor(
+    private header: EncryptionHeader | null,
+    private oldKey: VaultKey | null,
+    private newKey: VaultKey | null,
+    private target: KeyParams | null,
+  ) {}
+
+  static async prepare(fs: S3FS, from: string, to: string): Promise<PassphraseChange> {
+    const header = await readEncryptionHeader(fs);
+    const oldKey = header?.key ? await openKey(from, header.key) : null;
+    const unfinished = "An unfinished passphrase change used a different passphrase; finish it with that one first";
+
+    if (header?.rotating) {
+      const target = header.rotating.key;
+      if (!target !== !to) throw new Error(unfinished);
+      const newKey = target && await openKey(to, target).catch((e: unknown) => {
+        throw isWrongPassphrase(e) ? wrongPassphrase(unfinished) : e;
+      });
+      return new PassphraseChange(header, oldKey, newKey, target);
+    }
+    if (!to) return new PassphraseChange(header, oldKey, null, null);
+    const kdf = newKdfParams();
+    const newKey = await deriveKey(to, kdf);
+    return new PassphraseChange(header, oldKey, newKey, { kdf, keyId: newKey.id });
+  }
+
+  // Writes with the new key and reads with either (or plaintext when encryption is turned on or off);
+  // null when the remote stays unencrypted
+  get cipher(): VaultCipher | null {
+    if (!this.oldKey && !this.newKey) return null;
+    const keys = [this.oldKey, this.newKey].filter((k): k is VaultKey => k !== null);
+    return new VaultCipher(this.newKey, keys, !this.oldKey || !this.newKey);
+  }
+
+  // Rewrite every object through `fs`, whose S3 client must be using `cipher`
+  async run(fs: S3FS, onProgress?: (done: number, total: number) => void): Promise<void> {
+    if (!this.oldKey && !this.newKey) return;
+    await writeEncryptionHeader(fs, { version: 1, key: this.header?.key ?? null, rotating: { key: this.target } });
+
+    // The lock file isn't under .git: its heartbeat rewrites it with the new key anyway
+    const paths = (await fs.walk(".git")).map(e => `.git/${e.name}`).filter(p => p !== ENCRYPTION_HEADER);
+    let done = 0;
+    onProgress?.(0, paths.length);
+    await pLimit(REENCRYPT_CONCURRENCY).map(paths, async p => {
+      await fs.writeFile(p, await fs.readFile(p));
+      onProgress?.(++done, paths.length);
+    });
+
+    if (this.target) await writeEncryptionHeader(fs, { version: 1, key: this.target });
+    else await fs.unlink(ENCRYPTION_HEADER);
+  }
+}
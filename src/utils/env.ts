@@ -1,5 +1,5 @@
 // Extended env for spawning git - includes homebrew paths for macOS GUI apps
-export const gitEnv = {
+export const gitEnv: Record<string, string | undefined> = {
   ...process.env,
   PATH: `${process.env.PATH}:/usr/local/bin:/opt/homebrew/bin`
 };
@@ -29,6 +29,56 @@ export interface Commit {
   gpgsig?: string;
 }
 
+// A commit that touched a file, with the file's path as of that commit
+export interface FileRevision {
+  commit: Commit;
+  path: string;
+  status: "added" | "modified" | "deleted" | "renamed";
+}
+
+// A file deleted in history and not present at HEAD, with the commit that deleted it
+export interface DeletedFile {
+  path: string;
+  commit: Commit;
+}
+
+// Format: oid, tree, parents, author name/email/timestamp/tz, committer name/email/timestamp/tz, subject
+const LOG_FORMAT = "%H%x00%T%x00%P%x00%an%x00%ae%x00%at%x00%ai%x00%cn%x00%ce%x00%ct%x00%ci%x00%s%x00";
+
+// Parse timezone offset from ISO date (e.g., "2024-01-15 10:30:00 -0700" -> 420)
+function parseOffset(isoDate: string): number {
+  const match = isoDate.match(/([+-])(\d{2})(\d{2})$/);
+  if (!match) return 0;
+  const offset = parseInt(match[2]!, 10) * 60 + parseInt(match[3]!, 10);
+  return match[1] === "-" ? offset : -offset;
+}
+
+// Parse one LOG_FORMAT entry
+function parseCommit(entry: string): Commit {
+  const [oid, tree, parents, authorName, authorEmail, authorTs, authorDate,
+         committerName, committerEmail, committerTs, committerDate, message] = entry.split("\x00");
+  return {
+    oid: oid ?? "",
+    tree: tree ?? "",
+    parent: parents ? parents.split(" ").filter(Boolean) : [],
+    message: message ?? "",
+    author: {
+      name: authorName ?? "",
+      email: authorEmail ?? "",
+      timestamp: parseInt(authorTs ?? "0", 10),
+      timezoneOffset: parseOffset(authorDate ?? ""),
+    },
+    committer: {
+      name: committerName ?? "",
+      email: committerEmail ?? "",
+      timestamp: parseInt(committerTs ?? "0", 10),
+      timezoneOffset: parseOffset(committerDate ?? ""),
+    },
+  };
+}
+
+const REVISION_STATUS: Record<string, FileRevision["status"]> = { A: "added", M: "modified", D: "deleted", R: "renamed", C: "added" };
+
 // Platform-aware shell escaping
 function shellEscape(s: string): string {
   if (process.platform === "win32") {
@@ -37,8 +87,8 @@ function shellEscape(s: string): string {
   return `'${s.replace(/'/g, "'\\''")}'`;
 }
 
-// Execute a git command and return stdout
-async function exec(cwd: string, args: string[]): Promise<string> {
+// Run git and collect its output whatever the exit code, for commands whose exit code carries a result
+async function run(cwd: string, args: string[], input?: string): Promise<{ code: number | null; stdout: string; stderr: string }> {
   return new Promise((resolve, reject) => {
     const escaped = args.map(shellEscape);
     const proc = spawn("git", escaped, { cwd, shell: true, env: gitEnv });
@@ -48,9 +98,32 @@ async function exec(cwd: string, args: string[]): Promise<string> {
     proc.stdout.on("data", (data: Buffer) => (stdout += data.toString()));
     proc.stderr.on("data", (data: Buffer) => (stderr += data.toString()));
 
+    proc.on("close", (code) => resolve({ code, stdout, stderr }));
+    proc.on("error", reject);
+    proc.stdin.end(input);
+  });
+}
+
+// Execute a git command and return stdout, optionally writing input to stdin
+async function exec(cwd: string, args: string[], input?: string): Promise<string> {
+  const { code, stdout, stderr } = await run(cwd, args, input);
+  if (code !== 0) throw new Error(`git ${args[0]} failed: ${stderr || stdout}`);
+  return stdout.trimEnd();
+}
+
+// Like exec, but returns stdout as bytes for binary output
+async function execBuffer(cwd: string, args: string[]): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const proc = spawn("git", args.map(shellEscape), { cwd, shell: true, env: gitEnv });
+    const chunks: Buffer[] = [];
+    let stderr = "";
+
+    proc.stdout.on("data", (data: Buffer) => chunks.push(data));
+    proc.stderr.on("data", (data: Buffer) => (stderr += data.toString()));
+
     proc.on("close", (code) => {
-      if (code === 0) resolve(stdout.trimEnd());
-      else reject(new Error(`git ${args[0]} failed: ${stderr || stdout}`));
+      if (code === 0) resolve(Buffer.concat(chunks));
+      else reject(new Error(`git ${args[0]} failed: ${stderr}`));
     });
 
     proc.on("error", reject);
@@ -61,8 +134,8 @@ export class Git {
   constructor(private cwd: string) {}
 
   // Run arbitrary git command with any cwd
-  static exec(cwd: string, args: string[]): Promise<string> {
-    return exec(cwd, args);
+  static exec(cwd: string, args: string[], input?: string): Promise<string> {
+    return exec(cwd, args, input);
   }
 
   async init(): Promise<void> {
@@ -77,6 +150,16 @@ export class Git {
     await exec(this.cwd, ["add", "-A"]);
   }
 
+  // Stage a patch without touching the working tree
+  async applyCached(patch: string): Promise<void> {
+    await exec(this.cwd, ["apply", "--cached", "--recount", "-"], patch);
+  }
+
+  // Reset the index to HEAD, keeping every change in the working tree
+  async unstageAll(): Promise<void> {
+    await exec(this.cwd, ["reset", "-q"]);
+  }
+
   async commit(message: string): Promise<string> {
     const out = await exec(this.cwd, ["commit", "-m", message]);
     // Matches "[branch oid]" or "[branch (root-commit) oid]"
@@ -121,6 +204,11 @@ export class Git {
     return exec(this.cwd, args);
   }
 
+  // Every uncommitted change to tracked files, staged or not
+  async diffHead(): Promise<string> {
+    return exec(this.cwd, ["-c", "core.quotePath=false", "diff", "HEAD"]);
+  }
+
   async diffStaged(filepath?: string): Promise<string> {
     const args = ["diff", "--staged"];
     if (filepath) args.push(filepath);
@@ -132,46 +220,61 @@ export class Git {
     return exec(this.cwd, ["show", commit, "--format="]);
   }
 
-  async log(count = 10): Promise<Commit[]> {
-    // Format: oid, tree, parents, author name/email/timestamp/tz, committer name/email/timestamp/tz, subject
-    const format = "%H%x00%T%x00%P%x00%an%x00%ae%x00%at%x00%ai%x00%cn%x00%ce%x00%ct%x00%ci%x00%s%x00";
-    const out = await exec(this.cwd, ["log", `-${count}`, `--format=${format}`]);
-    const commits: Commit[] = [];
-
-    for (const entry of out.split("\x00\n").filter(Boolean)) {
-      const fields = entry.split("\x00");
-      const [oid, tree, parents, authorName, authorEmail, authorTs, authorDate,
-             committerName, committerEmail, committerTs, committerDate, message] = fields;
-
-      // Parse timezone offset from ISO date (e.g., "2024-01-15 10:30:00 -0700" -> 420)
-      const parseOffset = (isoDate: string): number => {
-        const match = isoDate.match(/([+-])(\d{2})(\d{2})$/);
-        if (!match) return 0;
-        const offset = parseInt(match[2]!, 10) * 60 + parseInt(match[3]!, 10);
-        return match[1] === "-" ? offset : -offset;
-      };
-
-      commits.push({
-        oid: oid ?? "",
-        tree: tree ?? "",
-        parent: parents ? parents.split(" ").filter(Boolean) : [],
-        message: message ?? "",
-        author: {
-          name: authorName ?? "",
-          email: authorEmail ?? "",
-          timestamp: parseInt(authorTs ?? "0", 10),
-          timezoneOffset: parseOffset(authorDate ?? ""),
-        },
-        committer: {
-          name: committerName ?? "",
-          email: committerEmail ?? "",
-          timestamp: parseInt(committerTs ?? "0", 10),
-          timezoneOffset: parseOffset(committerDate ?? ""),
-        },
-      });
+  // What merging `to` would bring in: its changes since it forked from `from`
+  async diffSince(from: string, to: string): Promise<string> {
+    return exec(this.cwd, ["diff", `${from}...${to}`]);
+  }
+
+  // Newest first; `range` limits it, e.g. "HEAD..refs/remotes/s3/main" for commits not yet merged
+  async log(count = 10, range?: string): Promise<Commit[]> {
+    const args = ["log", `-${count}`, `--format=${LOG_FORMAT}`];
+    if (range) args.push(range);
+    const out = await exec(this.cwd, args);
+    return out.split("\x00\n").filter(Boolean).map(parseCommit);
+  }
+
+  // Commits that touched a file, newest first, following it back through renames
+  async fileHistory(filepath: string, count = 500): Promise<FileRevision[]> {
+    const out = await exec(this.cwd, ["-c", "core.quotePath=false", "log", `-${count}`, "--follow", "--name-status",
+      `--format=%x1e${LOG_FORMAT}`, "--", filepath]);
+    const revisions: FileRevision[] = [];
+    for (const entry of out.split("\x1e").filter(Boolean)) {
+      const end = entry.lastIndexOf("\x00");
+      // Name-status line: "M\tpath" or "R100\told\tnew"
+      const change = entry.slice(end + 1).trim().split("\n")[0]?.split("\t") ?? [];
+      const path = change[change.length - 1];
+      if (!path) continue;
+      revisions.push({ commit: parseCommit(entry.slice(0, end)), path, status: REVISION_STATUS[change[0]?.[0] ?? "M"] ?? "modified" });
+    }
+    return revisions;
+  }
+
+  // Files deleted in past commits that HEAD doesn't have again, most recently deleted first
+  async deletedFiles(): Promise<DeletedFile[]> {
+    // Merges are diffed against their first parent, so a deletion merged in (as by a sync) is listed
+    // with the merge, whose first parent still has the file
+    const out = await exec(this.cwd, ["-c", "core.quotePath=false", "log", "--first-parent", "-m", "--diff-filter=D", "--name-only",
+      `--format=%x1e${LOG_FORMAT}`]);
+    const existing = new Set(await this.changedFiles(null, "HEAD"));
+    const deleted = new Map<string, DeletedFile>();
+    for (const entry of out.split("\x1e").filter(Boolean)) {
+      const end = entry.lastIndexOf("\x00");
+      const commit = parseCommit(entry.slice(0, end));
+      for (const path of entry.slice(end + 1).split("\n").filter(Boolean)) {
+        if (!existing.has(path) && !deleted.has(path)) deleted.set(path, { path, commit });
+      }
     }
+    return [...deleted.values()];
+  }
 
-    return commits;
+  // Raw contents of a file at a revision (LFS files come back as their pointer)
+  async readFileAt(rev: string, filepath: string): Promise<Buffer> {
+    return execBuffer(this.cwd, ["show", `${rev}:${filepath}`]);
+  }
+
+  // Diff of a file between a revision and the working tree; `oldPath` is its path at that revision
+  async diffFileAt(rev: string, oldPath: string, filepath: string): Promise<string> {
+    return exec(this.cwd, ["diff", "-M", rev, "--", ...new Set([oldPath, filepath])]);
   }
 
   async addRemote(name: string, url: string): Promise<void> {
@@ -204,6 +307,12 @@ export class Git {
     await exec(this.cwd, ["config", key, value]);
   }
 
+  // No-op when the key isn't set
+  async unsetConfig(key: string): Promise<void> {
+    const { code, stderr } = await run(this.cwd, ["config", "--unset-all", key]);
+    if (code !== 0 && code !== 5) throw new Error(`git config failed: ${stderr}`);
+  }
+
   async getConfig(key: string): Promise<string | null> {
     try {
       return await exec(this.cwd, ["config", "--get", key]);
@@ -213,7 +322,9 @@ export class Git {
   }
 
   async currentBranch(): Promise<string> {
-    return exec(this.cwd, ["rev-parse", "--abbrev-ref", "HEAD"]);
+    // symbolic-ref also works before the first commit; rev-parse covers detached HEAD
+    return exec(this.cwd, ["symbolic-ref", "--short", "HEAD"])
+      .catch(() => exec(this.cwd, ["rev-parse", "--abbrev-ref", "HEAD"]));
   }
 
   async checkout(ref: string): Promise<void> {
@@ -239,4 +350,88 @@ export class Git {
   async rev(ref = "HEAD"): Promise<string> {
     return exec(this.cwd, ["rev-parse", ref]);
   }
+
+  async updateRef(ref: string, oid: string): Promise<void> {
+    await exec(this.cwd, ["update-ref", ref, oid]);
+  }
+
+  async deleteRef(ref: string): Promise<void> {
+    await exec(this.cwd, ["update-ref", "-d", ref]);
+  }
+
+  // Write a bundle with the given refs, leaving out history reachable from `exclude`
+  async createBundle(file: string, refs: string[], exclude: string[] = []): Promise<void> {
+    await exec(this.cwd, ["bundle", "create", file, ...refs, ...exclude.map(oid => `^${oid}`)]);
+  }
+
+  // Add a bundle's objects to the object database (refs are left untouched)
+  async unbundle(file: string): Promise<void> {
+    await exec(this.cwd, ["bundle", "unbundle", file]);
+  }
+
+  // Number of commits reachable from `include` but not from `exclude`
+  async countCommits(include: string[], exclude: string[] = []): Promise<number> {
+    const out = await exec(this.cwd, ["rev-list", "--count", ...include, "--not", ...exclude]);
+    return parseInt(out, 10);
+  }
+
+  // Commits only reachable from `local` (ahead) and only from `upstream` (behind)
+  async aheadBehind(local: string, upstream: string): Promise<{ ahead: number; behind: number }> {
+    const out = await exec(this.cwd, ["rev-list", "--left-right", "--count", `${local}...${upstream}`]);
+    const [ahead = 0, behind = 0] = out.split(/\s+/).map(Number);
+    return { ahead, behind };
+  }
+
+  // Files changed on `to`'s side since it forked from `from` (every file when there's no `from`)
+  async changedFiles(from: string | null, to: string): Promise<string[]> {
+    const out = from
+      ? await exec(this.cwd, ["diff", "--name-only", `${from}...${to}`])
+      : await exec(this.cwd, ["ls-tree", "-r", "--name-only", to]);
+    return out ? out.split("\n") : [];
+  }
+
+  async mergeBase(a: string, b: string): Promise<string> {
+    return exec(this.cwd, ["merge-base", a, b]);
+  }
+
+  // Files merging `theirs` into `ours` would leave conflicted, worked out without touching
+  // the index or working tree (git 2.38 or later)
+  async mergeConflicts(ours: string, theirs: string): Promise<string[]> {
+    const { code, stdout, stderr } = await run(this.cwd,
+      ["-c", "core.quotePath=false", "merge-tree", "--write-tree", "--name-only", "--no-messages", ours, theirs]);
+    if (code === 0) return [];
+    if (code !== 1) throw new Error(`git merge-tree failed: ${stderr || stdout}`);
+    // The merged tree's oid, then each conflicted file
+    return stdout.trimEnd().split("\n").slice(1);
+  }
+
+  // Whether `ancestor` is reachable from `descendant` (or is the same commit)
+  async isAncestor(ancestor: string, descendant: string): Promise<boolean> {
+    try {
+      await exec(this.cwd, ["merge-base", "--is-ancestor", ancestor, descendant]);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  // Problems `git fsck` reports in the object database; empty when it's intact
+  async fsck(): Promise<string[]> {
+    try {
+      await exec(this.cwd, ["fsck", "--no-dangling", "--no-progress"]);
+      return [];
+    } catch (e) {
+      const message = (e instanceof Error ? e.message : String(e)).replace(/^git fsck failed: /, "");
+      return message.split("\n").filter(line => line.trim() && !line.startsWith("notice:"));
+    }
+  }
+
+  // Filter object IDs down to those not present in the local object database
+  async missingObjects(oids: string[]): Promise<string[]> {
+    if (!oids.length) return [];
+    const out = await exec(this.cwd, ["cat-file", "--batch-check"], `${oids.join("\n")}\n`);
+    return out.split("\n")
+      .filter(line => line.endsWith(" missing"))
+      .map(line => line.split(" ")[0] ?? "");
+  }
 }
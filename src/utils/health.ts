@@ -0,0 +1,146 @@
+// "Check repository health": local object database, leftovers of interrupted operations, and whether
+// the remote still has every object its refs and LFS pointers need. Problems come with a one-click repair
+import * as fs from "fs/promises";
+import * as path from "path";
+import { Git } from "./git";
+import { Remote } from "./remote";
+import { RemoteLock } from "./lock";
+import { getLfsOids, isLfsAvailable, lfsObjectPath } from "./lfs";
+import { Checklist, CheckResult } from "./diagnostics";
+
+const STALE_LOCK_AGE = 60 * 1000;  // git holds index.lock for moments; older ones were left by a crash
+
+// Runs a repair that changes the remote while holding the remote lock
+export type WithRemoteLock = (run: (lock: RemoteLock) => Promise<void>) => Promise<void>;
+
+function plural(n: number, word: string, words = `${word}s`): string {
+  return `${n} ${n === 1 ? word : words}`;
+}
+
+async function fileAge(file: string): Promise<number | null> {
+  const stat = await fs.stat(file).catch(() => null);
+  return stat ? Date.now() - stat.mtimeMs : null;
+}
+
+// Branch for remote HEAD: the local one if the remote has it, else main/master, else any
+function headCandidate(branches: string[], local: string): string | undefined {
+  return [local, "main", "master"].find(b => branches.includes(b)) ?? branches[0];
+}
+
+export async function checkHealth(remote: Remote, cwd: string, withRemoteLock: WithRemoteLock,
+  onUpdate?: (results: CheckResult[]) => void): Promise<CheckResult[]> {
+  const checks = new Checklist(onUpdate);
+  const git = new Git(cwd);
+  const gitDir = path.join(cwd, ".git");
+  let refs: Record<string, string> = {};
+
+  await checks.run("Local repository", async () => {
+    const problems = await git.fsck();
+    if (!problems.length) return { status: "pass", detail: "git fsck found no problems" };
+    refs = await remote.listRefs();
+    const hasRemote = Object.keys(refs).length > 0;
+    return {
+      status: "fail",
+      detail: problems.slice(0, 5).join("\n") + (problems.length > 5 ? `\n…and ${problems.length - 5} more` : ""),
+      remedy: hasRemote
+        ? "Objects are missing or corrupt. Download every bundle from the remote again to restore them"
+        : "Objects are missing or corrupt and there's no remote copy. Restore .git from a backup",
+      repair: hasRemote ? { label: "Re-fetch", run: () => remote.fetchRefs(gitDir, Object.values(refs), undefined, true) } : undefined,
+    };
+  }, () => "Make sure git is installed and the vault is a git repository");
+
+  await checks.run("Index lock", async () => {
+    const lockFile = path.join(gitDir, "index.lock");
+    const age = await fileAge(lockFile);
+    if (age === null) return { status: "pass", detail: "No index.lock" };
+    if (age < STALE_LOCK_AGE) {
+      return { status: "warn", detail: "index.lock is recent", remedy: "Another git process may still be running. Check again in a minute" };
+    }
+    return {
+      status: "fail",
+      detail: `index.lock left behind ${Math.round(age / 60000)} min ago`,
+      remedy: "A git command was interrupted. Remove the lock so git can update the index again",
+      repair: { label: "Clear lock", run: () => fs.rm(lockFile, { force: true }) },
+    };
+  }, () => "Check that .git is readable");
+
+  await checks.run("Unfinished merge", async () => {
+    if ((await fileAge(path.join(gitDir, "MERGE_HEAD"))) === null) return { status: "pass", detail: "No merge in progress" };
+    return {
+      status: "fail",
+      detail: "MERGE_HEAD left by an interrupted merge",
+      remedy: "Abort the merge to return to the state before it. The next sync merges the remote again",
+      repair: { label: "Abort merge", run: async () => { await Git.exec(cwd, ["merge", "--abort"]); } },
+    };
+  }, () => "Check that .git is readable");
+
+  const remoteOk = await checks.run("Remote HEAD", async () => {
+    refs = await remote.listRefs();
+    const branches = Object.keys(refs);
+    const head = await remote.readHead();
+    if (!branches.length) return { status: "skip", detail: head ? `Points at ${head}, but the remote has no branches yet` : "The remote is empty" };
+    if (head && branches.includes(head)) return { status: "pass", detail: `Points at ${head}` };
+
+    const target = headCandidate(branches, await git.currentBranch().catch(() => ""))!;
+    return {
+      status: "fail",
+      detail: head ? `Points at ${head}, which doesn't exist` : "Missing",
+      remedy: `Point HEAD at ${target} so other devices know which branch to clone`,
+      repair: { label: `Point at ${target}`, run: () => withRemoteLock(() => remote.writeHead(target)) },
+    };
+  }, () => "Check the connection with Test connection in the settings");
+
+  if (!remoteOk) {
+    checks.skip(["Remote refs", "LFS objects"], "Needs a reachable remote");
+    return checks.results;
+  }
+
+  await checks.run("Remote refs", async () => {
+    const { missingBundles, brokenRefs } = await remote.verify(gitDir);
+    const branches = Object.keys(refs);
+    if (!branches.length) return { status: "skip", detail: "The remote is empty" };
+    if (!missingBundles.length && !brokenRefs.length) return { status: "pass", detail: `${plural(branches.length, "branch", "branches")} complete` };
+
+    const found = [
+      missingBundles.length ? `${plural(missingBundles.length, "bundle")} missing from the bucket` : "",
+      brokenRefs.length ? `no objects for ${brokenRefs.join(", ")}` : "",
+    ].filter(Boolean).join("; ");
+    const localMissing = await git.missingObjects(Object.values(refs));
+    if (localMissing.length) {
+      const lacking = branches.filter(b => localMissing.includes(refs[b]!));
+      return {
+        status: "fail",
+        detail: found,
+        remedy: `This device doesn't have ${lacking.join(", ")} either. Check again from a device that does to re-upload ${lacking.length === 1 ? "it" : "them"}`,
+      };
+    }
+    return {
+      status: "fail",
+      detail: found,
+      remedy: "Upload every branch again from this device, replacing what's missing",
+      repair: { label: "Re-upload", run: () => withRemoteLock(lock => remote.rebuild(gitDir, lock)) },
+    };
+  }, () => "Check the connection with Test connection in the settings");
+
+  await checks.run("LFS objects", async () => {
+    if (!(await isLfsAvailable(cwd))) return { status: "skip", detail: "git lfs isn't installed" };
+    const oids = await getLfsOids(cwd);
+    const missing = await remote.missingLfsObjects(oids);
+    if (!missing.length) return { status: "pass", detail: `${plural(oids.length, "object")} on the remote` };
+
+    const local = await Promise.all(missing.map(oid =>
+      fs.access(lfsObjectPath(gitDir, oid)).then(() => true, () => false)));
+    const uploadable = local.filter(Boolean).length;
+    const lost = missing.length - uploadable;
+    return {
+      status: "fail",
+      detail: `${plural(missing.length, "object")} missing from the remote`,
+      remedy: lost
+        ? `${lost === 1 ? "1 object isn't" : `${lost} objects aren't`} on this device either. Check again from a device that has them${uploadable ? `; upload the other ${uploadable} from here` : ""}`
+        : "Upload them from this device",
+      repair: uploadable ? { label: "Re-upload", run: () => withRemoteLock(() => remote.pushLfsObjects(gitDir)) } : undefined,
+    };
+  }, () => "Make sure git lfs works in this vault");
+
+  return checks.results;
+}
@@ -0,0 +1,129 @@
+// Local record of a push in progress, so a push interrupted by a crash or quit resumes instead of starting over.
+// Lives in <gitDir>/remote-vault-sync next to the bundle it's uploading; removed once the ref is updated.
+import * as fs from "fs/promises";
+import * as path from "path";
+import type { BundleEntry } from "./remote";
+
+export const JOURNAL_DIR = "remote-vault-sync";
+const JOURNAL_FILE = "push-journal.json";
+
+export interface PushJournalState {
+  version: 1;
+  startedAt: number;
+  planned: string[];                  // remote keys this push uploads
+  completed: string[];                // planned keys that are fully uploaded
+  uploads: Record<string, string>;    // key -> UploadId of a multipart upload to resume
+  ref: { branch: string; oid: string } | null;  // final ref update; null until the bundle is built
+  bundle: BundleEntry | null;         // bundle built for `ref`, null if the remote had every commit
+}
+
+function emptyState(): PushJournalState {
+  return { version: 1, startedAt: Date.now(), planned: [], completed: [], uploads: {}, ref: null, bundle: null };
+}
+
+export class PushJournal {
+  private saving: Promise<void> = Promise.resolve();
+
+  private constructor(readonly dir: string, private state: PushJournalState) {}
+
+  // The journal left by an interrupted push, or a fresh one
+  static async open(gitDir: string): Promise<PushJournal> {
+    const dir = path.join(gitDir, JOURNAL_DIR);
+    let state = emptyState();
+    try {
+      const saved = JSON.parse(await fs.readFile(path.join(dir, JOURNAL_FILE), "utf8")) as PushJournalState;
+      if (saved.version === 1) state = saved;
+    } catch {
+      // No journal (the last push finished) or an unreadable one: nothing to resume
+    }
+    return new PushJournal(dir, state);
+  }
+
+  get ref(): PushJournalState["ref"] {
+    return this.state.ref;
+  }
+
+  get bundle(): BundleEntry | null {
+    return this.state.bundle;
+  }
+
+  get uploads(): Record<string, string> {
+    return { ...this.state.uploads };
+  }
+
+  // Local copy of a bundle built for this push
+  bundlePath(name: string): string {
+    return path.join(this.dir, name);
+  }
+
+  // The recorded bundle can still be pushed: uploaded already, or its local copy survived
+  async canResume(bundleKey: string | null): Promise<boolean> {
+    const { bundle } = this.state;
+    if (!bundle || !bundleKey || this.isCompleted(bundleKey)) return true;
+    return fs.access(this.bundlePath(bundle.name)).then(() => true, () => false);
+  }
+
+  isCompleted(key: string): boolean {
+    return this.state.completed.includes(key);
+  }
+
+  uploadId(key: string): string | undefined {
+    return this.state.uploads[key];
+  }
+
+  async plan(keys: string[]): Promise<void> {
+    const planned = new Set(this.state.planned);
+    await this.update({ planned: [...this.state.planned, ...keys.filter(k => !planned.has(k))] });
+  }
+
+  // Record the final ref update and the bundle built for it
+  async planRef(branch: string, oid: string, bundle: BundleEntry | null, bundleKey: string | null): Promise<void> {
+    await this.update({ ref: { branch, oid }, bundle });
+    if (bundleKey) await this.plan([bundleKey]);
+  }
+
+  async startUpload(key: string, uploadId: string): Promise<void> {
+    await this.update({ uploads: { ...this.state.uploads, [key]: uploadId } });
+  }
+
+  async complete(key: string): Promise<void> {
+    await this.update({ completed: [...this.state.completed, key], uploads: this.uploadsWithout(key) });
+  }
+
+  // Forget the ref update and its bundle (e.g. a newer commit is being pushed); finished uploads stay recorded
+  async dropRef(bundleKey: string | null): Promise<void> {
+    const { bundle } = this.state;
+    await this.update({
+      ref: null,
+      bundle: null,
+      planned: this.state.planned.filter(k => k !== bundleKey),
+      completed: this.state.completed.filter(k => k !== bundleKey),
+      uploads: bundleKey ? this.uploadsWithout(bundleKey) : this.state.uploads,
+    });
+    if (bundle) await fs.rm(this.bundlePath(bundle.name), { force: true });
+  }
+
+  // Push finished: remove the journal and any local bundle
+  async clear(): Promise<void> {
+    await this.saving.catch(() => {});
+    this.state = emptyState();
+    await fs.rm(this.dir, { recursive: true, force: true });
+  }
+
+  private uploadsWithout(key: string): Record<string, string> {
+    return Object.fromEntries(Object.entries(this.state.uploads).filter(([k]) => k !== key));
+  }
+
+  private async update(changes: Partial<PushJournalState>): Promise<void> {
+    this.state = { ...this.state, ...changes };
+    const state = JSON.stringify(this.state, null, 2);
+    // Uploads run concurrently; write in order via temp file + rename so the journal is never torn
+    this.saving = this.saving.catch(() => {}).then(async () => {
+      const file = path.join(this.dir, JOURNAL_FILE);
+      await fs.mkdir(this.dir, { recursive: true });
+      await fs.writeFile(`${file}.tmp`, state);
+      await fs.rename(`${file}.tmp`, file);
+    });
+    await this.saving;
+  }
+}
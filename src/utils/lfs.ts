@@ -1,10 +1,14 @@
 import {spawn} from "child_process";
+import * as path from "path";
 import {Git} from "./git";
 import {gitEnv} from "./env";
 
+// Markdown notes go through the plugin's merge driver (git's line merge when it isn't configured)
+const MARKDOWN_GITATTRIBUTES = "*.md merge=markdown\n";
+
 // Git attributes for LFS-tracked files (fallback to binary if LFS unavailable)
 const LFS_GITATTRIBUTES = `* text=auto eol=lf
-*.png filter=lfs diff=lfs merge=lfs -text
+${MARKDOWN_GITATTRIBUTES}*.png filter=lfs diff=lfs merge=lfs -text
 *.jpg filter=lfs diff=lfs merge=lfs -text
 *.jpeg filter=lfs diff=lfs merge=lfs -text
 *.gif filter=lfs diff=lfs merge=lfs -text
@@ -23,7 +27,7 @@ const LFS_GITATTRIBUTES = `* text=auto eol=lf
 `;
 
 const BINARY_GITATTRIBUTES = `* text=auto eol=lf
-*.png binary
+${MARKDOWN_GITATTRIBUTES}*.png binary
 *.jpg binary
 *.jpeg binary
 *.gif binary
@@ -131,3 +135,19 @@ export async function getLfsOids(cwd: string): Promise<string[]> {
 		proc.on("error", reject);
 	});
 }
+
+// OID and size from the contents of an LFS pointer file; null for anything else
+export function parseLfsPointer(content: Buffer): {oid: string; size: number} | null {
+	// Pointers are small text files; don't decode large binaries
+	if (content.length > 1024) return null;
+	const text = content.toString("utf8");
+	if (!text.startsWith("version https://git-lfs.github.com/spec/v1\n")) return null;
+	const oid = text.match(/^oid sha256:([0-9a-f]{64})$/m)?.[1];
+	const size = text.match(/^size (\d+)$/m)?.[1];
+	return oid && size ? {oid, size: parseInt(size, 10)} : null;
+}
+
+// Where git-lfs keeps an object locally: .git/lfs/objects/AB/CD/ABCD...
+export function lfsObjectPath(gitDir: string, oid: string): string {
+	return path.join(gitDir, "lfs", "objects", oid.slice(0, 2), oid.slice(2, 4), oid);
+}
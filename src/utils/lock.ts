@@ -0,0 +1,126 @@
+// Remote write lock (lease) stored next to the repo, using S3 conditional writes
+import { randomUUID } from "crypto";
+import { S3FS } from "./s3-fs";
+import { isPreconditionFailed } from "./s3";
+
+export const LOCK_PATH = ".sync/lock.json";
+const DEFAULT_TTL = 2 * 60 * 1000;  // 2 minutes, renewed by heartbeat
+
+export interface LockOwner {
+  deviceId: string;
+  deviceName: string;
+}
+
+export interface LockInfo extends LockOwner {
+  token: string;        // unique per acquisition
+  acquiredAt: number;
+  heartbeatAt: number;
+  expiresAt: number;
+}
+
+function parseLock(body: Buffer): LockInfo | null {
+  try {
+    const info = JSON.parse(body.toString()) as Partial<LockInfo>;
+    return typeof info.token === "string" && typeof info.expiresAt === "number" ? info as LockInfo : null;
+  } catch {
+    return null;
+  }
+}
+
+export class RemoteLock {
+  private etag: string | null = null;
+  private info: LockInfo | null = null;
+  private heartbeat: ReturnType<typeof setInterval> | null = null;
+  private lost = false;
+
+  constructor(private fs: S3FS, private owner: LockOwner, private ttl = DEFAULT_TTL) {}
+
+  // Current lock holder, or null if unlocked
+  async read(): Promise<LockInfo | null> {
+    const current = await this.fs.readFileWithEtag(LOCK_PATH);
+    return current ? parseLock(current.body) : null;
+  }
+
+  // Take the lock; throws if another device holds an unexpired lease
+  async acquire(): Promise<void> {
+    const current = await this.fs.readFileWithEtag(LOCK_PATH);
+    const holder = current ? parseLock(current.body) : null;
+    const now = Date.now();
+    if (holder && holder.deviceId !== this.owner.deviceId && holder.expiresAt > now) {
+      throw new Error(`Remote is locked by ${holder.deviceName} until ${new Date(holder.expiresAt).toLocaleTimeString()}`);
+    }
+
+    const info: LockInfo = { ...this.owner, token: randomUUID(), acquiredAt: now, heartbeatAt: now, expiresAt: now + this.ttl };
+    try {
+      // Create if absent, otherwise replace exactly the (stale or own) lock we read
+      await this.fs.writeFileConditional(LOCK_PATH, JSON.stringify(info), current ? { ifMatch: current.etag } : { ifNoneMatch: "*" });
+    } catch (e) {
+      if (isPreconditionFailed(e)) throw new Error("Remote lock was taken by another device");
+      throw e;
+    }
+
+    // Backends without conditional writes ignore the precondition, so confirm we won by reading back
+    const written = await this.fs.readFileWithEtag(LOCK_PATH);
+    if (!written || parseLock(written.body)?.token !== info.token) {
+      throw new Error("Remote lock was taken by another device");
+    }
+
+    this.etag = written.etag;
+    this.info = info;
+    this.lost = false;
+    this.heartbeat = setInterval(() => void this.renew(), this.ttl / 3);
+  }
+
+  // Extend the lease; marks the lock lost if someone else replaced it
+  private async renew(): Promise<void> {
+    if (!this.info || !this.etag) return;
+    const now = Date.now();
+    const info = { ...this.info, heartbeatAt: now, expiresAt: now + this.ttl };
+    try {
+      this.etag = await this.fs.writeFileConditional(LOCK_PATH, JSON.stringify(info), { ifMatch: this.etag });
+      this.info = info;
+    } catch (e) {
+      // A lost lease is reported by assertHeld() to whoever writes next; anything else is retried on the next beat
+      if (!isPreconditionFailed(e)) {
+        console.error("[remote-vault-sync] Lock heartbeat failed:", e);
+        return;
+      }
+      this.lost = true;
+      this.stopHeartbeat();
+    }
+  }
+
+  // Throw if the lease was lost (broken or expired and taken over) while we held it
+  assertHeld(): void {
+    if (!this.info) throw new Error("Remote lock not held");
+    if (this.lost || this.info.expiresAt < Date.now()) throw new Error("Remote lock was lost");
+  }
+
+  async release(): Promise<void> {
+    this.stopHeartbeat();
+    const info = this.info;
+    this.info = null;
+    this.etag = null;
+    if (!info) return;
+
+    // Only delete the lock if it's still ours, and only the version we read: it may have expired
+    // and been taken over in between
+    const current = await this.fs.readFileWithEtag(LOCK_PATH);
+    if (!current || parseLock(current.body)?.token !== info.token) return;
+    try {
+      await this.fs.unlinkConditional(LOCK_PATH, current.etag);
+    } catch (e) {
+      if (!isPreconditionFailed(e)) throw e;
+    }
+  }
+
+  // Forcefully remove whatever lock is present
+  async break(): Promise<void> {
+    await this.fs.unlink(LOCK_PATH);
+  }
+
+  private stopHeartbeat() {
+    if (this.heartbeat) clearInterval(this.heartbeat);
+    this.heartbeat = null;
+  }
+}
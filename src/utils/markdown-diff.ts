@@ -0,0 +1,137 @@
+// Block-level diff of two markdown documents for the rendered diff view: frontmatter properties,
+// headings, list items, table rows and other blocks are compared as units, then grouped into
+// runs that render together (one table, one list, one properties table)
+import {diffSequences} from "./diff";
+
+export interface MarkdownBlock {
+  kind: "property" | "heading" | "list-item" | "table-head" | "table-row" | "code" | "quote" | "paragraph";
+  text: string;   // the block's markdown source
+  key?: string;   // property name for frontmatter properties
+}
+
+export interface BlockChange {
+  kind: "same" | "del" | "add";
+  block: MarkdownBlock;
+}
+
+// Changes rendered together; table and list runs render as one table or list with their rows
+// or items marked, properties as a key/value table
+export interface BlockRun {
+  kind: "properties" | "table" | "list" | "blocks";
+  changes: BlockChange[];
+}
+
+const FENCE = /^\s*(`{3,}|~{3,})/;
+const HEADING = /^#{1,6}(\s|$)/;
+const LIST_ITEM = /^([-*+]|\d+[.)])(\s|$)/;
+const TABLE_ROW = /^\s*\|/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const QUOTE = /^\s*>/;
+const PROPERTY = /^([^\s:#-][^:]*):(\s|$)/;
+
+// Whether `line` starts a block other than a paragraph
+function startsBlock(line: string, next: string | undefined): boolean {
+  return FENCE.test(line) || HEADING.test(line) || LIST_ITEM.test(line) || QUOTE.test(line)
+    || (TABLE_ROW.test(line) && next !== undefined && TABLE_SEPARATOR.test(next));
+}
+
+// One block per frontmatter property, its indented or list continuation lines included
+function splitProperties(lines: string[]): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  for (const line of lines) {
+    const match = line.match(PROPERTY);
+    const last = blocks[blocks.length - 1];
+    if (match) blocks.push({ kind: "property", key: match[1]!.trim(), text: line });
+    else if (last && line.trim()) last.text += `\n${line}`;
+  }
+  return blocks;
+}
+
+// Split a markdown document into the blocks it's diffed by
+export function splitBlocks(markdown: string): MarkdownBlock[] {
+  const lines = markdown.replace(/\r\n/g, "\n").split("\n");
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  if (lines[0]?.trim() === "---") {
+    const end = lines.findIndex((line, k) => k > 0 && line.trim() === "---");
+    if (end > 0) {
+      blocks.push(...splitProperties(lines.slice(1, end)));
+      i = end + 1;
+    }
+  }
+
+  while (i < lines.length) {
+    const line = lines[i]!;
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const start = i++;
+      while (i < lines.length && !lines[i]!.trim().startsWith(fence[1]!)) i++;
+      i = Math.min(i + 1, lines.length);
+      blocks.push({ kind: "code", text: lines.slice(start, i).join("\n") });
+    } else if (HEADING.test(line)) {
+      blocks.push({ kind: "heading", text: line });
+      i++;
+    } else if (TABLE_ROW.test(line) && TABLE_SEPARATOR.test(lines[i + 1] ?? "")) {
+      blocks.push({ kind: "table-head", text: `${line}\n${lines[i + 1]!}` });
+      i += 2;
+      while (i < lines.length && TABLE_ROW.test(lines[i]!)) blocks.push({ kind: "table-row", text: lines[i++]! });
+    } else if (LIST_ITEM.test(line)) {
+      // A top-level item with its nested items and continuation lines
+      const start = i++;
+      while (i < lines.length && lines[i]!.trim() && /^\s/.test(lines[i]!)) i++;
+      blocks.push({ kind: "list-item", text: lines.slice(start, i).join("\n") });
+    } else if (QUOTE.test(line)) {
+      const start = i++;
+      while (i < lines.length && QUOTE.test(lines[i]!)) i++;
+      blocks.push({ kind: "quote", text: lines.slice(start, i).join("\n") });
+    } else {
+      const start = i++;
+      while (i < lines.length && lines[i]!.trim() && !startsBlock(lines[i]!, lines[i + 1])) i++;
+      blocks.push({ kind: "paragraph", text: lines.slice(start, i).join("\n") });
+    }
+  }
+  return blocks;
+}
+
+// Blocks of the old and new document, unchanged ones in place and changed ones removed then added
+export function diffBlocks(oldMarkdown: string, newMarkdown: string): BlockChange[] {
+  const a = splitBlocks(oldMarkdown);
+  const b = splitBlocks(newMarkdown);
+  // Identical text in different kinds of blocks (a row vs. a paragraph) isn't the same block
+  const id = (block: MarkdownBlock) => `${block.kind}\0${block.text}`;
+  return diffSequences(a.map(id), b.map(id)).map((op): BlockChange => {
+    if (op.kind === "add") return { kind: "add", block: b[op.j]! };
+    return { kind: op.kind, block: a[op.i]! };
+  });
+}
+
+function runKind(block: MarkdownBlock): BlockRun["kind"] {
+  if (block.kind === "property") return "properties";
+  if (block.kind === "table-head" || block.kind === "table-row") return "table";
+  if (block.kind === "list-item") return "list";
+  return "blocks";
+}
+
+// Group consecutive changes that render together; a table head always starts a new table,
+// and other blocks are grouped only while they're unchanged
+export function groupRuns(changes: BlockChange[]): BlockRun[] {
+  const runs: BlockRun[] = [];
+  for (const change of changes) {
+    const kind = runKind(change.block);
+    const last = runs[runs.length - 1];
+    const joins = last?.kind === kind && (
+      kind === "table" ? change.block.kind === "table-row"
+      : kind === "blocks" ? change.kind === "same" && last.changes[0]!.kind === "same"
+      : true
+    );
+    if (joins) last.changes.push(change);
+    else runs.push({ kind, changes: [change] });
+  }
+  return runs;
+}
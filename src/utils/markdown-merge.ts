@@ -0,0 +1,247 @@
+// Three-way merge of markdown notes that knows their structure: frontmatter is merged key by key
+// (lists unioned, the newest date kept) and the body heading section by heading section, so only
+// changes that really overlap conflict
+import {MergeChunk, mergeChunks} from "./merge";
+
+interface Property {
+  key: string;
+  lines: string[];
+  value: string;              // inline value, "" when the value is on the following lines
+  items: string[] | null;     // list items, when the value is a list
+  inline: boolean;            // a [a, b] list
+}
+
+interface Section {
+  key: string;                // heading line ("" before the first heading), numbered when repeated
+  lines: string[];            // without trailing blank lines
+  gap: number;                // blank lines after it
+}
+
+interface Note {
+  properties: Property[] | null;  // null without frontmatter
+  sections: Section[];
+  newline: boolean;               // ends with a newline
+}
+
+const DATE = /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+const HEADING = /^#{1,6}\s/;
+const FENCE = /^\s*(```|~~~)/;
+
+const equal = (a: string[], b: string[]) => a.length === b.length && a.every((line, i) => line === b[i]);
+const unquote = (s: string) => s.trim().replace(/^(["'])(.*)\1$/, "$2");
+
+function parseProperty(key: string, value: string, lines: string[]): Property {
+  const inline = /^\[.*\]$/.test(value);
+  let items: string[] | null = null;
+  if (inline) items = value.slice(1, -1).split(",").map(s => s.trim()).filter(Boolean);
+  else if (!value && lines.length > 1 && lines.slice(1).every(l => /^\s*-(\s|$)/.test(l))) {
+    items = lines.slice(1).map(l => l.replace(/^\s*-\s?/, "").trim());
+  }
+  return {key, lines, value, items, inline};
+}
+
+// Top-level keys of the frontmatter; null when it has lines outside a key (comments first, or not YAML)
+function parseFrontmatter(lines: string[]): Property[] | null {
+  const properties: Property[] = [];
+  let current: {key: string; value: string; lines: string[]} | null = null;
+  for (const line of lines) {
+    const match = /^([^\s#-][^:]*):(?:\s+(.*))?$/.exec(line);
+    if (match) {
+      if (current) properties.push(parseProperty(current.key, current.value, current.lines));
+      current = {key: match[1]!.trim(), value: (match[2] ?? "").trim(), lines: [line]};
+    } else if (current) {
+      current.lines.push(line);
+    } else if (line.trim()) {
+      return null;
+    }
+  }
+  if (current) properties.push(parseProperty(current.key, current.value, current.lines));
+  return properties;
+}
+
+function parseSections(lines: string[]): Section[] {
+  const sections: {key: string; lines: string[]}[] = [{key: "", lines: []}];
+  const seen = new Map<string, number>();
+  let fenced = false;
+  for (const line of lines) {
+    if (FENCE.test(line)) fenced = !fenced;
+    if (!fenced && HEADING.test(line)) {
+      const heading = line.trim();
+      const n = (seen.get(heading) ?? 0) + 1;
+      seen.set(heading, n);
+      sections.push({key: n > 1 ? `${heading}\0${n}` : heading, lines: [line]});
+    } else {
+      sections[sections.length - 1]!.lines.push(line);
+    }
+  }
+  return sections.map(({key, lines}) => {
+    let end = lines.length;
+    while (end > 0 && !lines[end - 1]!.trim()) end--;
+    return {key, lines: lines.slice(0, end), gap: lines.length - end};
+  });
+}
+
+// Null when the frontmatter can't be merged key by key
+function parseNote(text: string): Note | null {
+  const lines = text.split("\n");
+  const newline = lines[lines.length - 1] === "";
+  if (newline) lines.pop();
+
+  let properties: Property[] | null = null;
+  let body = lines;
+  const close = lines[0] === "---" ? lines.indexOf("---", 1) : -1;
+  if (close > 0) {
+    properties = parseFrontmatter(lines.slice(1, close));
+    if (!properties) return null;
+    body = lines.slice(close + 1);
+  }
+  return {properties, sections: parseSections(body), newline};
+}
+
+// Keys of both sides in local order, each remote-only key placed after the one it follows remotely
+// (and after anything added locally there, so local additions come first)
+function mergeOrder(base: string[], ours: string[], theirs: string[]): string[] {
+  const order = [...ours];
+  const inBase = new Set(base);
+  const inTheirs = new Set(theirs);
+  theirs.forEach((key, i) => {
+    if (order.includes(key)) return;
+    let at = 0;
+    for (let p = i - 1; p >= 0; p--) {
+      const found = order.indexOf(theirs[p]!);
+      if (found >= 0) {
+        at = found + 1;
+        break;
+      }
+    }
+    while (at < order.length && !inBase.has(order[at]!) && !inTheirs.has(order[at]!)) at++;
+    order.splice(at, 0, key);
+  });
+  return order;
+}
+
+// Lines changed on one side win; lines changed on both are merged line by line
+function mergeLines(base: string[], ours: string[], theirs: string[]): MergeChunk[] {
+  if (equal(ours, theirs)) return [{kind: "same", lines: ours}];
+  if (equal(ours, base)) return [{kind: "theirs", lines: theirs, base}];
+  if (equal(theirs, base)) return [{kind: "ours", lines: ours, base}];
+  if (!base.length || !ours.length || !theirs.length) return [{kind: "conflict", base, ours, theirs}];
+  return mergeChunks(base.join("\n"), ours.join("\n"), theirs.join("\n"));
+}
+
+function newest(a: string, b: string): string | null {
+  const time = (s: string) => DATE.test(unquote(s)) ? Date.parse(unquote(s).replace(" ", "T")) : NaN;
+  const [ta, tb] = [time(a), time(b)];
+  if (isNaN(ta) || isNaN(tb)) return null;
+  return tb > ta ? b : a;
+}
+
+// Items as a list, reading an empty value as an empty list
+const listOf = (p: Property | undefined) => p?.items ?? (p && !p.value && p.lines.length === 1 ? [] : null);
+
+function formatList(like: Property, items: string[]): string[] {
+  if (like.inline || !like.items?.length) return [`${like.key}: [${items.join(", ")}]`];
+  const indent = /^(\s*)-/.exec(like.lines[1]!)![1];
+  return [`${like.key}:`, ...items.map(item => `${indent}- ${item}`)];
+}
+
+// A key changed differently on both sides: lists are unioned (minus items either side removed),
+// dates keep the newest; anything else conflicts
+function mergeProperty(base: Property | undefined, ours: Property, theirs: Property): string[] | null {
+  const [b, o, t] = [listOf(base) ?? [], listOf(ours), listOf(theirs)];
+  if (o && t && (o.length || t.length)) {
+    const keep = (item: string) => !b.some(x => unquote(x) === unquote(item)) ||
+      (o.some(x => unquote(x) === unquote(item)) && t.some(x => unquote(x) === unquote(item)));
+    const items = [...o, ...t.filter(item => !o.some(x => unquote(x) === unquote(item)))].filter(keep);
+    return formatList(ours.items?.length || ours.inline ? ours : theirs, items);
+  }
+  const date = ours.lines.length === 1 && theirs.lines.length === 1 ? newest(ours.value, theirs.value) : null;
+  if (date !== null) return date === ours.value ? ours.lines : theirs.lines;
+  return null;
+}
+
+function mergeFrontmatter(base: Property[], ours: Property[], theirs: Property[]): MergeChunk[] {
+  const find = (list: Property[], key: string) => list.find(p => p.key === key);
+  const chunks: MergeChunk[] = [];
+  for (const key of mergeOrder(base.map(p => p.key), ours.map(p => p.key), theirs.map(p => p.key))) {
+    const [b, o, t] = [find(base, key), find(ours, key), find(theirs, key)];
+    const lines = (p?: Property) => p?.lines ?? [];
+    const changedOnBoth = o && t && !equal(o.lines, t.lines) && !(b && (equal(o.lines, b.lines) || equal(t.lines, b.lines)));
+    if (!changedOnBoth) {
+      chunks.push(...mergeLines(lines(b), lines(o), lines(t)));
+      continue;
+    }
+    const merged = mergeProperty(b, o, t);
+    chunks.push(merged ? {kind: "same", lines: merged} : {kind: "conflict", base: lines(b), ours: o.lines, theirs: t.lines});
+  }
+  return chunks;
+}
+
+function mergeSections(base: Section[], ours: Section[], theirs: Section[]): MergeChunk[] {
+  const find = (list: Section[], key: string) => list.find(s => s.key === key);
+  const order = mergeOrder(base.map(s => s.key), ours.map(s => s.key), theirs.map(s => s.key));
+  const chunks: MergeChunk[] = [];
+  const kept = order.filter(key => {
+    const [b, o, t] = [find(base, key), find(ours, key), find(theirs, key)];
+    // Dropped when deleted on one side and left alone on the other
+    return !(b && ((!o && t && equal(t.lines, b.lines)) || (!t && o && equal(o.lines, b.lines))));
+  });
+
+  kept.forEach((key, i) => {
+    const [b, o, t] = [find(base, key), find(ours, key), find(theirs, key)];
+    // Added on both sides under the same heading: the heading is shared, the rest may conflict
+    const baseLines = b?.lines ?? (o && t && key ? o.lines.slice(0, 1) : []);
+    chunks.push(...mergeLines(baseLines, o?.lines ?? [], t?.lines ?? []));
+
+    // Blank lines after the section, from a version where it is (or isn't) last as it is here
+    const last = i === kept.length - 1;
+    const gapIn = (list: Section[]) => {
+      const section = find(list, key);
+      return section && (list[list.length - 1]!.key === key) === last ? section.gap : undefined;
+    };
+    const gap = gapIn(ours) ?? gapIn(theirs) ?? gapIn(base) ?? (last ? 0 : 1);
+    if (gap) chunks.push({kind: "same", lines: new Array<string>(gap).fill("")});
+  });
+  return chunks;
+}
+
+// Lines ended with \r again, except the file's last (the one after its final newline, if any)
+function withCarriageReturns(chunks: MergeChunk[]): MergeChunk[] {
+  const cr = (lines: string[], last: boolean) => lines.map((line, i) => last && i === lines.length - 1 ? line : `${line}\r`);
+  return chunks.map((chunk, i) => {
+    const last = i === chunks.length - 1;
+    if (chunk.kind === "same") return {kind: "same", lines: cr(chunk.lines, last)};
+    if (chunk.kind === "conflict") return {kind: "conflict", base: cr(chunk.base, last), ours: cr(chunk.ours, last), theirs: cr(chunk.theirs, last)};
+    return {kind: chunk.kind, lines: cr(chunk.lines, last), base: cr(chunk.base, last)};
+  });
+}
+
+// The merged note as chunks (see mergedText), with the local side's line endings (the remote's
+// when the local note is empty); files whose frontmatter isn't plain keys fall back to a line merge
+export function mergeMarkdown(base: string, ours: string, theirs: string): MergeChunk[] {
+  const lf = (text: string) => text.replace(/\r\n/g, "\n");
+  const chunks = mergeNotes(lf(base), lf(ours), lf(theirs));
+  return /\r\n/.test(ours || theirs) ? withCarriageReturns(chunks) : chunks;
+}
+
+// mergeMarkdown over notes with LF line endings
+function mergeNotes(base: string, ours: string, theirs: string): MergeChunk[] {
+  const [b, o, t] = [parseNote(base), parseNote(ours), parseNote(theirs)];
+  if (!b || !o || !t) return mergeChunks(base, ours, theirs);
+
+  const chunks: MergeChunk[] = [];
+  const push = (chunk: MergeChunk) => {
+    const last = chunks[chunks.length - 1];
+    if (chunk.kind === "same" && last?.kind === "same") last.lines.push(...chunk.lines);
+    else if (chunk.kind === "conflict" || chunk.lines.length || (chunk.kind !== "same" && chunk.base.length)) chunks.push(chunk);
+  };
+
+  if (o.properties || t.properties) {
+    push({kind: "same", lines: ["---"]});
+    mergeFrontmatter(b.properties ?? [], o.properties ?? [], t.properties ?? []).forEach(push);
+    push({kind: "same", lines: ["---"]});
+  }
+  mergeSections(b.sections, o.sections, t.sections).forEach(push);
+  if (o.newline === b.newline ? t.newline : o.newline) push({kind: "same", lines: [""]});
+  return chunks;
+}
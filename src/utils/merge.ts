@@ -0,0 +1,98 @@
+// Line-based three-way merge for the merge editor: the file split into chunks that are unchanged,
+// changed on one side only (merged automatically), or changed on both sides (conflicts)
+import {diffSequences} from "./diff";
+
+export type MergeChunk =
+  | { kind: "same"; lines: string[] }
+  | { kind: "ours" | "theirs"; lines: string[]; base: string[] }  // only that side changed these lines
+  | { kind: "conflict"; base: string[]; ours: string[]; theirs: string[] };
+
+// How a conflict is resolved: one side, both (local first), or neither (the base lines)
+export type ConflictChoice = "ours" | "theirs" | "both" | "base";
+
+const equal = (a: string[], b: string[]) => a.length === b.length && a.every((line, i) => line === b[i]);
+
+// For each base line kept in `other`, its index there
+function matches(base: string[], other: string[]): Map<number, number> {
+  const map = new Map<number, number>();
+  for (const op of diffSequences(base, other)) {
+    if (op.kind === "same") map.set(op.i, op.j);
+  }
+  return map;
+}
+
+// Walk the base from one line kept on both sides to the next; what lies between is changed on
+// neither, one or both sides
+export function mergeChunks(base: string, ours: string, theirs: string): MergeChunk[] {
+  const o = base.split("\n");
+  const a = ours.split("\n");
+  const b = theirs.split("\n");
+  const inA = matches(o, a);
+  const inB = matches(o, b);
+
+  const chunks: MergeChunk[] = [];
+  const push = (chunk: MergeChunk) => {
+    const last = chunks[chunks.length - 1];
+    if (chunk.kind === "same" && last?.kind === "same") last.lines.push(...chunk.lines);
+    else if (chunk.kind !== "same" || chunk.lines.length) chunks.push(chunk);
+  };
+
+  let i = 0;
+  let j = 0;
+  let k = 0;
+  while (i < o.length || j < a.length || k < b.length) {
+    if (i < o.length && inA.get(i) === j && inB.get(i) === k) {
+      push({ kind: "same", lines: [o[i]!] });
+      i++;
+      j++;
+      k++;
+      continue;
+    }
+
+    let next = i;
+    while (next < o.length && !(inA.has(next) && inB.has(next))) next++;
+    const baseLines = o.slice(i, next);
+    const ourLines = a.slice(j, next < o.length ? inA.get(next) : a.length);
+    const theirLines = b.slice(k, next < o.length ? inB.get(next) : b.length);
+
+    if (equal(ourLines, baseLines)) push({ kind: "theirs", lines: theirLines, base: baseLines });
+    else if (equal(theirLines, baseLines)) push({ kind: "ours", lines: ourLines, base: baseLines });
+    else if (equal(ourLines, theirLines)) push({ kind: "same", lines: ourLines });
+    else push({ kind: "conflict", base: baseLines, ours: ourLines, theirs: theirLines });
+
+    i = next;
+    j += ourLines.length;
+    k += theirLines.length;
+  }
+  return chunks;
+}
+
+// Lines a conflict resolves to
+export function chooseLines(chunk: Extract<MergeChunk, { kind: "conflict" }>, choice: ConflictChoice): string[] {
+  if (choice === "both") return [...chunk.ours, ...chunk.theirs];
+  return chunk[choice];
+}
+
+// The merged file; conflicts without a choice keep git's conflict markers, ended with \r too in
+// files whose lines are
+export function mergedText(chunks: MergeChunk[], choices: (ConflictChoice | undefined)[]): string {
+  const cr = chunks.some(chunk => (chunk.kind === "conflict" ? [...chunk.ours, ...chunk.theirs] : chunk.lines).some(line => line.endsWith("\r"))) ? "\r" : "";
+  // A file's last line has no line ending, but one followed by a marker needs it
+  const ended = (side: string[]) => side.map((line, i) => i === side.length - 1 && !line.endsWith(cr) ? `${line}${cr}` : line);
+  const lines: string[] = [];
+  let conflict = 0;
+  chunks.forEach((chunk, i) => {
+    if (chunk.kind !== "conflict") {
+      lines.push(...chunk.lines);
+      return;
+    }
+    const choice = choices[conflict++];
+    if (choice) lines.push(...chooseLines(chunk, choice));
+    else lines.push(`<<<<<<< local${cr}`, ...ended(chunk.ours), `=======${cr}`, ...ended(chunk.theirs), `>>>>>>> remote${i === chunks.length - 1 ? "" : cr}`);
+  });
+  return lines.join("\n");
+}
+
+export function hasConflictMarkers(text: string): boolean {
+  return /^<<<<<<< /m.test(text) && /^>>>>>>> /m.test(text);
+}
@@ -0,0 +1,49 @@
+// A unified diff split into files and hunks, and the partial patches that stage only some
+// of a file's hunks with `git apply --cached`
+
+export interface FilePatch {
+  path: string;
+  header: string[];   // "diff --git" through "+++", without hunks
+  hunks: string[][];  // each hunk's "@@" line followed by its body
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@(.*)$/;
+
+export function parsePatch(diff: string): FilePatch[] {
+  const files: FilePatch[] = [];
+  const lines = diff.split("\n");
+  // The newline ending the last line isn't an empty line of the last hunk
+  if (lines[lines.length - 1] === "") lines.pop();
+
+  for (const line of lines) {
+    const header = line.match(/^diff --git a\/(.+) b\//);
+    const file = files[files.length - 1];
+    if (header) files.push({ path: header[1]!, header: [line], hunks: [] });
+    else if (!file) continue;
+    else if (line.startsWith("@@")) file.hunks.push([line]);
+    else if (file.hunks.length) file.hunks[file.hunks.length - 1]!.push(line);
+    else file.header.push(line);
+  }
+  return files;
+}
+
+// Patch for the file with only the selected hunks; each one's new-side start moves by what the
+// selected hunks before it add or remove, since the skipped ones won't be applied
+export function selectHunks(file: FilePatch, selected: boolean[]): string {
+  const lines = [...file.header];
+  let offset = 0;
+  file.hunks.forEach((hunk, i) => {
+    if (!selected[i]) return;
+    const match = hunk[0]!.match(HUNK_HEADER);
+    if (!match) throw new Error(`Malformed hunk header in ${file.path}: ${hunk[0]}`);
+    const oldStart = parseInt(match[1]!, 10);
+    const oldCount = match[2] === undefined ? 1 : parseInt(match[2], 10);
+    const newCount = match[4] === undefined ? 1 : parseInt(match[4], 10);
+    // A hunk that starts from nothing (old count 0) sits after line oldStart, as does its new side
+    const newStart = oldStart + offset + (oldCount === 0 && newCount > 0 ? 1 : 0) - (newCount === 0 && oldCount > 0 ? 1 : 0);
+    offset += newCount - oldCount;
+    const counts = (start: number, count: number) => count === 1 ? `${start}` : `${start},${count}`;
+    lines.push(`@@ -${counts(oldStart, oldCount)} +${counts(newStart, newCount)} @@${match[5]}`, ...hunk.slice(1));
+  });
+  return `${lines.join("\n")}\n`;
+}
@@ -0,0 +1,57 @@
+// Persisted queue of sync operations that failed and should be retried, e.g. a push made while offline
+import { randomUUID } from "crypto";
+
+export type OperationKind = "push" | "pull" | "sync";
+
+export interface QueuedOperation {
+  id: string;
+  kind: OperationKind;
+  createdAt: number;
+  attempts: number;
+  lastAttemptAt: number;
+  lastError: string;
+}
+
+export class OperationQueue {
+  constructor(private operations: QueuedOperation[], private save: (operations: QueuedOperation[]) => Promise<void>) {}
+
+  list(): QueuedOperation[] {
+    return [...this.operations];
+  }
+
+  get size(): number {
+    return this.operations.length;
+  }
+
+  // Record a failed operation; a repeat failure of the same kind bumps the existing entry
+  async fail(kind: OperationKind, error: string): Promise<QueuedOperation> {
+    const now = Date.now();
+    const existing = this.operations.find(op => op.kind === kind);
+    const op = existing
+      ? { ...existing, attempts: existing.attempts + 1, lastAttemptAt: now, lastError: error }
+      : { id: randomUUID(), kind, createdAt: now, attempts: 1, lastAttemptAt: now, lastError: error };
+    this.operations = existing ? this.operations.map(o => o.id === op.id ? op : o) : [...this.operations, op];
+    await this.save(this.list());
+    return op;
+  }
+
+  async remove(id: string): Promise<void> {
+    this.operations = this.operations.filter(op => op.id !== id);
+    await this.save(this.list());
+  }
+
+  // Retry operations oldest first; stops at the first failure since later ones would likely fail too
+  async drain(run: (op: QueuedOperation) => Promise<string | null>, ids?: string[]): Promise<boolean> {
+    for (const op of this.list()) {
+      if (ids && !ids.includes(op.id)) continue;
+      const error = await run(op);
+      if (error === null) {
+        await this.remove(op.id);
+      } else {
+        await this.fail(op.kind, error);
+        return false;
+      }
+    }
+    return true;
+  }
+}
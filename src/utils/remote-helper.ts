@@ -0,0 +1,188 @@
+// git remote helper (see gitremote-helpers(7)) for s3vault://bucket/path URLs.
+// Talks to the same remote layout through the same Remote class as the plugin.
+import { randomUUID } from "crypto";
+import { readFile } from "fs/promises";
+import { hostname } from "os";
+import { Git } from "./git";
+import { Remote } from "./remote";
+import { RemoteLock } from "./lock";
+import { S3FS } from "./s3-fs";
+import { S3Config, S3Provider, S3_PROVIDER_PRESETS, ServerSideEncryptionMode, SSE_MODE_LABELS } from "./s3";
+import { CredentialsMode, CREDENTIALS_MODE_LABELS, hasCredentials } from "./credentials";
+
+export interface RemoteUrl {
+  bucket: string;
+  remotePath: string;
+}
+
+// s3vault://bucket/path/to/vault -> bucket + remote path inside it
+export function parseRemoteUrl(url: string): RemoteUrl {
+  const match = url.match(/^s3vault:\/\/([^/]+)\/?(.*)$/);
+  if (!match) throw new Error(`Invalid remote URL ${url} (expected s3vault://bucket/path)`);
+  return { bucket: match[1]!, remotePath: match[2]!.replace(/\/+$/, "") };
+}
+
+// Build the S3 config from environment variables, falling back to `git config s3vault.*`
+export async function resolveHelperConfig(
+  url: RemoteUrl,
+  env: Record<string, string | undefined>,
+  getConfig: (key: string) => Promise<string | null>,
+): Promise<S3Config> {
+  const setting = async (envNames: string[], configKey: string): Promise<string | undefined> => {
+    for (const name of envNames) {
+      if (env[name]) return env[name];
+    }
+    return (await getConfig(`s3vault.${configKey}`)) ?? undefined;
+  };
+  const flag = (value: string | undefined, fallback: boolean) => value === undefined ? fallback : /^(true|1|yes|on)$/i.test(value);
+
+  const endpoint = await setting(["S3VAULT_ENDPOINT"], "endpoint");
+  const provider = (await setting(["S3VAULT_PROVIDER"], "provider") ?? (endpoint ? "custom" : "aws")) as S3Provider;
+  const preset = S3_PROVIDER_PRESETS[provider];
+  if (!preset) throw new Error(`Unknown provider ${provider}`);
+  const caFile = await setting(["S3VAULT_CA_BUNDLE"], "caBundle");
+  const accessKeyId = await setting(["AWS_ACCESS_KEY_ID"], "accessKeyId") ?? "";
+  const secretAccessKey = await setting(["AWS_SECRET_ACCESS_KEY"], "secretAccessKey") ?? "";
+  const sessionToken = await setting(["AWS_SESSION_TOKEN"], "sessionToken") ?? "";
+  const profile = await setting(["AWS_PROFILE"], "profile") ?? "";
+  const credentialProcess = await setting(["S3VAULT_CREDENTIAL_PROCESS"], "credentialProcess") ?? "";
+  const roleArn = await setting(["AWS_ROLE_ARN"], "roleArn") ?? "";
+  const webIdentityTokenFile = await setting(["AWS_WEB_IDENTITY_TOKEN_FILE"], "webIdentityTokenFile") ?? "";
+  // Without an explicit mode, pick the one the given settings point to
+  const credentialsMode = (await setting(["S3VAULT_CREDENTIALS"], "credentials") ?? (
+    roleArn && webIdentityTokenFile ? "web-identity"
+      : roleArn ? "assume-role"
+      : credentialProcess ? "process"
+      : accessKeyId && sessionToken ? "session"
+      : !accessKeyId && profile ? "profile"
+      : "static"
+  )) as CredentialsMode;
+  if (!CREDENTIALS_MODE_LABELS[credentialsMode]) throw new Error(`Unknown credentials mode ${credentialsMode} (expected ${Object.keys(CREDENTIALS_MODE_LABELS).join(", ")})`);
+  const sseMode = (await setting(["S3VAULT_SSE"], "sse") ?? "none") as ServerSideEncryptionMode;
+  if (!SSE_MODE_LABELS[sseMode]) throw new Error(`Unknown server-side encryption ${sseMode} (expected ${Object.keys(SSE_MODE_LABELS).join(", ")})`);
+
+  const config: S3Config = {
+    provider,
+    accessKeyId,
+    secretAccessKey,
+    credentials: {
+      mode: credentialsMode,
+      sessionToken,
+      profile,
+      credentialProcess,
+      roleArn,
+      externalId: await setting(["S3VAULT_EXTERNAL_ID"], "externalId") ?? "",
+      webIdentityTokenFile,
+    },
+    region: await setting(["AWS_REGION", "AWS_DEFAULT_REGION"], "region") ?? preset.region,
+    bucket: url.bucket,
+    endpoint: endpoint ?? preset.endpoint,
+    forcePathStyle: flag(await setting(["S3VAULT_FORCE_PATH_STYLE"], "forcePathStyle"), preset.forcePathStyle),
+    caBundle: caFile ? await readFile(caFile, "utf8") : "",
+    rejectUnauthorized: flag(await setting(["S3VAULT_VERIFY_TLS"], "verifyTls"), true),
+    serverSideEncryption: {
+      mode: sseMode,
+      kmsKeyId: await setting(["S3VAULT_SSE_KMS_KEY_ID"], "sseKmsKeyId") ?? "",
+      customerKey: await setting(["S3VAULT_SSE_CUSTOMER_KEY"], "sseCustomerKey") ?? "",
+    },
+  };
+  if (!hasCredentials(config)) {
+    throw new Error(`Missing credentials for the ${credentialsMode} mode: set AWS_ACCESS_KEY_ID/AWS_SECRET_ACCESS_KEY or git config s3vault.accessKeyId/secretAccessKey, or see the README for other modes`);
+  }
+  return config;
+}
+
+// Passphrase of an encrypted remote, from S3VAULT_PASSPHRASE or `git config s3vault.passphrase`
+export async function resolvePassphrase(
+  env: Record<string, string | undefined>,
+  getConfig: (key: string) => Promise<string | null>,
+): Promise<string> {
+  return env.S3VAULT_PASSPHRASE || (await getConfig("s3vault.passphrase")) || "";
+}
+
+export class RemoteHelper {
+  private remote: Remote;
+  private git: Git;
+
+  constructor(private fs: S3FS, private gitDir: string, private log: (message: string) => void = () => {}) {
+    this.remote = new Remote(fs);
+    this.git = new Git(gitDir);
+  }
+
+  // Process commands until git closes stdin or sends a blank line outside a batch
+  async run(lines: AsyncIterable<string>, write: (out: string) => void): Promise<void> {
+    let batch: string[] = [];
+    for await (const line of lines) {
+      // fetch and push arrive as batches terminated by a blank line
+      if (batch.length) {
+        if (line) {
+          batch.push(line);
+        } else {
+          write(await this.runBatch(batch));
+          batch = [];
+        }
+        continue;
+      }
+
+      const [command] = line.split(" ");
+      if (!line) return;
+      if (command === "capabilities") write("fetch\npush\noption\n\n");
+      else if (command === "list") write(await this.list());
+      else if (command === "option") write("unsupported\n");
+      else if (command === "fetch" || command === "push") batch.push(line);
+      else throw new Error(`Unsupported command: ${line}`);
+    }
+  }
+
+  // Remote refs in `<oid> <name>` form plus HEAD as a symref
+  async list(): Promise<string> {
+    const refs = await this.remote.listRefs();
+    const lines = Object.entries(refs).map(([branch, oid]) => `${oid} refs/heads/${branch}`);
+    const head = await this.remote.readHead();
+    if (head && refs[head]) lines.push(`@refs/heads/${head} HEAD`);
+    return lines.map(line => `${line}\n`).join("") + "\n";
+  }
+
+  private async runBatch(batch: string[]): Promise<string> {
+    if (batch[0]!.startsWith("fetch ")) {
+      // Objects are shared by all refs, so one transfer covers the whole batch
+      await this.remote.fetchRefs(this.gitDir, batch.map(line => line.split(" ")[1]!));
+      return "\n";
+    }
+    const results = [];
+    for (const line of batch) results.push(await this.push(line.slice("push ".length)));
+    return results.join("") + "\n";
+  }
+
+  // Push one `[+]<src>:<dst>` refspec; returns the status line for git
+  private async push(refspec: string): Promise<string> {
+    const force = refspec.startsWith("+");
+    const [src, dst] = (force ? refspec.slice(1) : refspec).split(":") as [string, string];
+    if (!dst.startsWith("refs/heads/")) return `error ${dst} only branches can be pushed\n`;
+    if (!src) return `error ${dst} deleting remote branches is not supported\n`;
+    const branch = dst.slice("refs/heads/".length);
+
+    const lock = new RemoteLock(this.fs, { deviceId: randomUUID(), deviceName: `${hostname()} (git)` });
+    try {
+      await lock.acquire();
+      const oid = await this.git.rev(src);
+      const expected = await this.remote.readRef(branch);
+      if (expected && expected.oid !== oid && !force) {
+        if ((await this.git.missingObjects([expected.oid])).length) return `error ${dst} fetch first\n`;
+        const isAncestor = await Git.exec(this.gitDir, ["merge-base", "--is-ancestor", expected.oid, oid]).then(() => true, () => false);
+        if (!isAncestor) return `error ${dst} non-fast-forward\n`;
+      }
+
+      await this.remote.pushLfsObjects(this.gitDir);
+      if (!(await this.remote.pushRef(this.gitDir, branch, oid, expected, lock))) {
+        return `error ${dst} fetch first\n`;
+      }
+      return `ok ${dst}\n`;
+    } catch (e) {
+      this.log(`${dst}: ${(e as Error).message}`);
+      return `error ${dst} ${(e as Error).message.split("\n")[0]}\n`;
+    } finally {
+      await lock.release().catch(() => {});
+    }
+  }
+}
@@ -0,0 +1,448 @@
+// Git repository stored on S3. Each push uploads one thin bundle and records it in a manifest;
+// branch refs are updated last with a compare-and-swap write, so a ref never points at missing objects.
+// Pushes are journaled locally (see journal.ts) so an interrupted one resumes where it stopped.
+import { createHash } from "crypto";
+import { createReadStream } from "fs";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import pLimit from "p-limit";
+import { Git } from "./git";
+import { S3FS } from "./s3-fs";
+import { isPreconditionFailed } from "./s3";
+import { RemoteLock } from "./lock";
+import { PushJournal } from "./journal";
+
+const TRANSFER_CONCURRENCY = 8;
+const OBJECTS_DIR = ".git/objects";
+const LFS_OBJECTS_DIR = ".git/lfs/objects";
+const BUNDLES_DIR = ".git/bundles";
+const MANIFEST_PATH = `${BUNDLES_DIR}/manifest.json`;
+const CONSOLIDATE_AFTER = 32;            // bundles in the manifest before they're merged into one
+const RETIRED_GRACE = 60 * 60 * 1000;    // keep replaced bundles for readers still using an old manifest
+
+const LOOSE_OBJECT = /^[0-9a-f]{2}\/[0-9a-f]{38,62}$/;
+const PACK_FILE = /^pack\/pack-[0-9a-f]+\.(pack|idx)$/;
+
+export interface RemoteRef {
+  oid: string;
+  etag: string | null;  // null when only found in a legacy packed-refs file
+}
+
+export type TransferProgress = (done: number, total: number) => void;
+
+export interface BundleEntry {
+  name: string;                    // <sha256>.bundle
+  tips: Record<string, string>;    // branch -> commit the bundle brings up to date
+  size: number;
+  createdAt: number;
+}
+
+// What `verify` found wrong with the remote's storage
+export interface RemoteVerification {
+  refs: Record<string, string>;
+  missingBundles: string[];        // listed in the manifest but gone from the bucket
+  brokenRefs: string[];            // branches whose commit nothing left on the remote provides
+}
+
+export interface BundleManifest {
+  version: 1;
+  bundles: BundleEntry[];          // oldest first; each bundle only needs objects from earlier ones
+  retired: { name: string; retiredAt: number }[];
+}
+
+async function hashFile(file: string): Promise<string> {
+  const hash = createHash("sha256");
+  for await (const chunk of createReadStream(file)) hash.update(chunk as Buffer);
+  return hash.digest("hex");
+}
+
+// Object files (loose objects and pack/idx pairs) relative to <gitDir>/objects
+async function listLocalObjects(gitDir: string): Promise<string[]> {
+  const objectsDir = path.join(gitDir, "objects");
+  const names: string[] = [];
+  const dirs = await fs.readdir(objectsDir).catch(() => [] as string[]);
+  for (const dir of dirs) {
+    if (!/^[0-9a-f]{2}$/.test(dir) && dir !== "pack") continue;
+    for (const file of await fs.readdir(path.join(objectsDir, dir))) {
+      const name = `${dir}/${file}`;
+      if (LOOSE_OBJECT.test(name) || PACK_FILE.test(name)) names.push(name);
+    }
+  }
+  return names;
+}
+
+// All files under a local directory, relative to it
+async function listFiles(dir: string): Promise<string[]> {
+  const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => []);
+  const files: string[] = [];
+  for (const entry of entries) {
+    if (entry.isDirectory()) {
+      files.push(...(await listFiles(path.join(dir, entry.name))).map(f => `${entry.name}/${f}`));
+    } else if (entry.isFile()) {
+      files.push(entry.name);
+    }
+  }
+  return files;
+}
+
+// Write via temp file + rename so an interrupted download never leaves a truncated object
+async function writeAtomic(dest: string, data: Buffer): Promise<void> {
+  await fs.mkdir(path.dirname(dest), { recursive: true });
+  const tmp = `${dest}.tmp-${process.pid}`;
+  await fs.writeFile(tmp, data);
+  await fs.rename(tmp, dest);
+}
+
+export class Remote {
+  constructor(private fs: S3FS) {}
+
+  // Branch that remote HEAD points at
+  async readHead(): Promise<string | null> {
+    const head = await this.fs.readFileWithEtag(".git/HEAD");
+    const match = head?.body.toString().trim().match(/^ref: refs\/heads\/(.+)$/);
+    return match?.[1] ?? null;
+  }
+
+  // All remote branches and their tips (loose refs win over legacy packed refs)
+  async listRefs(): Promise<Record<string, string>> {
+    const refs: Record<string, string> = {};
+    const packed = await this.fs.readFileWithEtag(".git/packed-refs");
+    for (const line of packed?.body.toString().split("\n") ?? []) {
+      const match = line.match(/^([0-9a-f]{40,64}) refs\/heads\/(.+)$/);
+      if (match) refs[match[2]!] = match[1]!;
+    }
+    for (const entry of await this.fs.walk(".git/refs/heads")) {
+      refs[entry.name] = (await this.fs.readFile(`.git/refs/heads/${entry.name}`)).toString().trim();
+    }
+    return refs;
+  }
+
+  // Point remote HEAD at a branch, e.g. after the one it named was deleted
+  async writeHead(branch: string): Promise<void> {
+    await this.fs.writeFile(".git/HEAD", `ref: refs/heads/${branch}\n`);
+  }
+
+  async readRef(branch: string): Promise<RemoteRef | null> {
+    const ref = await this.fs.readFileWithEtag(`.git/refs/heads/${branch}`);
+    if (ref) return { oid: ref.body.toString().trim(), etag: ref.etag };
+
+    // Remotes mirrored by older versions may only have packed refs
+    const packed = await this.fs.readFileWithEtag(".git/packed-refs");
+    const line = packed?.body.toString().split("\n").find(l => l.endsWith(` refs/heads/${branch}`));
+    const oid = line?.split(" ")[0];
+    return oid ? { oid, etag: null } : null;
+  }
+
+  // Compare-and-swap the branch ref; returns false if it moved since `expected` was read
+  async updateRef(branch: string, oid: string, expected: RemoteRef | null): Promise<boolean> {
+    try {
+      await this.fs.writeFileConditional(`.git/refs/heads/${branch}`, `${oid}\n`,
+        expected?.etag ? { ifMatch: expected.etag } : { ifNoneMatch: "*" });
+    } catch (e) {
+      if (isPreconditionFailed(e)) return false;
+      throw e;
+    }
+
+    // Backends without conditional writes ignore the precondition, so confirm by reading back
+    if ((await this.readRef(branch))?.oid !== oid) return false;
+
+    // First push to an empty remote also sets its HEAD
+    try {
+      await this.fs.writeFileConditional(".git/HEAD", `ref: refs/heads/${branch}\n`, { ifNoneMatch: "*" });
+    } catch (e) {
+      if (!isPreconditionFailed(e)) throw e;
+    }
+    return true;
+  }
+
+  async readManifest(): Promise<{ manifest: BundleManifest; etag: string | null }> {
+    const current = await this.fs.readFileWithEtag(MANIFEST_PATH);
+    if (!current) return { manifest: { version: 1, bundles: [], retired: [] }, etag: null };
+    return { manifest: JSON.parse(current.body.toString()) as BundleManifest, etag: current.etag };
+  }
+
+  // Push a branch: upload a bundle of what the remote lacks, then compare-and-swap the ref.
+  // False if the manifest or ref moved in the meantime
+  async pushRef(gitDir: string, branch: string, oid: string, expected: RemoteRef | null,
+    lock?: RemoteLock, onProgress?: TransferProgress): Promise<boolean> {
+    const journal = await PushJournal.open(gitDir);
+    const { manifest, etag } = await this.readManifest();
+
+    // An interrupted push of this commit left its bundle behind; one of an older commit can't be reused
+    const previous = journal.ref;
+    const previousKey = journal.bundle && `${BUNDLES_DIR}/${journal.bundle.name}`;
+    if (previous && (previous.branch !== branch || previous.oid !== oid || !(await journal.canResume(previousKey)))) {
+      await this.discardBundle(journal, manifest);
+    }
+    if (!journal.ref) {
+      const entry = await this.createBundle(gitDir, { [branch]: oid }, await this.remoteTips(gitDir, manifest), journal.dir);
+      await journal.planRef(branch, oid, entry, entry && `${BUNDLES_DIR}/${entry.name}`);
+    }
+
+    const entry = journal.bundle;
+    if (entry && !manifest.bundles.some(b => b.name === entry.name)) {
+      onProgress?.(0, 100);
+      await this.uploadJournaled(journal, `${BUNDLES_DIR}/${entry.name}`, journal.bundlePath(entry.name), pct => onProgress?.(pct, 100));
+      onProgress?.(100, 100);
+      lock?.assertHeld();
+      if (!(await this.writeManifest({ ...manifest, bundles: [...manifest.bundles, entry] }, etag))) return false;
+    }
+
+    lock?.assertHeld();
+    if (!(await this.updateRef(branch, oid, expected))) return false;
+    await this.finishJournal(journal);
+
+    // Many small bundles make fresh clones slow; merge them while we hold the lock
+    if (lock && manifest.bundles.length + 1 >= CONSOLIDATE_AFTER) {
+      await this.consolidate(gitDir, lock).catch(e => console.error("[remote-vault-sync] Bundle consolidation failed:", e));
+    }
+    return true;
+  }
+
+  // Fetch the objects behind the given ref tips and make sure they're complete locally.
+  // `refetch` downloads every bundle again, to restore objects lost from the local repository
+  async fetchRefs(gitDir: string, oids: string[], onProgress?: TransferProgress, refetch = false): Promise<void> {
+    const { manifest } = await this.readManifest();
+    if (manifest.bundles.length) {
+      await this.fetchBundles(gitDir, manifest, onProgress, refetch);
+    } else {
+      await this.fetchObjects(gitDir, onProgress);
+    }
+
+    const missing = await new Git(gitDir).missingObjects(oids);
+    if (missing.length) {
+      throw new Error(`Remote is missing objects for ${missing.map(oid => oid.slice(0, 7)).join(", ")}`);
+    }
+  }
+
+  // Replace all bundles with a single one containing every remote branch. Requires the lock
+  async consolidate(gitDir: string, lock: RemoteLock): Promise<void> {
+    const { manifest } = await this.readManifest();
+    if (manifest.bundles.length < 2) return;
+    await this.rebuild(gitDir, lock);
+  }
+
+  // Upload one bundle with every remote branch from the local repository and make it the only one
+  // in the manifest, replacing bundles or legacy objects that went missing. Requires the lock
+  async rebuild(gitDir: string, lock: RemoteLock): Promise<void> {
+    const { manifest, etag } = await this.readManifest();
+    const refs = await this.listRefs();
+    if ((await new Git(gitDir).missingObjects(Object.values(refs))).length) {
+      throw new Error("Local repository doesn't have every remote branch, fetch it first");
+    }
+
+    const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "remote-vault-sync-bundle-"));
+    let entry: BundleEntry | null;
+    try {
+      entry = await this.createBundle(gitDir, refs, [], tmpDir);
+      if (entry) await this.fs.writeFile(`${BUNDLES_DIR}/${entry.name}`, createReadStream(path.join(tmpDir, entry.name)), undefined, entry.size);
+    } finally {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    }
+    if (!entry) return;
+    const now = Date.now();
+    const retired = [
+      ...manifest.retired.filter(r => now - r.retiredAt < RETIRED_GRACE),
+      ...manifest.bundles.map(b => ({ name: b.name, retiredAt: now })),
+    ];
+    lock.assertHeld();
+    if (!(await this.writeManifest({ version: 1, bundles: [entry], retired }, etag))) return;
+
+    // Bundles retired by an earlier consolidation are past their grace period now
+    const expired = manifest.retired.filter(r => now - r.retiredAt >= RETIRED_GRACE);
+    await Promise.all(expired.map(r => this.fs.unlink(`${BUNDLES_DIR}/${r.name}`)));
+  }
+
+  // Check that the remote still has the objects its refs need. Bundles depend on the ones before them,
+  // so a missing bundle breaks every branch that isn't complete without it. A branch that isn't a
+  // bundle tip counts as provided when the local repository shows it's in an intact bundle's history
+  async verify(gitDir: string): Promise<RemoteVerification> {
+    const refs = await this.listRefs();
+    const { manifest } = await this.readManifest();
+    const git = new Git(gitDir);
+
+    if (!manifest.bundles.length) {
+      // Legacy remotes: packs can't be looked into without downloading them, so only loose objects are checked
+      const objects = (await this.fs.walk(OBJECTS_DIR)).map(e => e.name);
+      const loose = new Set(objects.filter(name => LOOSE_OBJECT.test(name)).map(name => name.replace("/", "")));
+      const hasPacks = objects.some(name => name.endsWith(".pack"));
+      const brokenRefs = Object.keys(refs).filter(branch => !hasPacks && !loose.has(refs[branch]!));
+      return { refs, missingBundles: [], brokenRefs };
+    }
+
+    const present = new Set((await this.fs.walk(BUNDLES_DIR)).map(e => e.name));
+    const missingBundles = manifest.bundles.map(b => b.name).filter(name => !present.has(name));
+    const firstMissing = manifest.bundles.findIndex(b => !present.has(b.name));
+    const intact = firstMissing < 0 ? manifest.bundles : manifest.bundles.slice(0, firstMissing);
+    const tips = [...new Set(intact.flatMap(b => Object.values(b.tips)))];
+    const localMissing = new Set(await git.missingObjects([...tips, ...Object.values(refs)]));
+    const localTips = tips.filter(oid => !localMissing.has(oid));
+
+    const brokenRefs: string[] = [];
+    for (const [branch, oid] of Object.entries(refs)) {
+      let provided = tips.includes(oid);
+      for (const tip of localTips) {
+        if (provided || localMissing.has(oid)) break;
+        provided = await git.isAncestor(oid, tip);
+      }
+      if (!provided) brokenRefs.push(branch);
+    }
+    return { refs, missingBundles, brokenRefs };
+  }
+
+  // Commits the remote already has and we have locally; bundles leave their history out
+  private async remoteTips(gitDir: string, manifest: BundleManifest): Promise<string[]> {
+    const tips = [...new Set(manifest.bundles.flatMap(b => Object.values(b.tips)))];
+    const missing = new Set(await new Git(gitDir).missingObjects(tips));
+    return tips.filter(oid => !missing.has(oid));
+  }
+
+  // Bundle `tips` minus history reachable from `exclude` into `dir`/<name>; null if there's nothing new
+  private async createBundle(gitDir: string, tips: Record<string, string>, exclude: string[], dir: string): Promise<BundleEntry | null> {
+    const git = new Git(gitDir);
+    if (!(await git.countCommits(Object.values(tips), exclude))) return null;
+
+    // Bundles record refs rather than bare commits, so point temporary refs at the tips
+    const refs = Object.entries(tips).map(([branch, oid]) => ({ ref: `refs/bundle/heads/${branch}`, oid }));
+    try {
+      for (const { ref, oid } of refs) await git.updateRef(ref, oid);
+      await fs.mkdir(dir, { recursive: true });
+      const file = path.join(dir, "new.bundle");
+      await git.createBundle(file, refs.map(r => r.ref), exclude);
+
+      const { size } = await fs.stat(file);
+      const name = `${await hashFile(file)}.bundle`;
+      await fs.rename(file, path.join(dir, name));
+      return { name, tips, size, createdAt: Date.now() };
+    } finally {
+      for (const { ref } of refs) await git.deleteRef(ref).catch(() => {});
+    }
+  }
+
+  // Upload a local file unless the journal says it's done; a large file continues its multipart upload
+  private async uploadJournaled(journal: PushJournal, key: string, file: string, onProgress?: (percent: number) => void): Promise<void> {
+    if (journal.isCompleted(key)) return;
+    const { size } = await fs.stat(file);
+    await this.fs.writeFile(key, createReadStream(file), onProgress, size, {
+      uploadId: journal.uploadId(key),
+      onStart: uploadId => journal.startUpload(key, uploadId),
+    });
+    await journal.complete(key);
+  }
+
+  // Drop the bundle of an interrupted push that's been superseded, along with what it uploaded
+  private async discardBundle(journal: PushJournal, manifest: BundleManifest): Promise<void> {
+    const bundle = journal.bundle;
+    const key = bundle && `${BUNDLES_DIR}/${bundle.name}`;
+    if (bundle && key && !manifest.bundles.some(b => b.name === bundle.name)) {
+      const uploadId = journal.uploadId(key);
+      if (uploadId) await this.fs.abortUpload(key, uploadId).catch(() => {});
+      if (journal.isCompleted(key)) await this.fs.unlink(key);
+    }
+    await journal.dropRef(key);
+  }
+
+  // Push done: abort multipart uploads nothing will resume (e.g. of pruned LFS objects) and remove the journal
+  private async finishJournal(journal: PushJournal): Promise<void> {
+    for (const [key, uploadId] of Object.entries(journal.uploads)) {
+      await this.fs.abortUpload(key, uploadId).catch(() => {});
+    }
+    await journal.clear();
+  }
+
+  private async writeManifest(manifest: BundleManifest, etag: string | null): Promise<boolean> {
+    try {
+      await this.fs.writeFileConditional(MANIFEST_PATH, JSON.stringify(manifest, null, 2),
+        etag ? { ifMatch: etag } : { ifNoneMatch: "*" });
+    } catch (e) {
+      if (isPreconditionFailed(e)) return false;
+      throw e;
+    }
+    return true;
+  }
+
+  // Download and apply, oldest first, the bundles whose tips we don't have yet (all of them when refetching)
+  private async fetchBundles(gitDir: string, manifest: BundleManifest, onProgress?: TransferProgress, refetch = false): Promise<void> {
+    const git = new Git(gitDir);
+    const missing = new Set(await git.missingObjects(manifest.bundles.flatMap(b => Object.values(b.tips))));
+    const needed = refetch ? manifest.bundles : manifest.bundles.filter(b => Object.values(b.tips).some(oid => missing.has(oid)));
+    if (!needed.length) return;
+
+    const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "remote-vault-sync-bundle-"));
+    try {
+      await this.transfer([needed.map(b => b.name)], async name => {
+        await fs.writeFile(path.join(tmpDir, name), await this.fs.readFile(`${BUNDLES_DIR}/${name}`));
+      }, onProgress);
+      // Later bundles depend on objects from earlier ones
+      for (const bundle of needed) await git.unbundle(path.join(tmpDir, bundle.name));
+    } finally {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    }
+  }
+
+  // Remotes written before bundles store loose objects and packs under .git/objects
+  private async fetchObjects(gitDir: string, onProgress?: TransferProgress): Promise<void> {
+    const remote = (await this.fs.walk(OBJECTS_DIR)).map(e => e.name);
+    const remoteSet = new Set(remote);
+    const local = new Set(await listLocalObjects(gitDir));
+
+    // Loose objects may exist locally inside a pack, so check the object database itself
+    const loose = remote.filter(name => LOOSE_OBJECT.test(name));
+    const missing = new Set(await new Git(gitDir).missingObjects(loose.map(name => name.replace("/", ""))));
+    const packs = remote.filter(name => name.endsWith(".pack") && PACK_FILE.test(name) &&
+      !local.has(name) && remoteSet.has(name.replace(/\.pack$/, ".idx")));
+
+    await this.transfer([
+      [...loose.filter(name => missing.has(name.replace("/", ""))), ...packs],
+      packs.map(name => name.replace(/\.pack$/, ".idx")),
+    ], async name => {
+      await writeAtomic(path.join(gitDir, "objects", name), await this.fs.readFile(`${OBJECTS_DIR}/${name}`));
+    }, onProgress);
+  }
+
+  // Upload LFS objects (content-addressed, immutable) the remote doesn't have yet
+  async pushLfsObjects(gitDir: string, onProgress?: TransferProgress): Promise<void> {
+    const localDir = path.join(gitDir, "lfs", "objects");
+    const remote = new Set((await this.fs.walk(LFS_OBJECTS_DIR)).map(e => e.name));
+    const missing = (await listFiles(localDir)).filter(name => !remote.has(name) && !name.includes("incomplete"));
+
+    const journal = await PushJournal.open(gitDir);
+    await journal.plan(missing.map(name => `${LFS_OBJECTS_DIR}/${name}`));
+    await this.transfer([missing], async name => {
+      await this.uploadJournaled(journal, `${LFS_OBJECTS_DIR}/${name}`, path.join(localDir, name));
+    }, onProgress);
+  }
+
+  // The given LFS objects (by OID) the remote doesn't have
+  async missingLfsObjects(oids: string[]): Promise<string[]> {
+    const remote = new Set((await this.fs.walk(LFS_OBJECTS_DIR)).map(e => e.name));
+    return oids.filter(oid => !remote.has(`${oid.slice(0, 2)}/${oid.slice(2, 4)}/${oid}`));
+  }
+
+  // Download the given LFS objects (by OID) unless already present locally
+  async fetchLfsObjects(gitDir: string, oids: string[]): Promise<void> {
+    await this.transfer([oids], async oid => {
+      // OID path: lfs/objects/AB/CD/ABCD...
+      const name = `${oid.slice(0, 2)}/${oid.slice(2, 4)}/${oid}`;
+      const localPath = path.join(gitDir, "lfs", "objects", name);
+      const exists = await fs.access(localPath).then(() => true).catch(() => false);
+      if (exists || !(await this.fs.exists(`${LFS_OBJECTS_DIR}/${name}`))) return;
+      await writeAtomic(localPath, await this.fs.readFile(`${LFS_OBJECTS_DIR}/${name}`));
+    });
+  }
+
+  // Run transfers with bounded concurrency; phases run in order, progress spans all of them
+  private async transfer(phases: string[][], run: (name: string) => Promise<void>, onProgress?: TransferProgress): Promise<void> {
+    const limit = pLimit(TRANSFER_CONCURRENCY);
+    const total = phases.reduce((n, p) => n + p.length, 0);
+    let done = 0;
+    onProgress?.(0, total);
+    for (const phase of phases) {
+      await limit.map(phase, async name => {
+        await run(name);
+        onProgress?.(++done, total);
+      });
+    }
+  }
+}
@@ -1,5 +1,6 @@
 // S3-backed filesystem adapter
-import { S3 } from "./s3";
+import { Readable } from "stream";
+import { S3, WriteCondition, MultipartResume } from "./s3";
 
 export interface DirEntry {
   name: string;
@@ -19,8 +20,9 @@ export class S3FS {
   private prefix: string;
 
   constructor(private s3: S3, prefix = "") {
-    // Normalize: ensure trailing slash if non-empty
-    this.prefix = prefix && !prefix.endsWith("/") ? `${prefix}/` : prefix;
+    // Normalize: no leading slash, trailing slash if non-empty
+    const trimmed = prefix.replace(/^\/+/, "");
+    this.prefix = trimmed && !trimmed.endsWith("/") ? `${trimmed}/` : trimmed;
   }
 
   private key(path: string): string {
@@ -33,18 +35,42 @@ export class S3FS {
     return k ? (k.endsWith("/") ? k : `${k}/`) : "";
   }
 
+  // s3:// URI for a path, as used by the sync client
+  url(path: string): string {
+    return `s3://${this.s3.bucket}/${this.key(path)}`;
+  }
+
   async readFile(path: string): Promise<Buffer> {
     return this.s3.get(this.key(path));
   }
 
-  async writeFile(path: string, data: Buffer | string, onProgress?: (percent: number) => void, size?: number): Promise<void> {
-    await this.s3.put(this.key(path), data, onProgress, size);
+  async writeFile(path: string, data: Buffer | string | Readable, onProgress?: (percent: number) => void, size?: number,
+    resume?: MultipartResume): Promise<void> {
+    await this.s3.put(this.key(path), data, onProgress, size, resume);
+  }
+
+  async abortUpload(path: string, uploadId: string): Promise<void> {
+    await this.s3.abortUpload(this.key(path), uploadId);
+  }
+
+  async readFileWithEtag(path: string): Promise<{ body: Buffer; etag: string } | null> {
+    return this.s3.getWithEtag(this.key(path));
+  }
+
+  // Compare-and-swap write; returns the new ETag
+  async writeFileConditional(path: string, data: Buffer | string, condition: WriteCondition): Promise<string> {
+    return this.s3.putConditional(this.key(path), data, condition);
   }
 
   async unlink(path: string): Promise<void> {
     await this.s3.delete(this.key(path));
   }
 
+  // Compare-and-delete: only removes the file if its ETag still matches
+  async unlinkConditional(path: string, ifMatch: string): Promise<void> {
+    await this.s3.deleteConditional(this.key(path), ifMatch);
+  }
+
   async readdir(dirPath: string): Promise<DirEntry[]> {
     const prefix = dirPath === "" || dirPath === "." ? this.prefix : this.dirKey(dirPath);
     const { objects, prefixes } = await this.s3.list(prefix, "/");
@@ -66,6 +92,16 @@ export class S3FS {
     return [...files, ...dirs];
   }
 
+  // Recursively list all files under a directory; names are relative to it
+  async walk(dirPath: string): Promise<DirEntry[]> {
+    const prefix = this.dirKey(dirPath);
+    const { objects } = await this.s3.list(prefix);
+    return objects.flatMap(obj => {
+      if (!obj.Key || obj.Key.endsWith("/")) return [];
+      return [{ name: obj.Key.slice(prefix.length), size: obj.Size ?? 0, mtime: obj.LastModified ?? new Date(), isDirectory: false }];
+    });
+  }
+
   async mkdir(path: string): Promise<void> {
     await this.s3.put(this.dirKey(path), Buffer.alloc(0));
   }
@@ -117,4 +153,22 @@ export class S3FS {
   async copyFile(src: string, dest: string): Promise<void> {
     await this.s3.copy(this.key(src), this.key(dest));
   }
+
+  // Find directories containing a .git repository, breadth-first up to maxDepth levels deep
+  async findRepos(maxDepth = 3): Promise<string[]> {
+    const repos: string[] = [];
+    let level = [""];
+    for (let depth = 0; depth <= maxDepth && level.length; depth++) {
+      const next: string[] = [];
+      for (const dir of level) {
+        for (const e of await this.readdir(dir)) {
+          if (!e.isDirectory) continue;
+          if (e.name === ".git") repos.push(dir);
+          else next.push(dir ? `${dir}/${e.name}` : e.name);
+        }
+      }
+      level = next;
+    }
+    return repos;
+  }
 }
@@ -3,82 +3,372 @@ import {
   S3Client,
   GetObjectCommand,
   PutObjectCommand,
+  DeleteObjectCommand,
   DeleteObjectsCommand,
   ListObjectsV2Command,
   HeadObjectCommand,
+  HeadBucketCommand,
+  GetBucketVersioningCommand,
   CopyObjectCommand,
   CreateMultipartUploadCommand,
+  UploadPartCommand,
   UploadPartCopyCommand,
+  ListPartsCommand,
+  ListPartsCommandInput,
   CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
+  PutObjectCommandInput,
+  GetObjectCommandInput,
+  CopyObjectCommandInput,
   _Object as S3Object,
   CommonPrefix,
 } from "@aws-sdk/client-s3";
 import { Upload } from "@aws-sdk/lib-storage";
-import { S3SyncClient } from "s3-sync-client";
+import { NodeHttpHandler } from "@smithy/node-http-handler";
+import { Agent } from "https";
 import { Readable } from "stream";
+import type { AwsCredentialIdentityProvider } from "@smithy/types";
 import { paginate, batch } from "./paginate";
+import { VaultCipher, isEncryptionHeader } from "./encryption";
+import { CredentialsConfig, createCredentialsProvider } from "./credentials";
 
 const UPLOAD_CHUNK_SIZE = 32 * 1024 * 1024;  // 32 MB
 const UPLOAD_CONCURRENCY = 4;
 
+export type S3Provider = "aws" | "minio" | "r2" | "b2" | "wasabi" | "garage" | "custom";
+
+export type ServerSideEncryptionMode = "none" | "sse-s3" | "sse-kms" | "sse-c";
+
+// Encryption at rest requested from the server on every write
+export interface ServerSideEncryptionConfig {
+  mode: ServerSideEncryptionMode;
+  kmsKeyId: string;     // SSE-KMS key ID, ARN or alias; empty = the account's aws/s3 key
+  customerKey: string;  // SSE-C base64-encoded 256-bit key, also needed to read objects back
+}
+
+export const SSE_MODE_LABELS: Record<ServerSideEncryptionMode, string> = {
+  none: "None",
+  "sse-s3": "SSE-S3 (S3 managed keys)",
+  "sse-kms": "SSE-KMS (AWS KMS key)",
+  "sse-c": "SSE-C (customer-provided key)",
+};
+
 export interface S3Config {
+  provider: S3Provider;
   accessKeyId: string;
   secretAccessKey: string;
+  credentials: CredentialsConfig;  // how credentials are obtained; the key pair above is for static/session
   region: string;
   bucket: string;
+  endpoint: string;             // empty = AWS default endpoint
+  forcePathStyle: boolean;      // bucket in path instead of subdomain
+  caBundle: string;             // PEM certificate(s) for self-signed endpoints
+  rejectUnauthorized: boolean;  // false skips TLS certificate verification
+  serverSideEncryption: ServerSideEncryptionConfig;
+}
+
+export interface S3ProviderPreset {
+  label: string;
+  endpoint: string;
+  region: string;
+  forcePathStyle: boolean;
+}
+
+// Defaults filled in when a provider is picked; <placeholders> must be edited by the user
+export const S3_PROVIDER_PRESETS: Record<S3Provider, S3ProviderPreset> = {
+  aws: { label: "Amazon S3", endpoint: "", region: "us-east-1", forcePathStyle: false },
+  minio: { label: "MinIO", endpoint: "http://localhost:9000", region: "us-east-1", forcePathStyle: true },
+  r2: { label: "Cloudflare R2", endpoint: "https://<account-id>.r2.cloudflarestorage.com", region: "auto", forcePathStyle: true },
+  b2: { label: "Backblaze B2", endpoint: "https://s3.us-west-004.backblazeb2.com", region: "us-west-004", forcePathStyle: false },
+  wasabi: { label: "Wasabi", endpoint: "https://s3.us-east-1.wasabisys.com", region: "us-east-1", forcePathStyle: false },
+  garage: { label: "Garage", endpoint: "http://localhost:3900", region: "garage", forcePathStyle: true },
+  custom: { label: "Other S3-compatible", endpoint: "", region: "us-east-1", forcePathStyle: true },
+};
+
+// Custom HTTPS agent only when the endpoint needs a private CA or skips verification
+function createRequestHandler(config: S3Config): NodeHttpHandler | undefined {
+  const caBundle = config.caBundle?.trim();
+  if (!caBundle && config.rejectUnauthorized !== false) return undefined;
+  return new NodeHttpHandler({
+    httpsAgent: new Agent({
+      ca: caBundle || undefined,
+      rejectUnauthorized: config.rejectUnauthorized !== false,
+    }),
+  });
+}
+
+// Request parameters for the configured server-side encryption, by the role an object plays in a request
+interface SseParams {
+  write: Pick<PutObjectCommandInput, "ServerSideEncryption" | "SSEKMSKeyId" | "SSECustomerAlgorithm" | "SSECustomerKey">;
+  read: Pick<GetObjectCommandInput, "SSECustomerAlgorithm" | "SSECustomerKey">;  // also parts of an upload
+  copySource: Pick<CopyObjectCommandInput, "CopySourceSSECustomerAlgorithm" | "CopySourceSSECustomerKey">;
+}
+
+function sseParams(config: ServerSideEncryptionConfig | undefined): SseParams {
+  switch (config?.mode) {
+    case "sse-s3":
+      return { write: { ServerSideEncryption: "AES256" }, read: {}, copySource: {} };
+    case "sse-kms":
+      return { write: { ServerSideEncryption: "aws:kms", SSEKMSKeyId: config.kmsKeyId.trim() || undefined }, read: {}, copySource: {} };
+    case "sse-c": {
+      const key = config.customerKey.trim();
+      if (!/^[A-Za-z0-9+/]+={0,2}$/.test(key) || Buffer.from(key, "base64").length !== 32) {
+        throw new Error("The SSE-C key must be a base64-encoded 256-bit key");
+      }
+      const customer = { SSECustomerAlgorithm: "AES256", SSECustomerKey: key };
+      return { write: customer, read: customer, copySource: { CopySourceSSECustomerAlgorithm: "AES256", CopySourceSSECustomerKey: key } };
+    }
+    default:
+      return { write: {}, read: {}, copySource: {} };
+  }
+}
+
+// Lets a multipart upload survive an interrupted process: the caller persists the UploadId
+// and passes it back, and only the parts the server doesn't have yet are uploaded.
+// Only for content-addressed keys: with encryption on, a resumed upload must produce the same ciphertext
+export interface MultipartResume {
+  uploadId?: string;                                    // from onStart of an earlier, interrupted put
+  onStart?: (uploadId: string) => void | Promise<void>; // new upload created, before any part is sent
+}
+
+// Split a body into parts of `size` bytes (the last one may be shorter)
+async function* chunks(body: Buffer | Readable, size: number): AsyncGenerator<Buffer> {
+  if (Buffer.isBuffer(body)) {
+    for (let i = 0; i < body.length; i += size) yield body.subarray(i, i + size);
+    return;
+  }
+  let pending: Buffer[] = [];
+  let length = 0;
+  for await (const chunk of body) {
+    pending.push(chunk as Buffer);
+    length += (chunk as Buffer).length;
+    while (length >= size) {
+      const joined = Buffer.concat(pending);
+      yield joined.subarray(0, size);
+      pending = [joined.subarray(size)];
+      length -= size;
+    }
+  }
+  if (length) yield Buffer.concat(pending);
+}
+
+// Conditions for compare-and-swap writes (S3 conditional writes)
+export interface WriteCondition {
+  ifMatch?: string;      // only overwrite if the current ETag matches
+  ifNoneMatch?: "*";     // only create if the key doesn't exist
+}
+
+function httpStatus(e: unknown): number | undefined {
+  return (e as { $metadata?: { httpStatusCode?: number } })?.$metadata?.httpStatusCode;
+}
+
+// True when a conditional write lost the race (412, or the 409 ConditionalRequestConflict for a
+// concurrent conditional write; other 409s such as OperationAborted are real errors)
+export function isPreconditionFailed(e: unknown): boolean {
+  const name = (e as { name?: string })?.name;
+  return name === "PreconditionFailed" || name === "ConditionalRequestConflict" || httpStatus(e) === 412;
+}
+
+export function isNotFound(e: unknown): boolean {
+  const name = (e as { name?: string })?.name;
+  return name === "NoSuchKey" || name === "NotFound" || httpStatus(e) === 404;
 }
 
 export class S3 {
   private client: S3Client;
   private _bucket: string;
-  public syncClient: S3SyncClient;
+  private sseConfig: ServerSideEncryptionConfig;
+  private _sse: SseParams | null = null;
+  // Set once the remote's passphrase is verified; everything but the encryption header is then encrypted
+  public cipher: VaultCipher | null = null;
 
-  constructor(config: S3Config) {
+  // Credentials come from the mode selected in `config`, unless a provider is passed in
+  constructor(config: S3Config, credentials: AwsCredentialIdentityProvider = createCredentialsProvider(config)) {
     this._bucket = config.bucket;
+    this.sseConfig = config.serverSideEncryption;
     this.client = new S3Client({
       region: config.region,
-      credentials: { accessKeyId: config.accessKeyId, secretAccessKey: config.secretAccessKey },
+      credentials,
+      endpoint: config.endpoint?.trim() || undefined,
+      forcePathStyle: config.forcePathStyle,
+      requestHandler: createRequestHandler(config),
     });
-    this.syncClient = new S3SyncClient({ client: this.client });
   }
 
   get bucket(): string {
     return this._bucket;
   }
 
+  // Built on first use, so a malformed SSE-C key fails requests instead of plugin startup
+  private get sse(): SseParams {
+    return this._sse ??= sseParams(this.sseConfig);
+  }
+
+  private cipherFor(key: string): VaultCipher | null {
+    return this.cipher && !isEncryptionHeader(key) ? this.cipher : null;
+  }
+
   async get(key: string): Promise<Buffer> {
-    const res = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+    const res = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key, ...this.sse.read }));
     if (!res.Body) throw new Error(`Empty response for ${key}`);
-    const bytes = await res.Body.transformToByteArray();
-    return Buffer.from(bytes);
+    const bytes = Buffer.from(await res.Body.transformToByteArray());
+    return this.cipherFor(key)?.decrypt(bytes, key) ?? bytes;
+  }
+
+  // Read an object with its ETag; null if it doesn't exist
+  async getWithEtag(key: string): Promise<{ body: Buffer; etag: string } | null> {
+    try {
+      const res = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key, ...this.sse.read }));
+      if (!res.Body) throw new Error(`Empty response for ${key}`);
+      const bytes = Buffer.from(await res.Body.transformToByteArray());
+      return { body: this.cipherFor(key)?.decrypt(bytes, key) ?? bytes, etag: res.ETag ?? "" };
+    } catch (e) {
+      if (isNotFound(e)) return null;
+      throw e;
+    }
   }
 
   async getStream(key: string): Promise<Readable> {
-    const res = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+    // Authentication needs the whole object before any plaintext is handed out
+    if (this.cipherFor(key)) return Readable.from([await this.get(key)]);
+    const res = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key, ...this.sse.read }));
     if (!res.Body) throw new Error(`Empty response for ${key}`);
     return res.Body as Readable;
   }
 
-  async put(key: string, body: Buffer | string | Readable, onProgress?: (percent: number) => void, size?: number): Promise<void> {
-    const data = typeof body === "string" ? Buffer.from(body) : body;
-    if (data instanceof Readable || onProgress) {
+  async put(key: string, body: Buffer | string | Readable, onProgress?: (percent: number) => void, size?: number,
+    resume?: MultipartResume): Promise<void> {
+    let data = typeof body === "string" ? Buffer.from(body) : body;
+    let length = size ?? (Buffer.isBuffer(data) ? data.length : undefined);
+    const cipher = this.cipherFor(key);
+    if (cipher) {
+      const deterministic = resume !== undefined;
+      data = Buffer.isBuffer(data) ? cipher.encrypt(data, key, deterministic) : cipher.encryptStream(data, key, deterministic);
+      length = length === undefined ? undefined : cipher.encryptedSize(length);
+    }
+    if (resume && length && length > UPLOAD_CHUNK_SIZE) {
+      await this.resumableUpload(key, data, length, resume, onProgress);
+    } else if (data instanceof Readable || onProgress) {
       const upload = new Upload({
         client: this.client,
-        params: { Bucket: this.bucket, Key: key, Body: data, ContentLength: size },
+        params: { Bucket: this.bucket, Key: key, Body: data, ContentLength: length, ...this.sse.write },
         partSize: UPLOAD_CHUNK_SIZE,
         queueSize: UPLOAD_CONCURRENCY,
       });
-      if (onProgress && size) {
+      if (onProgress && length) {
         upload.on("httpUploadProgress", (p) => {
-          if (p.loaded) onProgress(Math.round(p.loaded / size * 100));
+          if (p.loaded) onProgress(Math.round(p.loaded / length * 100));
         });
       }
       await upload.done();
     } else {
-      await this.client.send(new PutObjectCommand({ Bucket: this.bucket, Key: key, Body: data }));
+      await this.client.send(new PutObjectCommand({ Bucket: this.bucket, Key: key, Body: data, ...this.sse.write }));
     }
   }
 
+  async abortUpload(key: string, uploadId: string): Promise<void> {
+    await this.client.send(new AbortMultipartUploadCommand({ Bucket: this.bucket, Key: key, UploadId: uploadId }));
+  }
+
+  // Multipart upload that continues `resume.uploadId` when the server still has it. Nothing is aborted
+  // on failure, so the parts sent so far can be reused by the next attempt
+  private async resumableUpload(key: string, body: Buffer | Readable, size: number, resume: MultipartResume,
+    onProgress?: (percent: number) => void): Promise<void> {
+    let uploadId = resume.uploadId;
+    let uploaded = new Map<number, { etag: string; size: number }>();
+    if (uploadId) {
+      try {
+        uploaded = await this.listParts(key, uploadId);
+      } catch (e) {
+        // Completed, aborted or expired by a lifecycle rule: start over
+        if (!isNotFound(e)) throw e;
+        uploadId = undefined;
+      }
+    }
+    if (!uploadId) {
+      const res = await this.client.send(new CreateMultipartUploadCommand({ Bucket: this.bucket, Key: key, ...this.sse.write }));
+      if (!res.UploadId) throw new Error(`No UploadId returned for ${key}`);
+      uploadId = res.UploadId;
+      await resume.onStart?.(uploadId);
+    }
+
+    const parts: { ETag: string; PartNumber: number }[] = [];
+    let loaded = 0;
+    const uploadPart = async (partNumber: number, part: Buffer) => {
+      const existing = uploaded.get(partNumber);
+      let etag = existing?.size === part.length ? existing.etag : undefined;
+      if (!etag) {
+        const res = await this.client.send(new UploadPartCommand({
+          Bucket: this.bucket, Key: key, UploadId: uploadId, PartNumber: partNumber, Body: part, ...this.sse.read,
+        }));
+        etag = res.ETag ?? "";
+      }
+      parts.push({ ETag: etag, PartNumber: partNumber });
+      loaded += part.length;
+      onProgress?.(Math.round(loaded / size * 100));
+    };
+
+    // Up to UPLOAD_CONCURRENCY parts in flight, which also bounds how much of a stream is buffered.
+    // A part failing while the next one is read is caught at once; the first failure is rethrown once the others settle
+    let partNumber = 0;
+    let inFlight: Promise<void>[] = [];
+    const failures: unknown[] = [];
+    try {
+      for await (const part of chunks(body, UPLOAD_CHUNK_SIZE)) {
+        if (failures.length) break;
+        inFlight.push(uploadPart(++partNumber, part).catch((e: unknown) => { failures.push(e); }));
+        if (inFlight.length >= UPLOAD_CONCURRENCY) {
+          await Promise.all(inFlight);
+          inFlight = [];
+        }
+      }
+    } finally {
+      // Let parts already sent finish so a resumed upload can skip them
+      await Promise.all(inFlight);
+    }
+    if (failures.length) throw failures[0];
+
+    await this.client.send(new CompleteMultipartUploadCommand({
+      Bucket: this.bucket,
+      Key: key,
+      UploadId: uploadId,
+      MultipartUpload: { Parts: parts.sort((a, b) => a.PartNumber - b.PartNumber) },
+      ...this.sse.read,
+    }));
+  }
+
+  // Parts the server already has for an upload, by part number
+  private async listParts(key: string, uploadId: string): Promise<Map<number, { etag: string; size: number }>> {
+    const request: ListPartsCommandInput = { Bucket: this.bucket, Key: key, UploadId: uploadId, ...this.sse.read };
+    const parts = await paginate(
+      request,
+      (req) => this.client.send(new ListPartsCommand(req)),
+      (res) => res.Parts,
+      (res) => res.IsTruncated ? res.NextPartNumberMarker : undefined,
+      (req, token) => ({ ...req, PartNumberMarker: token })
+    );
+    return new Map(parts.flatMap(p => p.PartNumber && p.ETag ? [[p.PartNumber, { etag: p.ETag, size: p.Size ?? 0 }]] : []));
+  }
+
+  // Conditional single-request write; returns the new ETag. Throws (see isPreconditionFailed) if the condition fails
+  async putConditional(key: string, body: Buffer | string, condition: WriteCondition): Promise<string> {
+    const data = typeof body === "string" ? Buffer.from(body) : body;
+    const res = await this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Body: this.cipherFor(key)?.encrypt(data, key) ?? data,
+      IfMatch: condition.ifMatch,
+      IfNoneMatch: condition.ifNoneMatch,
+      ...this.sse.write,
+    }));
+    return res.ETag ?? "";
+  }
+
+  // Delete only if the object still has this ETag. Throws (see isPreconditionFailed) if it changed
+  async deleteConditional(key: string, ifMatch: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key, IfMatch: ifMatch }));
+  }
+
   async delete(keys: string | string[]): Promise<void> {
     const keyList = Array.isArray(keys) ? keys : [keys];
     if (keyList.length === 0) return;
@@ -105,28 +395,54 @@ export class S3 {
       (req, token) => ({ ...req, ContinuationToken: token })
     );
 
-    return {
-      objects: results.flatMap(r => r.objects),
-      prefixes: results.flatMap(r => r.prefixes),
-    };
+    // Report plaintext sizes, like head()
+    const objects = results.flatMap(r => r.objects).map(obj => {
+      const cipher = obj.Key ? this.cipherFor(obj.Key) : null;
+      return cipher && obj.Size !== undefined && !obj.Key!.endsWith("/") ? { ...obj, Size: cipher.plainSize(obj.Size) } : obj;
+    });
+    return { objects, prefixes: results.flatMap(r => r.prefixes) };
   }
 
   async head(key: string): Promise<{ size: number; mtime: Date } | null> {
+    const meta = await this.headRaw(key);
+    const cipher = this.cipherFor(key);
+    return meta && cipher ? { ...meta, size: cipher.plainSize(meta.size) } : meta;
+  }
+
+  // Size as stored, which is what server-side copies deal with
+  private async headRaw(key: string): Promise<{ size: number; mtime: Date } | null> {
     try {
-      const res = await this.client.send(new HeadObjectCommand({ Bucket: this.bucket, Key: key }));
+      const res = await this.client.send(new HeadObjectCommand({ Bucket: this.bucket, Key: key, ...this.sse.read }));
       return { size: res.ContentLength ?? 0, mtime: res.LastModified ?? new Date() };
     } catch {
       return null;
     }
   }
 
+  // Region the bucket is in, if the provider reports it; throws if the bucket is missing or inaccessible
+  async bucketRegion(): Promise<string | undefined> {
+    const res = await this.client.send(new HeadBucketCommand({ Bucket: this.bucket }));
+    return res.BucketRegion;
+  }
+
+  async versioning(): Promise<"Enabled" | "Suspended" | "Off"> {
+    const res = await this.client.send(new GetBucketVersioningCommand({ Bucket: this.bucket }));
+    return res.Status ?? "Off";
+  }
+
   async exists(key: string): Promise<boolean> {
     return (await this.head(key)) !== null;
   }
 
-  // Server-side copy, handles multipart for >5GB
+  // Server-side copy, handles multipart for >5GB. Encrypted objects are bound to their key, so they are
+  // decrypted and uploaded again under the new one instead
   async copy(src: string, dest: string, size?: number): Promise<void> {
-    const copySize = size ?? (await this.head(src))?.size ?? 0;
+    if (this.cipherFor(src) || this.cipherFor(dest)) {
+      const plain = await this.get(src);
+      await this.put(dest, Readable.from([plain]), undefined, plain.length);
+      return;
+    }
+    const copySize = size ?? (await this.headRaw(src))?.size ?? 0;
 
     if (copySize > 5 * 1024 * 1024 * 1024) {
       await this.multipartCopy(src, dest, copySize);
@@ -135,6 +451,8 @@ export class S3 {
         Bucket: this.bucket,
         CopySource: `${this.bucket}/${src}`,
         Key: dest,
+        ...this.sse.write,
+        ...this.sse.copySource,
       }));
     }
   }
@@ -142,7 +460,7 @@ export class S3 {
   private async multipartCopy(src: string, dest: string, size: number): Promise<void> {
     const partSize = 1024 * 1024 * 1024; // 1GB parts
     const { UploadId } = await this.client.send(
-      new CreateMultipartUploadCommand({ Bucket: this.bucket, Key: dest })
+      new CreateMultipartUploadCommand({ Bucket: this.bucket, Key: dest, ...this.sse.write })
     );
 
     const parts: { ETag: string; PartNumber: number }[] = [];
@@ -155,6 +473,8 @@ export class S3 {
         UploadId,
         PartNumber: partNum,
         CopySourceRange: `bytes=${i}-${end}`,
+        ...this.sse.read,
+        ...this.sse.copySource,
       }));
       if (CopyPartResult?.ETag) {
         parts.push({ ETag: CopyPartResult.ETag, PartNumber: partNum });
@@ -166,6 +486,7 @@ export class S3 {
       Key: dest,
       UploadId,
       MultipartUpload: { Parts: parts },
+      ...this.sse.read,
     }));
   }
 }
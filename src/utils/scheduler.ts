@@ -0,0 +1,159 @@
+// Background sync timing: a periodic interval, a trigger once the vault goes idle after edits,
+// and one-off triggers. Backs off exponentially while offline or failing; the sync itself is supplied by the caller.
+const BUSY_RETRY = 30 * 1000;          // another sync/merge is running, try again shortly
+const BACKOFF_BASE = 30 * 1000;
+const BACKOFF_MAX = 30 * 60 * 1000;
+
+export interface SchedulerOptions {
+  intervalMs: number;                  // 0 disables the periodic trigger
+  idleMs: number;                      // 0 disables syncing after edits
+  sync: () => Promise<boolean>;        // false (or a throw) counts as a failure
+  isBusy: () => boolean;               // a manual sync or pending merge owns the repo
+  isOnline: () => boolean;
+  onChange?: (state: SchedulerState) => void;
+}
+
+export interface SchedulerState {
+  paused: boolean;
+  running: boolean;
+  failures: number;                    // consecutive failed or offline attempts
+  nextRunAt: number | null;
+}
+
+// Delay before retry number `failures` (1-based): 30s, 1m, 2m, ... capped at 30m
+export function backoffDelay(failures: number): number {
+  return Math.min(BACKOFF_BASE * 2 ** Math.max(failures - 1, 0), BACKOFF_MAX);
+}
+
+export class SyncScheduler {
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+  private running = false;
+  private failures = 0;
+  private nextRunAt: number | null = null;
+  private started = false;
+
+  constructor(private options: SchedulerOptions, private paused = false) {}
+
+  get state(): SchedulerState {
+    return { paused: this.paused, running: this.running, failures: this.failures, nextRunAt: this.nextRunAt };
+  }
+
+  start(): void {
+    this.started = true;
+    this.scheduleNext();
+  }
+
+  stop(): void {
+    this.started = false;
+    this.clearTimers();
+    this.nextRunAt = null;
+  }
+
+  // Apply new intervals without losing the backoff state
+  configure(options: Partial<Pick<SchedulerOptions, "intervalMs" | "idleMs">>): void {
+    this.options = { ...this.options, ...options };
+    if (!this.options.idleMs && this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+    if (this.started && !this.running) this.scheduleNext();
+  }
+
+  pause(): void {
+    this.paused = true;
+    this.clearTimers();
+    this.nextRunAt = null;
+    this.emit();
+  }
+
+  resume(): void {
+    this.paused = false;
+    this.failures = 0;
+    if (this.started) this.scheduleNext();
+    else this.emit();
+  }
+
+  // Vault changed: sync once it has been quiet for idleMs. Doesn't cut a backoff short
+  notifyEdit(): void {
+    if (!this.started || this.paused || !this.options.idleMs || this.failures) return;
+    if (this.idleTimer) clearTimeout(this.idleTimer);
+    this.idleTimer = setTimeout(() => {
+      this.idleTimer = null;
+      void this.trigger();
+    }, this.options.idleMs);
+  }
+
+  // Connectivity came back: retry now instead of waiting out the backoff
+  notifyOnline(): void {
+    if (!this.failures) return;
+    this.failures = 0;
+    void this.trigger();
+  }
+
+  // Run a sync now unless paused, already running or the repo is busy
+  async trigger(): Promise<void> {
+    if (this.paused || this.running) return;
+    if (this.options.isBusy()) {
+      this.scheduleIn(BUSY_RETRY);
+      return;
+    }
+    if (!this.options.isOnline()) {
+      this.failures++;
+      this.scheduleNext();
+      return;
+    }
+
+    this.clearTimers();
+    this.running = true;
+    this.nextRunAt = null;
+    this.emit();
+    let ok = false;
+    try {
+      ok = await this.options.sync();
+    } catch (e) {
+      console.error("[remote-vault-sync] Auto-sync failed:", e);
+    } finally {
+      this.running = false;
+    }
+    this.failures = ok ? 0 : this.failures + 1;
+    this.scheduleNext();
+  }
+
+  private scheduleNext(): void {
+    if (!this.started || this.paused) {
+      this.emit();
+      return;
+    }
+    const delay = this.failures ? backoffDelay(this.failures) : this.options.intervalMs;
+    if (delay) {
+      this.scheduleIn(delay);
+    } else {
+      if (this.timer) clearTimeout(this.timer);
+      this.timer = null;
+      this.nextRunAt = null;
+      this.emit();
+    }
+  }
+
+  private scheduleIn(delay: number): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.nextRunAt = Date.now() + delay;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.trigger();
+    }, delay);
+    this.emit();
+  }
+
+  private clearTimers(): void {
+    if (this.timer) clearTimeout(this.timer);
+    if (this.idleTimer) clearTimeout(this.idleTimer);
+    this.timer = null;
+    this.idleTimer = null;
+  }
+
+  private emit(): void {
+    this.options.onChange?.(this.state);
+  }
+}